@@ -12,10 +12,15 @@ import Dashboard from "./pages/Dashboard";
 import Accounts from "./pages/Accounts";
 import Transactions from "./pages/Transactions";
 import BulkImport from "./pages/BulkImport";
+import Trash from "./pages/Trash";
 import Budget from "./pages/Budget";
 import Analytics from "./pages/Analytics";
 import Categories from "./pages/Categories";
 import Goals from "./pages/Goals";
+import Bills from "./pages/Bills";
+import Payees from "./pages/Payees";
+import PayeeDetail from "./pages/PayeeDetail";
+import Receipts from "./pages/Receipts";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -36,10 +41,15 @@ const App = () => (
                 <Route path="/accounts" element={<Accounts />} />
                 <Route path="/transactions" element={<Transactions />} />
                 <Route path="/transactions/bulk-import" element={<BulkImport />} />
+                <Route path="/transactions/trash" element={<Trash />} />
                 <Route path="/budget" element={<Budget />} />
                 <Route path="/analytics" element={<Analytics />} />
                 <Route path="/categories" element={<Categories />} />
                 <Route path="/goals" element={<Goals />} />
+                <Route path="/bills" element={<Bills />} />
+                <Route path="/payees" element={<Payees />} />
+                <Route path="/payees/:payeeId" element={<PayeeDetail />} />
+                <Route path="/receipts" element={<Receipts />} />
                 <Route path="/settings" element={<Settings />} />
               </Route>
               <Route path="*" element={<NotFound />} />
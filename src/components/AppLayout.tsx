@@ -1,8 +1,11 @@
 import { Outlet } from "react-router-dom";
 import { BottomNav } from "./BottomNav";
 import { MobileHeader } from "./MobileHeader";
+import { useRecurringCatchUp } from "@/hooks/useRecurringTransactions";
 
 export function AppLayout() {
+  useRecurringCatchUp();
+
   return (
     <div className="min-h-screen bg-background pb-4 md:pb-20">
       {/* Mobile Header with Hamburger Menu */}
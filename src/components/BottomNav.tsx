@@ -1,5 +1,5 @@
 import { NavLink, useLocation } from "react-router-dom";
-import { LayoutDashboard, ArrowLeftRight, Wallet, Target, PiggyBank, BarChart3, Settings } from "lucide-react";
+import { LayoutDashboard, ArrowLeftRight, Wallet, Target, PiggyBank, Receipt, BarChart3, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navItems = [
@@ -8,6 +8,7 @@ const navItems = [
   { to: "/accounts", icon: Wallet, label: "Accounts" },
   { to: "/budget", icon: Target, label: "Budget" },
   { to: "/goals", icon: PiggyBank, label: "Goals" },
+  { to: "/bills", icon: Receipt, label: "Bills" },
   { to: "/analytics", icon: BarChart3, label: "Analytics" },
   { to: "/settings", icon: Settings, label: "Settings" },
 ];
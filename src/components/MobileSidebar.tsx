@@ -8,6 +8,9 @@ import {
   PiggyBank,
   BarChart3, 
   Settings,
+  Store,
+  FileImage,
+  Receipt,
   Menu,
   X
 } from "lucide-react";
@@ -21,7 +24,10 @@ const navItems = [
   { to: "/accounts", icon: Wallet, label: "Accounts" },
   { to: "/budget", icon: Target, label: "Budget" },
   { to: "/goals", icon: PiggyBank, label: "Goals" },
+  { to: "/bills", icon: Receipt, label: "Bills" },
   { to: "/analytics", icon: BarChart3, label: "Analytics" },
+  { to: "/payees", icon: Store, label: "Payees" },
+  { to: "/receipts", icon: FileImage, label: "Receipts" },
   { to: "/settings", icon: Settings, label: "Settings" },
 ];
 
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Lock } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/hooks/useProfile";
+import { useReconciliation, balanceEffect } from "@/hooks/useReconciliation";
+import type { Account } from "@/types/database";
+
+interface ReconcileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: Account | null;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Statement reconciliation: enter the statement, tick what's on it, finish when the difference is zero
+export function ReconcileDialog({ open, onOpenChange, account }: ReconcileDialogProps) {
+  const { transactions, lastReconciliation, isLoading, saveProgress, reconcile, isSaving, isReconciling } = useReconciliation(
+    open ? account?.id : undefined
+  );
+  const [step, setStep] = useState<"statement" | "match">("statement");
+  const [statementDate, setStatementDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [statementBalance, setStatementBalance] = useState("");
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (open) {
+      setStep("statement");
+      setStatementDate(format(new Date(), "yyyy-MM-dd"));
+      setStatementBalance("");
+    }
+  }, [open]);
+
+  // Only transactions up to the statement date can appear on it
+  const statementTransactions = useMemo(
+    () => transactions.filter((t) => t.transaction_date <= statementDate),
+    [transactions, statementDate]
+  );
+  const laterCount = transactions.length - statementTransactions.length;
+
+  // The account balance without the transactions that haven't cleared yet
+  const clearedBalance = useMemo(() => {
+    if (!account) return 0;
+    const outstanding = transactions
+      .filter((t) => !ticked.has(t.id))
+      .reduce((sum, t) => sum + balanceEffect(t), 0);
+    return roundCents(Number(account.balance) - outstanding);
+  }, [account, transactions, ticked]);
+  const difference = roundCents((parseFloat(statementBalance) || 0) - clearedBalance);
+
+  const handleNext = () => {
+    // Start from what was cleared before
+    setTicked(new Set(statementTransactions.filter((t) => t.status === "cleared").map((t) => t.id)));
+    setStep("match");
+  };
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(ticked);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setTicked(next);
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveProgress({
+        clearedIds: statementTransactions.filter((t) => ticked.has(t.id) && t.status !== "cleared").map((t) => t.id),
+        pendingIds: statementTransactions.filter((t) => !ticked.has(t.id) && t.status === "cleared").map((t) => t.id),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleFinish = async () => {
+    try {
+      await reconcile({
+        statementDate,
+        statementBalance: parseFloat(statementBalance),
+        transactionIds: Array.from(ticked),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  if (!account) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Reconcile {account.name}</DialogTitle>
+          <DialogDescription>
+            {step === "statement"
+              ? "Enter the closing date and balance from your statement."
+              : "Tick every transaction that appears on the statement."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "statement" ? (
+          <div className="space-y-4">
+            {lastReconciliation && (
+              <p className="text-sm text-muted-foreground">
+                Last reconciled to {format(parseISO(lastReconciliation.statement_date), "MMM d, yyyy")} at{" "}
+                {formatCurrency(Number(lastReconciliation.statement_balance), account.currency)}
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Statement End Date</Label>
+              <Input type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Statement Ending Balance ({account.currency})</Label>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleNext}
+                disabled={!statementDate || statementBalance === "" || isNaN(parseFloat(statementBalance)) || isLoading}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Next
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg border bg-muted/30 p-2">
+                <p className="text-xs text-muted-foreground">Statement</p>
+                <p className="text-sm font-semibold">{formatCurrency(parseFloat(statementBalance), account.currency)}</p>
+              </div>
+              <div className="rounded-lg border bg-muted/30 p-2">
+                <p className="text-xs text-muted-foreground">Cleared</p>
+                <p className="text-sm font-semibold">{formatCurrency(clearedBalance, account.currency)}</p>
+              </div>
+              <div className={`rounded-lg border p-2 ${difference === 0 ? "border-accent/30 bg-accent/5" : "border-destructive/30 bg-destructive/5"}`}>
+                <p className="text-xs text-muted-foreground">Difference</p>
+                <p className={`text-sm font-semibold ${difference === 0 ? "text-accent" : "text-destructive"}`}>
+                  {formatCurrency(difference, account.currency)}
+                </p>
+              </div>
+            </div>
+
+            {statementTransactions.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No unreconciled transactions on or before {format(parseISO(statementDate), "MMM d, yyyy")}
+              </p>
+            ) : (
+              <div className="max-h-80 divide-y overflow-y-auto rounded-lg border">
+                <label className="flex cursor-pointer items-center gap-3 bg-muted/50 px-3 py-2 text-xs font-medium text-muted-foreground">
+                  <Checkbox
+                    checked={statementTransactions.every((t) => ticked.has(t.id))}
+                    onCheckedChange={(checked) =>
+                      setTicked(checked ? new Set(statementTransactions.map((t) => t.id)) : new Set())
+                    }
+                  />
+                  {ticked.size} of {statementTransactions.length} ticked
+                </label>
+                {statementTransactions.map((t) => {
+                  const effect = balanceEffect(t);
+                  return (
+                    <label key={t.id} className="flex cursor-pointer items-center gap-3 px-3 py-2 hover:bg-muted/30">
+                      <Checkbox checked={ticked.has(t.id)} onCheckedChange={(checked) => toggle(t.id, !!checked)} />
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm text-foreground">{t.description || "Untitled"}</p>
+                        <p className="text-xs text-muted-foreground">{format(parseISO(t.transaction_date), "MMM d, yyyy")}</p>
+                      </div>
+                      <span className={`whitespace-nowrap text-sm font-semibold ${effect >= 0 ? "text-accent" : "text-destructive"}`}>
+                        {effect >= 0 ? "+" : "-"}{formatCurrency(Math.abs(effect), account.currency)}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {laterCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {laterCount} transaction{laterCount !== 1 ? "s" : ""} dated after the statement stay outstanding.
+              </p>
+            )}
+
+            <div className="flex flex-col gap-2 pt-2 sm:flex-row">
+              <Button variant="outline" className="flex-1" onClick={() => setStep("statement")}>
+                Back
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={handleSave} disabled={isSaving || isReconciling}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save for Later
+              </Button>
+              <Button className="flex-1" onClick={handleFinish} disabled={difference !== 0 || isSaving || isReconciling}>
+                {isReconciling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                Finish
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { PayeeInput } from "@/components/transactions/PayeeInput";
+import type { BillInput } from "@/hooks/useBills";
+import type { Account, BillFrequency, Category, Payee } from "@/types/database";
+
+export const BILL_FREQUENCY_LABELS: Record<BillFrequency, string> = {
+  daily: "Daily",
+  "every-2-days": "Every 2 days",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+interface BillFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the form, e.g. from an existing bill or a detected subscription
+  initialValues: Partial<BillInput> | null;
+  isEditing: boolean;
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
+  onSubmit: (bill: BillInput) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+const NONE = "none";
+
+export function BillFormDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  isEditing,
+  accounts,
+  categories,
+  payees,
+  onSubmit,
+  isSubmitting,
+}: BillFormDialogProps) {
+  const [name, setName] = useState("");
+  const [payeeName, setPayeeName] = useState("");
+  const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState<BillFrequency>("monthly");
+  const [firstDueDate, setFirstDueDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [accountId, setAccountId] = useState(NONE);
+  const [categoryId, setCategoryId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initialValues?.name || "");
+    setPayeeName(initialValues?.payee_name || "");
+    setAmount(initialValues?.amount ? String(initialValues.amount) : "");
+    setFrequency(initialValues?.frequency || "monthly");
+    setFirstDueDate(initialValues?.first_due_date || format(new Date(), "yyyy-MM-dd"));
+    setAccountId(initialValues?.account_id || NONE);
+    setCategoryId(initialValues?.category_id || NONE);
+    setNotes(initialValues?.notes || "");
+  }, [open, initialValues]);
+
+  const parsedAmount = parseFloat(amount);
+  const isValid = !!name.trim() && parsedAmount > 0 && !!firstDueDate;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    try {
+      await onSubmit({
+        name: name.trim(),
+        payee_name: payeeName,
+        amount: parsedAmount,
+        frequency,
+        first_due_date: firstDueDate,
+        account_id: accountId === NONE ? null : accountId,
+        category_id: categoryId === NONE ? null : categoryId,
+        notes: notes.trim() || null,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Bill" : "Add Bill"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input placeholder="e.g. Netflix, Rent" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Payee</Label>
+            <PayeeInput value={payeeName} onChange={setPayeeName} payees={payees} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Expected Amount</Label>
+              <Input type="number" step="0.01" placeholder="0.00" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Repeats</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as BillFrequency)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BILL_FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>{isEditing ? "Due Date" : "First Due Date"}</Label>
+            <Input type="date" value={firstDueDate} onChange={(e) => setFirstDueDate(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Later due dates follow from this one, e.g. the same day each month.</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Paid From</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger><SelectValue placeholder="Select account" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Choose later</SelectItem>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={a.id}>{a.name} ({a.currency})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Uncategorized</SelectItem>
+                {categories
+                  .filter((c) => c.type === "expense")
+                  .map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!isValid || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isEditing ? "Save" : "Add Bill"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
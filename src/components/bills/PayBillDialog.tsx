@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/hooks/useProfile";
+import type { Account, Bill } from "@/types/database";
+
+interface PayBillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bill: Bill | null;
+  account: Account | null;
+  onPay: (payment: { amount: number; date: string; updateExpected: boolean }) => Promise<void>;
+  isPaying: boolean;
+}
+
+// Confirms the amount and date of a bill payment before it's recorded as an expense
+export function PayBillDialog({ open, onOpenChange, bill, account, onPay, isPaying }: PayBillDialogProps) {
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [updateExpected, setUpdateExpected] = useState(false);
+
+  useEffect(() => {
+    if (open && bill) {
+      setAmount(String(bill.amount));
+      setDate(format(new Date(), "yyyy-MM-dd"));
+      setUpdateExpected(false);
+    }
+  }, [open, bill]);
+
+  if (!bill) return null;
+
+  const parsedAmount = parseFloat(amount);
+  const amountChanged = parsedAmount > 0 && Math.abs(parsedAmount - bill.amount) >= 0.01;
+
+  const handlePay = async () => {
+    try {
+      await onPay({ amount: parsedAmount, date, updateExpected: amountChanged && updateExpected });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pay {bill.name}</DialogTitle>
+          <DialogDescription>
+            Due {format(parseISO(bill.next_due_date), "MMM d, yyyy")}.{" "}
+            {account ? `An expense is added to ${account.name}.` : "Choose the account this bill is paid from first."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Amount{account && ` (${account.currency})`}</Label>
+            <Input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+            {amountChanged && (
+              <label className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox checked={updateExpected} onCheckedChange={(checked) => setUpdateExpected(!!checked)} />
+                Expect {formatCurrency(parsedAmount, account?.currency)} from now on
+              </label>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Paid On</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handlePay} disabled={!account || !(parsedAmount > 0) || !date || isPaying}>
+              {isPaying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark Paid
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import { format, parseISO } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { getCategorySpending, spendingSign, SPENDING_FILTER } from "@/utils/refunds";
 
 interface BudgetHistoryProps {
   history: Budget[];
@@ -59,22 +60,25 @@ export function BudgetHistory({ history, spending, categories, formatCurrency, i
       const budget = history.find(b => b.id === expandedBudget);
       if (!budget) return [];
 
-      let query = supabase
+      const query = supabase
         .from("transactions")
-        .select("id, amount, description, transaction_date, category_id")
-        .eq("type", "expense")
+        .select("id, amount, type, refund_of_id, description, transaction_date, category_id, transaction_splits(category_id, amount)")
+        .or(SPENDING_FILTER)
         .gte("transaction_date", budget.start_date)
         .lte("transaction_date", budget.end_date || format(new Date(), "yyyy-MM-dd"))
         .order("transaction_date", { ascending: false });
 
-      // Only filter by category if not an overall budget
-      if (!budget.is_overall && budget.category_id) {
-        query = query.eq("category_id", budget.category_id);
-      }
-
       const { data, error } = await query;
       if (error) throw error;
-      return data;
+
+      // Only filter by category if not an overall budget; split transactions count their matching lines
+      // and refunds show as negative spending
+      if (!budget.is_overall && budget.category_id) {
+        return data
+          .map(tx => ({ ...tx, amount: getCategorySpending(tx, budget.category_id) }))
+          .filter(tx => tx.amount !== 0);
+      }
+      return data.map(tx => ({ ...tx, amount: Number(tx.amount) * spendingSign(tx) }));
     },
     enabled: !!expandedBudget && !!user,
   });
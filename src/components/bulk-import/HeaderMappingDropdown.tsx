@@ -20,6 +20,7 @@ const FIELD_OPTIONS: { value: HeaderField; label: string; description: string }[
   { value: "goal_name", label: "Goal Name", description: "Goal to link" },
   { value: "deduction_type", label: "Deduction Type", description: "full or split" },
   { value: "frequency", label: "Frequency", description: "Recurring frequency" },
+  { value: "tags", label: "Tags", description: "Tag names separated by ; or |" },
 ];
 
 export default function HeaderMappingDropdown({
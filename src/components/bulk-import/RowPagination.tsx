@@ -0,0 +1,35 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Rows shown per page in the preview tables; large files would be too slow to render at once
+export const ROWS_PER_PAGE = 100;
+
+interface RowPaginationProps {
+  page: number;
+  totalRows: number;
+  onPageChange: (page: number) => void;
+}
+
+export default function RowPagination({ page, totalRows, onPageChange }: RowPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(totalRows / ROWS_PER_PAGE));
+  if (pageCount <= 1) return null;
+
+  const first = page * ROWS_PER_PAGE + 1;
+  const last = Math.min((page + 1) * ROWS_PER_PAGE, totalRows);
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <p className="text-xs text-muted-foreground">
+        Rows {first}-{last} of {totalRows}
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page === 0}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount - 1}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
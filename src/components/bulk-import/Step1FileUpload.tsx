@@ -6,7 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { validateCSVFile, readFileAsText, parseCSV } from "@/utils/csvParser";
+import { Progress } from "@/components/ui/progress";
+import { validateCSVFile, parseCSV, parseCSVFile, MAX_CSV_FILE_SIZE } from "@/utils/csvParser";
 import { ParsedCSVRow } from "@/types/bulkImport";
 
 interface Step1FileUploadProps {
@@ -15,6 +16,7 @@ interface Step1FileUploadProps {
 
 export default function Step1FileUpload({ onFileLoaded }: Step1FileUploadProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState(0);
   const [error, setError] = useState<string>("");
   const [pastedCSV, setPastedCSV] = useState<string>("");
   const [parsedData, setParsedData] = useState<{ headers: string[]; rows: ParsedCSVRow[] } | null>(null);
@@ -32,6 +34,7 @@ export default function Step1FileUpload({ onFileLoaded }: Step1FileUploadProps)
   const processFile = async (file: File) => {
     setError("");
     setIsLoading(true);
+    setParseProgress(0);
 
     try {
       // Validate file
@@ -42,11 +45,8 @@ export default function Step1FileUpload({ onFileLoaded }: Step1FileUploadProps)
         return;
       }
 
-      // Read file
-      const csvText = await readFileAsText(file);
-
-      // Parse CSV
-      const result = parseCSV(csvText);
+      // Read and parse the file a chunk at a time
+      const result = await parseCSVFile(file, setParseProgress);
       if (result.error) {
         setError(result.error);
         setIsLoading(false);
@@ -210,16 +210,24 @@ export default function Step1FileUpload({ onFileLoaded }: Step1FileUploadProps)
             <Upload className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
             <p className="text-lg font-semibold mb-1">Drag and drop your CSV file here</p>
             <p className="text-sm text-muted-foreground">or click to browse</p>
-            <p className="text-xs text-muted-foreground mt-2">Max 5MB • Max 500 rows</p>
+            <p className="text-xs text-muted-foreground mt-2">
+              Max {MAX_CSV_FILE_SIZE / 1024 / 1024}MB • Comma, semicolon or tab separated
+            </p>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv"
               onChange={handleFileSelect}
               disabled={isLoading}
               className="hidden"
             />
           </div>
+          {isLoading && (
+            <div className="space-y-1">
+              <Progress value={parseProgress} className="h-2" />
+              <p className="text-xs text-muted-foreground text-center">Reading file... {parseProgress}%</p>
+            </div>
+          )}
         </TabsContent>
 
         {/* Paste Tab */}
@@ -292,8 +300,8 @@ export default function Step1FileUpload({ onFileLoaded }: Step1FileUploadProps)
           <div className="space-y-2">
             <h4 className="font-semibold text-sm">Constraints & Validation Rules</h4>
             <ul className="text-sm space-y-1 ml-4 list-disc text-muted-foreground">
-              <li>Max 500 rows per import</li>
-              <li>Max 5MB file size</li>
+              <li>Max {MAX_CSV_FILE_SIZE / 1024 / 1024}MB file size; large files are imported in batches</li>
+              <li>Fields containing commas, quotes or line breaks must be in double quotes, with quotes doubled ("")</li>
               <li>Dates cannot be in the future</li>
               <li>Amounts must be positive with max 2 decimal places</li>
               <li>Transfer type requires both from_account and to_account (cannot be the same); no goal fields allowed</li>
@@ -5,6 +5,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { AlertCircle, CheckCircle2 } from "lucide-react";
 import { ParsedCSVRow, HeaderMapping, HeaderField } from "@/types/bulkImport";
 import { validateMappingCompleteness } from "@/utils/csvValidator";
+import RowPagination, { ROWS_PER_PAGE } from "./RowPagination";
 import {
   Select,
   SelectContent,
@@ -35,6 +36,7 @@ const AVAILABLE_FIELDS: { value: HeaderField; label: string }[] = [
   { value: "goal_name", label: "Goal Name (exchanges with goal)" },
   { value: "exchange_from_goal", label: "Exchange Amount (auto: income→contribute, expense→deduct)" },
   { value: "frequency", label: "Frequency" },
+  { value: "tags", label: "Tags (separated by ; or |)" },
 ];
 
 export default function Step2HeaderMapping({
@@ -47,6 +49,7 @@ export default function Step2HeaderMapping({
   const [headerMapping, setHeaderMapping] = useState<HeaderMapping>({});
   const [error, setError] = useState<string>("");
   const [selectAllChecked, setSelectAllChecked] = useState(true);
+  const [page, setPage] = useState(0);
 
   // Auto-map common headers
   const getAutoMappedValue = (header: string): HeaderField => {
@@ -62,6 +65,7 @@ export default function Step2HeaderMapping({
     if (lowerHeader === "goal_name") return "goal_name";
     if (lowerHeader === "deduction_type") return "deduction_type";
     if (["frequency", "recurring"].includes(lowerHeader)) return "frequency";
+    if (["tags", "tag", "labels"].includes(lowerHeader)) return "tags";
     return "skip";
   };
 
@@ -231,29 +235,33 @@ export default function Step2HeaderMapping({
               </tr>
             </thead>
             <tbody className="divide-y max-h-64 overflow-y-auto">
-              {csvData.map((row, idx) => (
-                <tr key={idx} className="hover:bg-muted/50">
-                  <td className="p-2">
-                    <Checkbox
-                      id={`row-${idx}`}
-                      checked={selectedRows.has(idx)}
-                      onCheckedChange={(checked) => handleRowCheckChange(idx, checked as boolean)}
-                    />
-                  </td>
-                  <td className="p-2 font-medium text-muted-foreground">{idx + 1}</td>
-                  {originalHeaders.slice(0, 5).map((header) => (
-                    <td key={`${idx}-${header}`} className="p-2 truncate max-w-xs text-muted-foreground">
-                      {String(row[header] || "-").substring(0, 30)}
+              {csvData.slice(page * ROWS_PER_PAGE, (page + 1) * ROWS_PER_PAGE).map((row, pageIdx) => {
+                const idx = page * ROWS_PER_PAGE + pageIdx;
+                return (
+                  <tr key={idx} className="hover:bg-muted/50">
+                    <td className="p-2">
+                      <Checkbox
+                        id={`row-${idx}`}
+                        checked={selectedRows.has(idx)}
+                        onCheckedChange={(checked) => handleRowCheckChange(idx, checked as boolean)}
+                      />
                     </td>
-                  ))}
-                  {originalHeaders.length > 5 && (
-                    <td className="p-2 text-muted-foreground text-xs italic">hidden</td>
-                  )}
-                </tr>
-              ))}
+                    <td className="p-2 font-medium text-muted-foreground">{idx + 1}</td>
+                    {originalHeaders.slice(0, 5).map((header) => (
+                      <td key={`${idx}-${header}`} className="p-2 truncate max-w-xs text-muted-foreground">
+                        {String(row[header] || "-").substring(0, 30)}
+                      </td>
+                    ))}
+                    {originalHeaders.length > 5 && (
+                      <td className="p-2 text-muted-foreground text-xs italic">hidden</td>
+                    )}
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
+        <RowPagination page={page} totalRows={csvData.length} onPageChange={setPage} />
       </div>
 
       {/* Continue Button */}
@@ -1,13 +1,19 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
-import { AlertCircle, CheckCircle2, Loader2, X } from "lucide-react";
+import { AlertCircle, CheckCircle2, CopyCheck, Loader2, Sparkles, X } from "lucide-react";
+import { addDays, format, parseISO } from "date-fns";
 import { ParsedCSVRow, HeaderMapping, ValidationError } from "@/types/bulkImport";
-import { validateRow } from "@/utils/csvValidator";
+import { validateRow, parseCustomDate } from "@/utils/csvValidator";
+import { extractMappedData } from "@/utils/bulkImportService";
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicateCandidate, createDuplicateIndex } from "@/utils/duplicateDetection";
+import { useDuplicateCandidates } from "@/hooks/useDuplicateTransactions";
+import { useTransactionSuggestions } from "@/hooks/useTransactionSuggestions";
 import { Account, Category, Goal } from "@/types/database";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Progress } from "@/components/ui/progress";
+import RowPagination, { ROWS_PER_PAGE } from "./RowPagination";
 
 interface Step3ErrorCorrectionProps {
   csvData: ParsedCSVRow[];
@@ -42,12 +48,41 @@ export default function Step3ErrorCorrection({
   >(new Map());
   const [reviewed, setReviewed] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
+  const [page, setPage] = useState(0);
+  const [errorRowsOnly, setErrorRowsOnly] = useState(false);
+  // Rows whose empty category cell was filled in from similar past transactions
+  const [suggestedCategoryRows, setSuggestedCategoryRows] = useState<Set<number>>(new Set());
+  const { suggest } = useTransactionSuggestions();
 
   // Get goal names
   const goalNames = goals.map((g) => g.name);
 
+  const categoryColumn = Object.entries(headerMapping).find(([, field]) => field === "category")?.[0];
+
+  // Fill empty category cells with the category most used for similar descriptions
+  const prefillCategories = useCallback(() => {
+    if (!categoryColumn) return;
+    const filled = new Set<number>();
+    selectedRows.forEach((rowIdx) => {
+      const row = csvData[rowIdx];
+      if (String(row[categoryColumn] || "").trim()) return;
+      const mapped = extractMappedData(row, headerMapping);
+      const type = String(mapped.type || "expense");
+      if (!mapped.description || type.startsWith("transfer")) return;
+      const suggestion = suggest(String(mapped.description), type);
+      const category = categories.find((c) => c.id === suggestion?.category_id);
+      if (!category) return;
+      row[categoryColumn] = category.name;
+      filled.add(rowIdx);
+    });
+    if (filled.size > 0) {
+      setSuggestedCategoryRows((current) => new Set([...current, ...filled]));
+    }
+  }, [categoryColumn, selectedRows, csvData, headerMapping, suggest, categories]);
+
   // Validate all rows
   const validateAllRows = useCallback(() => {
+    prefillCategories();
     const results = new Map<number, ValidationError[]>();
 
     selectedRows.forEach((rowIdx) => {
@@ -65,11 +100,91 @@ export default function Step3ErrorCorrection({
     setReviewed(true);
 
     return results.size === 0; // Return true if all valid
-  }, [csvData, headerMapping, selectedRows, accounts, categories, goalNames]);
+  }, [prefillCategories, csvData, headerMapping, selectedRows, accounts, categories, goalNames]);
+
+  // Valid selected rows in the shape the duplicate detector compares
+  const importCandidates = useMemo(() => {
+    if (!reviewed) return new Map<number, DuplicateCandidate>();
+    const candidates = new Map<number, DuplicateCandidate>();
+    Array.from(selectedRows)
+      .sort((a, b) => a - b)
+      .forEach((rowIdx) => {
+        if (validationResults.has(rowIdx)) return;
+        const mapped = extractMappedData(csvData[rowIdx], headerMapping);
+        const date = parseCustomDate(String(mapped.date || ""));
+        const isTransfer = String(mapped.type || "").startsWith("transfer");
+        // A transfer is compared by its sending leg
+        const accountName = String((isTransfer ? mapped.from_account : mapped.account_id) || "").toLowerCase();
+        const account = accounts.find((a) => a.name.toLowerCase() === accountName);
+        if (!date || !account) return;
+        candidates.set(rowIdx, {
+          id: `row-${rowIdx}`,
+          account_id: account.id,
+          type: isTransfer ? "transfer-sender" : String(mapped.type),
+          amount: Number(mapped.amount),
+          transaction_date: format(date, "yyyy-MM-dd"),
+          description: mapped.description ? String(mapped.description) : null,
+        });
+      });
+    return candidates;
+  }, [reviewed, selectedRows, validationResults, csvData, headerMapping, accounts]);
+
+  // Existing transactions around the file's dates
+  const duplicateRange = useMemo(() => {
+    const dates = Array.from(importCandidates.values()).map((c) => c.transaction_date).sort();
+    if (dates.length === 0) return null;
+    return {
+      from: format(addDays(parseISO(dates[0]), -DEFAULT_DUPLICATE_OPTIONS.dayWindow), "yyyy-MM-dd"),
+      to: format(addDays(parseISO(dates[dates.length - 1]), DEFAULT_DUPLICATE_OPTIONS.dayWindow), "yyyy-MM-dd"),
+    };
+  }, [importCandidates]);
+  const { candidates: existingTransactions } = useDuplicateCandidates(duplicateRange);
+
+  // Rows that look like a transaction already recorded, or like an earlier row of the file
+  const duplicateWarnings = useMemo(() => {
+    const warnings = new Map<number, string>();
+    const existingIndex = createDuplicateIndex<DuplicateCandidate>();
+    existingTransactions.forEach((transaction) => existingIndex.add(transaction));
+    const earlierRows = createDuplicateIndex<DuplicateCandidate>();
+    importCandidates.forEach((candidate, rowIdx) => {
+      const [existing] = existingIndex.find(candidate);
+      const [earlierRow] = earlierRows.find(candidate);
+      if (existing) {
+        warnings.set(
+          rowIdx,
+          `Looks like "${existing.description || "Untitled"}" on ${format(parseISO(existing.transaction_date), "MMM d, yyyy")}, which is already recorded`
+        );
+      } else if (earlierRow) {
+        warnings.set(rowIdx, `Looks like row ${Number(earlierRow.id.replace("row-", "")) + 1} of this file`);
+      }
+      earlierRows.add(candidate);
+    });
+    return warnings;
+  }, [importCandidates, existingTransactions]);
+
+  const handleUnselectDuplicateRows = () => {
+    const newSelected = new Set(selectedRows);
+    duplicateWarnings.forEach((_, rowIndex) => {
+      newSelected.delete(rowIndex);
+    });
+    onSelectedRowsChange(newSelected);
+  };
 
   const hasErrors = validationResults.size > 0;
   const canImport = reviewed && !hasErrors;
 
+  // Selected rows in file order, or only those with errors
+  const tableRows = useMemo(
+    () =>
+      Array.from(selectedRows)
+        .filter((rowIdx) => !(errorRowsOnly && hasErrors) || validationResults.has(rowIdx))
+        .sort((a, b) => a - b),
+    [selectedRows, errorRowsOnly, hasErrors, validationResults]
+  );
+  // Stays on the last page when rows are unselected or fixed
+  const currentPage = Math.min(page, Math.max(0, Math.ceil(tableRows.length / ROWS_PER_PAGE) - 1));
+  const pageRows = tableRows.slice(currentPage * ROWS_PER_PAGE, (currentPage + 1) * ROWS_PER_PAGE);
+
   const handleCellClick = (rowIndex: number, column: string, value: any) => {
     setEditingCell({ rowIndex, column });
     setEditValue(String(value || ""));
@@ -80,6 +195,11 @@ export default function Step3ErrorCorrection({
 
     const row = csvData[editingCell.rowIndex];
     row[editingCell.column] = editValue;
+    if (editingCell.column === categoryColumn && suggestedCategoryRows.has(editingCell.rowIndex)) {
+      const remaining = new Set(suggestedCategoryRows);
+      remaining.delete(editingCell.rowIndex);
+      setSuggestedCategoryRows(remaining);
+    }
 
     // Re-validate this row
     const errors = validateRow(row, headerMapping, {
@@ -164,6 +284,7 @@ export default function Step3ErrorCorrection({
       "goal_name": "Goal Name",
       "exchange_from_goal": "Exchange Amount",
       "frequency": "Frequency",
+      "tags": "Tags",
     };
     
     // Get the mapped field value for this column
@@ -244,6 +365,52 @@ export default function Step3ErrorCorrection({
             <X className="h-4 w-4" />
             Unselect Error Rows
           </Button>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="error-rows-only"
+              checked={errorRowsOnly}
+              onCheckedChange={(checked) => {
+                setErrorRowsOnly(checked as boolean);
+                setPage(0);
+              }}
+            />
+            <label htmlFor="error-rows-only" className="text-sm cursor-pointer">
+              Show only rows with errors
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Suggested Categories */}
+      {reviewed && suggestedCategoryRows.size > 0 && (
+        <Alert className="border-blue-500/30 bg-blue-500/5">
+          <Sparkles className="h-4 w-4 text-blue-600" />
+          <AlertDescription>
+            Filled in the category of {suggestedCategoryRows.size} row(s) from similar past transactions. They are
+            shown in italics; click a cell to change it.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Duplicate Warnings */}
+      {reviewed && duplicateWarnings.size > 0 && (
+        <div className="space-y-2">
+          <Alert className="border-amber-500/30 bg-amber-500/5">
+            <CopyCheck className="h-4 w-4 text-amber-600" />
+            <AlertDescription>
+              {duplicateWarnings.size} row(s) may be duplicates. Hover the amber row numbers for details. They will
+              still be imported unless you unselect them.
+            </AlertDescription>
+          </Alert>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleUnselectDuplicateRows}
+            className="w-full gap-2"
+          >
+            <X className="h-4 w-4" />
+            Unselect Possible Duplicates
+          </Button>
         </div>
       )}
 
@@ -284,12 +451,11 @@ export default function Step3ErrorCorrection({
               </tr>
             </thead>
             <tbody className="divide-y max-h-96 overflow-y-auto">
-              {csvData.map((row, rowIdx) => {
+              {pageRows.map((rowIdx) => {
+                const row = csvData[rowIdx];
                 const isSelected = selectedRows.has(rowIdx);
                 const rowHasErrors = !isRowValid(rowIdx);
 
-                if (!isSelected) return null;
-
                 return (
                   <tr
                     key={rowIdx}
@@ -305,13 +471,26 @@ export default function Step3ErrorCorrection({
                         }
                       />
                     </td>
-                    <td className={`p-2 font-mono text-xs font-bold whitespace-nowrap transition-colors ${
-                      rowHasErrors
-                        ? "bg-red-500/20 text-red-700"
-                        : "text-muted-foreground"
-                    }`}>
-                      {rowIdx + 1}
-                    </td>
+                    {duplicateWarnings.has(rowIdx) ? (
+                      <Tooltip delayDuration={100}>
+                        <TooltipTrigger asChild>
+                          <td className="p-2 font-mono text-xs font-bold whitespace-nowrap bg-amber-500/20 text-amber-600">
+                            {rowIdx + 1}
+                          </td>
+                        </TooltipTrigger>
+                        <TooltipContent side="top" className="max-w-xs">
+                          <p className="text-xs">{duplicateWarnings.get(rowIdx)}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    ) : (
+                      <td className={`p-2 font-mono text-xs font-bold whitespace-nowrap transition-colors ${
+                        rowHasErrors
+                          ? "bg-red-500/20 text-red-700"
+                          : "text-muted-foreground"
+                      }`}>
+                        {rowIdx + 1}
+                      </td>
+                    )}
                     {displayColumns.map((col) => {
                       const value = row[col];
                       const cellErrors = getErrorsForCell(rowIdx, col);
@@ -320,6 +499,7 @@ export default function Step3ErrorCorrection({
                         editingCell?.column === col;
                       const status = getCellStatus(rowIdx, col);
                       const hasError = cellErrors.length > 0;
+                      const isSuggested = col === categoryColumn && suggestedCategoryRows.has(rowIdx);
 
                       const cellContent = (
                         <td
@@ -354,7 +534,7 @@ export default function Step3ErrorCorrection({
                               {status === "valid" && (
                                 <span className="text-green-600 flex-shrink-0">✓</span>
                               )}
-                              <span className="truncate">{String(value || "")}</span>
+                              <span className={`truncate ${isSuggested ? "italic text-blue-700" : ""}`}>{String(value || "")}</span>
                             </div>
                           )}
                         </td>
@@ -387,6 +567,7 @@ export default function Step3ErrorCorrection({
           </table>
         </div>
       )}
+      {reviewed && <RowPagination page={currentPage} totalRows={tableRows.length} onPageChange={setPage} />}
 
         {/* Action Buttons */}
         <div className="flex gap-2 flex-col sm:flex-row">
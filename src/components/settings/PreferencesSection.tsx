@@ -6,7 +6,8 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { CURRENCIES } from "@/types/database";
+import { CURRENCIES, ImageQuality } from "@/types/database";
+import { DEFAULT_IMAGE_QUALITY, IMAGE_QUALITY_OPTIONS } from "@/utils/imageCompression";
 import { Moon, Sun } from "lucide-react";
 
 const TIMEZONES = [
@@ -56,6 +57,15 @@ export function PreferencesSection() {
     }
   };
 
+  const handleImageQualityChange = async (quality: string) => {
+    try {
+      await updateProfile({ attachment_image_quality: quality as ImageQuality });
+      toast({ title: "Photo quality updated" });
+    } catch {
+      toast({ title: "Failed to update photo quality", variant: "destructive" });
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -132,6 +142,29 @@ export function PreferencesSection() {
               Pre-selected when adding transactions
             </p>
           </div>
+
+          {/* Attachment Photo Quality */}
+          <div className="space-y-2">
+            <Label>Receipt Photo Quality</Label>
+            <Select
+              value={profile?.attachment_image_quality || DEFAULT_IMAGE_QUALITY}
+              onValueChange={handleImageQualityChange}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(IMAGE_QUALITY_OPTIONS).map(([value, option]) => (
+                  <SelectItem key={value} value={value}>
+                    {option.label} ({option.description})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Photos are resized before upload
+            </p>
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { PayeeInput } from "@/components/transactions/PayeeInput";
+import { TagInput } from "@/components/transactions/TagInput";
+import { formatCurrency } from "@/hooks/useProfile";
+import {
+  useTransactionRulePreview,
+  type TransactionRuleConditions,
+  type TransactionRuleInput,
+} from "@/hooks/useTransactionRules";
+import type {
+  Account,
+  Category,
+  Payee,
+  Tag,
+  TransactionRuleField,
+  TransactionRuleOperator,
+} from "@/types/database";
+
+export const RULE_FIELD_LABELS: Record<TransactionRuleField, string> = {
+  description: "Description",
+  payee: "Payee",
+  notes: "Notes",
+};
+
+export const RULE_OPERATOR_LABELS: Record<TransactionRuleOperator, string> = {
+  contains: "contains",
+  equals: "is",
+  starts_with: "starts with",
+  ends_with: "ends with",
+};
+
+interface RuleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the form when editing
+  initialValues: Partial<TransactionRuleInput> | null;
+  isEditing: boolean;
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
+  tags: Tag[];
+  onSubmit: (rule: TransactionRuleInput) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+const ANY = "any";
+const NONE = "none";
+
+const parseOptionalAmount = (value: string) => (value.trim() === "" ? null : parseFloat(value));
+
+export function RuleFormDialog({
+  open,
+  onOpenChange,
+  initialValues,
+  isEditing,
+  accounts,
+  categories,
+  payees,
+  tags,
+  onSubmit,
+  isSubmitting,
+}: RuleFormDialogProps) {
+  const [matchField, setMatchField] = useState<TransactionRuleField>("description");
+  const [matchOperator, setMatchOperator] = useState<TransactionRuleOperator>("contains");
+  const [matchValue, setMatchValue] = useState("");
+  const [transactionType, setTransactionType] = useState(ANY);
+  const [accountId, setAccountId] = useState(ANY);
+  const [amountMin, setAmountMin] = useState("");
+  const [amountMax, setAmountMax] = useState("");
+  const [categoryId, setCategoryId] = useState(NONE);
+  const [payeeName, setPayeeName] = useState("");
+  const [ruleTags, setRuleTags] = useState<string[]>([]);
+  // The conditions last tested, so the results are hidden as soon as they no longer apply
+  const [testedKey, setTestedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMatchField(initialValues?.match_field || "description");
+    setMatchOperator(initialValues?.match_operator || "contains");
+    setMatchValue(initialValues?.match_value || "");
+    setTransactionType(initialValues?.transaction_type || ANY);
+    setAccountId(initialValues?.account_id || ANY);
+    setAmountMin(initialValues?.amount_min != null ? String(initialValues.amount_min) : "");
+    setAmountMax(initialValues?.amount_max != null ? String(initialValues.amount_max) : "");
+    setCategoryId(initialValues?.set_category_id || NONE);
+    setPayeeName(initialValues?.payee_name || "");
+    setRuleTags(initialValues?.add_tags || []);
+    setTestedKey(null);
+  }, [open, initialValues]);
+
+  const conditions: TransactionRuleConditions = useMemo(
+    () => ({
+      match_field: matchField,
+      match_operator: matchOperator,
+      match_value: matchValue.trim(),
+      transaction_type: transactionType === ANY ? null : (transactionType as "income" | "expense"),
+      account_id: accountId === ANY ? null : accountId,
+      amount_min: parseOptionalAmount(amountMin),
+      amount_max: parseOptionalAmount(amountMax),
+    }),
+    [matchField, matchOperator, matchValue, transactionType, accountId, amountMin, amountMax]
+  );
+  const conditionsKey = JSON.stringify(conditions);
+  const isTested = testedKey === conditionsKey;
+  const preview = useTransactionRulePreview(open && isTested ? conditions : null);
+
+  // A category only applies to transactions of its own type
+  const categoryOptions =
+    transactionType === ANY ? categories : categories.filter((c) => c.type === transactionType);
+  const selectedCategory = categories.find((c) => c.id === categoryId);
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name || "Uncategorized";
+
+  const hasAction = categoryId !== NONE || !!payeeName.trim() || ruleTags.length > 0;
+  const amountsValid =
+    !Number.isNaN(conditions.amount_min) &&
+    !Number.isNaN(conditions.amount_max) &&
+    (conditions.amount_min === null || conditions.amount_max === null || conditions.amount_min <= conditions.amount_max);
+  const isValid = !!conditions.match_value && amountsValid && hasAction;
+
+  const handleTypeChange = (value: string) => {
+    setTransactionType(value);
+    if (value !== ANY && selectedCategory && selectedCategory.type !== value) setCategoryId(NONE);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    try {
+      await onSubmit({
+        ...conditions,
+        set_category_id: categoryId === NONE ? null : categoryId,
+        payee_name: payeeName,
+        add_tags: ruleTags,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Rule" : "Add Rule"}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>When</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={matchField} onValueChange={(v) => setMatchField(v as TransactionRuleField)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_FIELD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={matchOperator} onValueChange={(v) => setMatchOperator(v as TransactionRuleOperator)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_OPERATOR_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input placeholder="e.g. SWIGGY" value={matchValue} onChange={(e) => setMatchValue(e.target.value)} />
+            <p className="text-xs text-muted-foreground">Upper and lower case are treated the same.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Only For</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={transactionType} onValueChange={handleTypeChange}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Income and expenses</SelectItem>
+                  <SelectItem value="expense">Expenses</SelectItem>
+                  <SelectItem value="income">Income</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any account</SelectItem>
+                  {accounts.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="number" step="0.01" placeholder="Min amount" value={amountMin} onChange={(e) => setAmountMin(e.target.value)} />
+              <Input type="number" step="0.01" placeholder="Max amount" value={amountMax} onChange={(e) => setAmountMax(e.target.value)} />
+            </div>
+            {!amountsValid && <p className="text-xs text-destructive">The minimum amount is above the maximum</p>}
+          </div>
+
+          <div className="space-y-3 rounded-lg border p-3">
+            <Label>Then</Label>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Set Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Don't change</SelectItem>
+                  {categoryOptions.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                      {transactionType === ANY && ` (${c.type})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Set Payee</Label>
+              <PayeeInput value={payeeName} onChange={setPayeeName} payees={payees} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Add Tags</Label>
+              <TagInput value={ruleTags} onChange={setRuleTags} suggestions={tags} />
+            </div>
+            {!hasAction && <p className="text-xs text-muted-foreground">Choose at least one change to make.</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => setTestedKey(conditionsKey)}
+              disabled={!conditions.match_value || !amountsValid}
+            >
+              <FlaskConical className="mr-2 h-4 w-4" />
+              Test Against History
+            </Button>
+            {isTested && (
+              <div className="rounded-lg border bg-muted/30 p-3 text-sm">
+                {preview.isLoading ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Checking past transactions...
+                  </div>
+                ) : preview.matchCount === 0 ? (
+                  <p className="text-muted-foreground">No past transactions match.</p>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="font-medium text-foreground">
+                      Matches {preview.matchCount} past transaction{preview.matchCount === 1 ? "" : "s"}
+                      {preview.matchCount > preview.matches.length && `, latest ${preview.matches.length} shown`}
+                    </p>
+                    <div className="max-h-48 space-y-1 overflow-y-auto">
+                      {preview.matches.map((t) => {
+                        const recategorized =
+                          selectedCategory && selectedCategory.type === t.type && selectedCategory.id !== t.category_id;
+                        return (
+                          <div key={t.id} className="flex items-center justify-between gap-2 text-xs">
+                            <div className="min-w-0">
+                              <p className="truncate text-foreground">{t.description || "Untitled"}</p>
+                              <p className="text-muted-foreground">
+                                {format(parseISO(t.transaction_date), "MMM d, yyyy")} · {categoryName(t.category_id)}
+                                {recategorized && ` → ${selectedCategory.name}`}
+                              </p>
+                            </div>
+                            <span className="shrink-0 text-muted-foreground">{formatCurrency(t.amount, t.currency)}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!isValid || isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isEditing ? "Save" : "Add Rule"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
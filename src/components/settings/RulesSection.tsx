@@ -0,0 +1,233 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ChevronDown, ChevronUp, Loader2, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { RuleFormDialog, RULE_FIELD_LABELS, RULE_OPERATOR_LABELS } from "@/components/settings/RuleFormDialog";
+import { useTransactionRules, type TransactionRuleInput } from "@/hooks/useTransactionRules";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { usePayees } from "@/hooks/usePayees";
+import { useTags } from "@/hooks/useTags";
+import type { TransactionRule } from "@/types/database";
+
+export function RulesSection() {
+  const {
+    rules,
+    isLoading,
+    createRule,
+    updateRule,
+    deleteRule,
+    reorderRules,
+    reapplyRules,
+    isCreating,
+    isUpdating,
+    isReordering,
+    isReapplying,
+  } = useTransactionRules();
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+  const { payees } = usePayees();
+  const { tags } = useTags();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<TransactionRule | null>(null);
+
+  const initialValues = useMemo<Partial<TransactionRuleInput> | null>(
+    () =>
+      editingRule && {
+        ...editingRule,
+        payee_name: payees.find((p) => p.id === editingRule.set_payee_id)?.name || "",
+      },
+    [editingRule, payees]
+  );
+
+  const openForm = (rule: TransactionRule | null) => {
+    setEditingRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (input: TransactionRuleInput) => {
+    if (editingRule) {
+      await updateRule({ id: editingRule.id, ...input });
+    } else {
+      await createRule(input);
+    }
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const ids = rules.map((r) => r.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderRules(ids).catch(() => {
+      // Error handled by mutation
+    });
+  };
+
+  const describeConditions = (rule: TransactionRule) => {
+    const parts = [`${RULE_FIELD_LABELS[rule.match_field]} ${RULE_OPERATOR_LABELS[rule.match_operator]} "${rule.match_value}"`];
+    if (rule.transaction_type) parts.push(rule.transaction_type === "expense" ? "expenses only" : "income only");
+    if (rule.account_id) parts.push(`in ${accounts.find((a) => a.id === rule.account_id)?.name || "an account"}`);
+    if (rule.amount_min !== null && rule.amount_max !== null) parts.push(`amount ${rule.amount_min}–${rule.amount_max}`);
+    else if (rule.amount_min !== null) parts.push(`amount at least ${rule.amount_min}`);
+    else if (rule.amount_max !== null) parts.push(`amount up to ${rule.amount_max}`);
+    return parts.join(", ");
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>Loading...</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rules</CardTitle>
+        <CardDescription>
+          Fill in the category, payee and tags of new transactions automatically, whether you add them, import them
+          or they recur. Rules run top to bottom; the first rule that sets a category or payee wins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            No rules yet. For example: description contains "SWIGGY" → Food, payee Swiggy, tag delivery.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => {
+              const category = categories.find((c) => c.id === rule.set_category_id);
+              const payee = payees.find((p) => p.id === rule.set_payee_id);
+              return (
+                <div
+                  key={rule.id}
+                  className={`flex items-center gap-3 rounded-lg border border-border bg-card p-3 ${rule.is_active ? "" : "opacity-60"}`}
+                >
+                  <div className="flex flex-col">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5"
+                      onClick={() => moveRule(index, -1)}
+                      disabled={index === 0 || isReordering}
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-5 w-5"
+                      onClick={() => moveRule(index, 1)}
+                      disabled={index === rules.length - 1 || isReordering}
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="text-sm font-medium">{describeConditions(rule)}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {category && <Badge variant="secondary">{category.name}</Badge>}
+                      {payee && <Badge variant="outline">{payee.name}</Badge>}
+                      {rule.add_tags.map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-muted-foreground">#{tag}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => updateRule({ id: rule.id, is_active: checked }).catch(() => {
+                      // Error handled by mutation
+                    })}
+                    disabled={isUpdating}
+                  />
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openForm(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => deleteRule(rule.id).catch(() => {
+                      // Error handled by mutation
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Button variant="outline" className="flex-1" onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" /> Add Rule
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="flex-1" disabled={rules.length === 0 || isReapplying}>
+                {isReapplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Re-run on Existing Transactions
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Re-run rules?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every transaction matching an active rule gets the rule's category and payee in place of its own,
+                  and the rule's tags are added. Transfers and refunds are left alone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => reapplyRules().catch(() => {
+                    // Error handled by mutation
+                  })}
+                >
+                  Re-run Rules
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+
+      <RuleFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        initialValues={initialValues}
+        isEditing={!!editingRule}
+        accounts={accounts}
+        categories={categories}
+        payees={payees}
+        tags={tags}
+        onSubmit={handleSubmit}
+        isSubmitting={isCreating || isUpdating}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getAttachmentThumbnailUrl } from "@/utils/fileStorage";
+import { isPdfAttachment } from "@/utils/fileFormats";
+import type { TransactionAttachment } from "@/types/database";
+
+interface AttachmentThumbnailProps {
+  attachment: TransactionAttachment;
+  className?: string;
+  // Width and height of the requested preview image
+  size?: number;
+}
+
+// Square preview of an image, or of a PDF's first page with a PDF label
+export function AttachmentThumbnail({ attachment, className, size = 160 }: AttachmentThumbnailProps) {
+  // Falls back to an icon when no preview can be rendered, e.g. PDF delivery is disabled
+  const [failed, setFailed] = useState(false);
+  const pdf = isPdfAttachment(attachment);
+  const src = getAttachmentThumbnailUrl(attachment, size);
+
+  return (
+    <div className={cn("relative h-16 w-16 flex-shrink-0 overflow-hidden rounded border border-border/50 bg-muted", className)}>
+      {failed || !src ? (
+        <div className="flex h-full w-full items-center justify-center">
+          <FileText className="h-6 w-6 text-muted-foreground" />
+        </div>
+      ) : (
+        <img
+          src={src}
+          alt={attachment.file_name || "Attachment"}
+          className="h-full w-full object-cover"
+          loading="lazy"
+          onError={() => setFailed(true)}
+        />
+      )}
+      {pdf && (
+        <span className="absolute bottom-0 left-0 rounded-tr bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground">
+          PDF
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Download, ExternalLink } from "lucide-react";
+import { getAttachmentDownloadUrl } from "@/utils/fileStorage";
+import { isPdfAttachment } from "@/utils/fileFormats";
+import type { TransactionAttachment } from "@/types/database";
+
+interface AttachmentViewerProps {
+  attachment: TransactionAttachment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shows an image or PDF attachment in place, with links to open it in a new tab or download it
+export function AttachmentViewer({ attachment, onOpenChange }: AttachmentViewerProps) {
+  return (
+    <Dialog open={!!attachment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        {attachment && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="truncate pr-6">{attachment.file_name || "Attachment"}</DialogTitle>
+            </DialogHeader>
+            {isPdfAttachment(attachment) ? (
+              <iframe
+                src={attachment.cloudinary_url}
+                title={attachment.file_name || "PDF attachment"}
+                className="h-[70vh] w-full rounded border border-border"
+              />
+            ) : (
+              <img
+                src={attachment.cloudinary_url}
+                alt={attachment.file_name || "Attachment"}
+                className="max-h-[70vh] w-full rounded object-contain"
+              />
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={attachment.cloudinary_url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Open in New Tab
+                </a>
+              </Button>
+              <Button size="sm" asChild>
+                <a href={getAttachmentDownloadUrl(attachment)} download={attachment.file_name || "attachment"}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, ArrowRight, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useProfile, formatCurrency } from "@/hooks/useProfile";
+import type { Account, Category, Transaction } from "@/types/database";
+import type { Goal } from "@/hooks/useGoals";
+import type { BulkTransactionUpdate } from "@/hooks/useTransactions";
+import { balanceEffect } from "@/hooks/useReconciliation";
+
+interface BulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactions: Transaction[];
+  accounts: Account[];
+  categories: Category[];
+  goals: Goal[];
+  onApply: (updates: BulkTransactionUpdate[]) => Promise<void>;
+  isApplying: boolean;
+}
+
+const KEEP = "keep";
+const REMOVE_GOAL = "remove";
+
+// Signed effect on a goal, as in transaction_goal_change
+const goalChange = (type: string, goalAmount: number | null | undefined) =>
+  !goalAmount ? 0 : type === "income" ? goalAmount : -goalAmount;
+
+export function BulkEditDialog({ open, onOpenChange, transactions, accounts, categories, goals, onApply, isApplying }: BulkEditDialogProps) {
+  const { preferredCurrency } = useProfile();
+  const [step, setStep] = useState<"edit" | "review">("edit");
+  const [categoryId, setCategoryId] = useState(KEEP);
+  const [accountId, setAccountId] = useState(KEEP);
+  const [transactionDate, setTransactionDate] = useState("");
+  const [goalChoice, setGoalChoice] = useState(KEEP);
+
+  useEffect(() => {
+    if (open) {
+      setStep("edit");
+      setCategoryId(KEEP);
+      setAccountId(KEEP);
+      setTransactionDate("");
+      setGoalChoice(KEEP);
+    }
+  }, [open]);
+
+  const category = categories.find((c) => c.id === categoryId);
+  const account = accounts.find((a) => a.id === accountId);
+  const goal = goals.find((g) => g.id === goalChoice);
+  const activeGoals = goals.filter((g) => g.status === "active" && !g.is_archived);
+
+  // Per-row changes, exactly as they will be sent
+  const plan = useMemo(() => {
+    // Linked transfers only change as a whole, in their own dialog; reconciled rows are locked
+    const editable = transactions.filter((t) => !t.transfer_group_id && t.status !== "reconciled");
+    const updates: (BulkTransactionUpdate & { transaction: Transaction })[] = [];
+    let categoryMismatches = 0;
+    let splitsCleared = 0;
+    let currencyChanges = 0;
+    let refundsKept = 0;
+
+    editable.forEach((t) => {
+      const changes: BulkTransactionUpdate["changes"] = {};
+
+      if (category) {
+        // Income categories only go on income, expense categories on expenses and refunds
+        if (category.type !== (t.refund_of_id ? "expense" : t.type)) {
+          categoryMismatches += 1;
+        } else if (category.id !== t.category_id || t.transaction_splits?.length) {
+          changes.category_id = category.id;
+          if (t.transaction_splits?.length) {
+            changes.splits = [];
+            splitsCleared += 1;
+          }
+        }
+      }
+
+      if (account && account.id !== t.account_id && t.refund_of_id) {
+        // A refund stays on the account of the expense it pays back
+        refundsKept += 1;
+      } else if (account && account.id !== t.account_id) {
+        changes.account_id = account.id;
+        changes.currency = account.currency;
+        if (account.currency !== t.currency) currencyChanges += 1;
+      }
+
+      if (transactionDate && transactionDate !== t.transaction_date) {
+        changes.transaction_date = transactionDate;
+      }
+
+      if (goalChoice === REMOVE_GOAL && t.goal_id) {
+        changes.goal_id = null;
+        changes.goal_amount = null;
+        changes.goal_allocation_type = null;
+      } else if (goal && goal.id !== t.goal_id) {
+        changes.goal_id = goal.id;
+        changes.goal_amount = t.amount;
+        changes.goal_allocation_type = "all";
+      }
+
+      if (Object.keys(changes).length > 0) {
+        updates.push({ id: t.id, changes, transaction: t });
+      }
+    });
+
+    // Net balance change per account and net amount change per goal
+    const accountDeltas = new Map<string, number>();
+    const goalDeltas = new Map<string, number>();
+    const add = (map: Map<string, number>, id: string, amount: number) => map.set(id, (map.get(id) || 0) + amount);
+
+    updates.forEach(({ transaction: t, changes }) => {
+      if (changes.account_id) {
+        add(accountDeltas, t.account_id, -balanceEffect(t));
+        add(accountDeltas, changes.account_id, balanceEffect(t));
+      }
+      if ("goal_id" in changes) {
+        if (t.goal_id) add(goalDeltas, t.goal_id, -goalChange(t.type, t.goal_amount));
+        if (changes.goal_id) add(goalDeltas, changes.goal_id, goalChange(t.type, changes.goal_amount));
+      }
+    });
+
+    return {
+      updates,
+      skippedTransfers: transactions.filter((t) => t.transfer_group_id).length,
+      skippedLocked: transactions.filter((t) => !t.transfer_group_id && t.status === "reconciled").length,
+      categoryMismatches,
+      splitsCleared,
+      currencyChanges,
+      refundsKept,
+      accountDeltas: Array.from(accountDeltas).filter(([, amount]) => amount !== 0),
+      goalDeltas: Array.from(goalDeltas).filter(([, amount]) => amount !== 0),
+    };
+  }, [transactions, category, account, transactionDate, goalChoice, goal]);
+
+  const count = (field: keyof BulkTransactionUpdate["changes"]) =>
+    plan.updates.filter((u) => field in u.changes).length;
+
+  const handleApply = async () => {
+    try {
+      await onApply(plan.updates.map(({ id, changes }) => ({ id, changes })));
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const hasChoice = categoryId !== KEEP || accountId !== KEEP || !!transactionDate || goalChoice !== KEEP;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {step === "edit" ? "Edit" : "Review"} {transactions.length} Transaction{transactions.length !== 1 ? "s" : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === "edit" ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Only the fields you change are applied.</p>
+
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {categories.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name} ({c.type})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  {accounts.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.name} ({a.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={transactionDate} onChange={(e) => setTransactionDate(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Goal</Label>
+              <Select value={goalChoice} onValueChange={setGoalChoice}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Keep current</SelectItem>
+                  <SelectItem value={REMOVE_GOAL}>Remove from goal</SelectItem>
+                  {activeGoals.map((g) => (
+                    <SelectItem key={g.id} value={g.id}>{g.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {goal && (
+                <p className="text-xs text-muted-foreground">
+                  The full amount of each transaction is linked. Income adds to the goal, expenses deduct from it.
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={() => setStep("review")} disabled={!hasChoice}>
+                Review
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {plan.updates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">None of the selected transactions would change.</p>
+            ) : (
+              <ul className="space-y-1 text-sm text-foreground">
+                <li className="font-medium">{plan.updates.length} transaction{plan.updates.length !== 1 ? "s" : ""} will change</li>
+                {count("category_id") > 0 && <li>• {count("category_id")} recategorized to {category?.name}</li>}
+                {count("account_id") > 0 && <li>• {count("account_id")} moved to {account?.name}</li>}
+                {count("transaction_date") > 0 && (
+                  <li>• {count("transaction_date")} dated {format(parseISO(transactionDate), "MMM d, yyyy")}</li>
+                )}
+                {count("goal_id") > 0 && (
+                  <li>• {count("goal_id")} {goal ? `linked to ${goal.name}` : "removed from their goal"}</li>
+                )}
+              </ul>
+            )}
+
+            {plan.accountDeltas.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium uppercase text-muted-foreground">Account balances</p>
+                {plan.accountDeltas.map(([id, delta]) => {
+                  const a = accounts.find((acc) => acc.id === id);
+                  if (!a) return null;
+                  return (
+                    <div key={id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">{a.name}</span>
+                      <span className="flex items-center gap-1 whitespace-nowrap">
+                        {formatCurrency(a.balance, a.currency)}
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <span className={delta < 0 ? "text-destructive" : "text-accent"}>
+                          {formatCurrency(a.balance + delta, a.currency)}
+                        </span>
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {plan.goalDeltas.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium uppercase text-muted-foreground">Goals</p>
+                {plan.goalDeltas.map(([id, delta]) => {
+                  const g = goals.find((goal) => goal.id === id);
+                  if (!g) return null;
+                  const projected = g.current_amount + delta;
+                  return (
+                    <div key={id} className="space-y-0.5">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="truncate">{g.name}</span>
+                        <span className="flex items-center gap-1 whitespace-nowrap">
+                          {formatCurrency(g.current_amount, preferredCurrency)}
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <span className={delta < 0 ? "text-destructive" : "text-accent"}>
+                            {formatCurrency(Math.max(0, projected), preferredCurrency)}
+                          </span>
+                        </span>
+                      </div>
+                      {projected < 0 && (
+                        <p className="text-xs text-destructive">
+                          Deductions exceed the goal's {formatCurrency(g.current_amount, preferredCurrency)}; it stops at zero.
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {(plan.skippedTransfers > 0 || plan.skippedLocked > 0 || plan.categoryMismatches > 0 || plan.splitsCleared > 0 || plan.currencyChanges > 0 || plan.refundsKept > 0) && (
+              <div className="space-y-1 rounded-md border border-border bg-muted/50 p-3 text-xs text-muted-foreground">
+                {plan.skippedTransfers > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.skippedTransfers} linked transfer{plan.skippedTransfers !== 1 ? "s are" : " is"} skipped; edit transfers individually.</p>
+                )}
+                {plan.skippedLocked > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.skippedLocked} reconciled transaction{plan.skippedLocked !== 1 ? "s are" : " is"} locked and skipped.</p>
+                )}
+                {plan.categoryMismatches > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.categoryMismatches} keep their category because {category?.name} is an {category?.type} category.</p>
+                )}
+                {plan.splitsCleared > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.splitsCleared} split transaction{plan.splitsCleared !== 1 ? "s" : ""} will lose their split lines.</p>
+                )}
+                {plan.currencyChanges > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.currencyChanges} change currency to {account?.currency}; amounts are not converted.</p>
+                )}
+                {plan.refundsKept > 0 && (
+                  <p className="flex gap-1.5"><AlertCircle className="h-3.5 w-3.5 shrink-0" />{plan.refundsKept} refund{plan.refundsKept !== 1 ? "s stay" : " stays"} on the account of the expense {plan.refundsKept !== 1 ? "they pay" : "it pays"} back.</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={() => setStep("edit")}>
+                Back
+              </Button>
+              <Button className="flex-1" onClick={handleApply} disabled={plan.updates.length === 0 || isApplying}>
+                {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Apply to {plan.updates.length}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, Merge } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/hooks/useProfile";
+import { DUPLICATE_SCAN_MONTHS, DuplicateCandidateRow } from "@/hooks/useDuplicateTransactions";
+import type { Account } from "@/types/database";
+
+interface DuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: DuplicateCandidateRow[][];
+  accounts: Account[];
+  onMerge: (keepId: string, duplicateIds: string[]) => Promise<void>;
+  isMerging: boolean;
+  // Group to show first, e.g. the one a flagged row belongs to
+  focusId?: string | null;
+}
+
+// Review likely duplicates group by group and merge each into the row to keep
+export function DuplicatesDialog({ open, onOpenChange, groups, accounts, onMerge, isMerging, focusId }: DuplicatesDialogProps) {
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) setKeepIds({});
+  }, [open]);
+
+  // The oldest row of a group is kept unless another one is picked
+  const groupKey = (group: DuplicateCandidateRow[]) => group[0].id;
+  const keepIdFor = (group: DuplicateCandidateRow[]) => keepIds[groupKey(group)] || group[0].id;
+
+  const orderedGroups = focusId
+    ? [...groups].sort((a, b) => Number(b.some((t) => t.id === focusId)) - Number(a.some((t) => t.id === focusId)))
+    : groups;
+
+  const handleMerge = async (group: DuplicateCandidateRow[]) => {
+    const keepId = keepIdFor(group);
+    setMergingKey(groupKey(group));
+    try {
+      await onMerge(keepId, group.filter((t) => t.id !== keepId).map((t) => t.id));
+    } catch (error) {
+      // Error handled by mutation
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            Same account, similar amount and description, a few days apart. Pick the transaction to keep; its
+            copies move to the trash and their attachments, tags and refunds move to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {orderedGroups.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No duplicates found in the last {DUPLICATE_SCAN_MONTHS} months
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {orderedGroups.map((group) => {
+              const keepId = keepIdFor(group);
+              const accountName = accounts.find((a) => a.id === group[0].account_id)?.name || "Deleted account";
+              return (
+                <div key={groupKey(group)} className="space-y-3 rounded-lg border border-border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-foreground">
+                      {group.length} × {accountName}
+                    </p>
+                    <Button size="sm" onClick={() => handleMerge(group)} disabled={isMerging}>
+                      {mergingKey === groupKey(group) ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Merge className="mr-2 h-4 w-4" />
+                      )}
+                      Merge
+                    </Button>
+                  </div>
+                  <RadioGroup
+                    value={keepId}
+                    onValueChange={(id) => setKeepIds((previous) => ({ ...previous, [groupKey(group)]: id }))}
+                    className="gap-2"
+                  >
+                    {group.map((t) => (
+                      <label key={t.id} className="flex cursor-pointer items-start gap-3 rounded-md p-2 hover:bg-muted/50">
+                        <RadioGroupItem value={t.id} className="mt-0.5" />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm text-foreground">{t.description || "Untitled"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseISO(t.transaction_date), "MMM dd, yyyy")}
+                            {t.notes && ` · ${t.notes}`}
+                          </p>
+                        </div>
+                        <span className={`whitespace-nowrap text-sm font-semibold ${t.type === "income" ? "text-accent" : "text-destructive"}`}>
+                          {t.type === "income" ? "+" : "-"}{formatCurrency(t.amount, t.currency)}
+                        </span>
+                        {t.id === keepId && <span className="text-xs text-muted-foreground">Keep</span>}
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
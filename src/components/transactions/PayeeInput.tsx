@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { Payee } from "@/types/database";
+
+interface PayeeInputProps {
+  value: string;
+  onChange: (name: string) => void;
+  payees: Payee[];
+}
+
+// Payee name with suggestions from existing payees; a name that doesn't exist yet is created on save
+export function PayeeInput({ value, onChange, payees }: PayeeInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = value.trim().toLowerCase();
+  const matches = query
+    ? payees.filter((p) => p.name.toLowerCase().includes(query) && p.name.toLowerCase() !== query).slice(0, 6)
+    : [];
+  const isNew = !!query && !payees.some((p) => p.name.toLowerCase() === query);
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder="e.g., Amazon"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+      />
+      {isFocused && matches.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {matches.map((payee) => (
+            <button
+              key={payee.id}
+              type="button"
+              // Keep focus so the list isn't closed before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onChange(payee.name);
+                setIsFocused(false);
+              }}
+              className="w-full rounded px-3 py-1.5 text-left text-sm hover:bg-muted"
+            >
+              {payee.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {isNew && !isFocused && (
+        <p className="mt-1 text-xs text-muted-foreground">New payee "{value.trim()}" will be created</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Camera, Loader2, X } from "lucide-react";
+import { compressImage } from "@/utils/imageCompression";
+import { buildReceiptPdf } from "@/utils/receiptPdf";
+import { validateAttachmentFile } from "@/utils/fileFormats";
+import type { ImageQuality } from "@/types/database";
+
+interface ReceiptCaptureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quality: ImageQuality;
+  // Receives the finished receipt: a JPEG for one page, a PDF for several
+  onCapture: (file: File) => void;
+}
+
+interface CapturedPage {
+  file: File;
+  previewUrl: string;
+}
+
+// Takes photos of a receipt one page at a time with the device camera and combines them into one file
+export function ReceiptCaptureDialog({ open, onOpenChange, quality, onCapture }: ReceiptCaptureDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [pages, setPages] = useState<CapturedPage[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over whenever the dialog closes
+  useEffect(() => {
+    if (open) return;
+    setPages((prev) => {
+      prev.forEach((page) => URL.revokeObjectURL(page.previewUrl));
+      return [];
+    });
+    setError(null);
+  }, [open]);
+
+  const handlePhoto = async (photo: File | undefined) => {
+    if (!photo) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const file = await compressImage(photo, quality);
+      setPages((prev) => [...prev, { file, previewUrl: URL.createObjectURL(file) }]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read photo");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const removePage = (index: number) => {
+    setPages((prev) => {
+      URL.revokeObjectURL(prev[index].previewUrl);
+      return prev.filter((_, i) => i !== index);
+    });
+  };
+
+  const handleDone = async () => {
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const name = `receipt-${format(new Date(), "yyyyMMdd-HHmmss")}`;
+      const [first] = pages;
+      let receipt: File;
+      if (pages.length > 1) {
+        receipt = await buildReceiptPdf(pages.map((page) => page.file), `${name}.pdf`);
+      } else if (first.file.type === "image/jpeg") {
+        receipt = new File([first.file], `${name}.jpg`, { type: "image/jpeg" });
+      } else {
+        // A photo the browser couldn't convert, e.g. HEIC; the storage provider handles it
+        receipt = first.file;
+      }
+
+      const validation = validateAttachmentFile(receipt);
+      if (!validation.isValid) {
+        setError(validation.error || "Invalid receipt");
+        return;
+      }
+
+      onCapture(receipt);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create receipt");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Scan Receipt</DialogTitle>
+          <DialogDescription>
+            Take a photo of each page. Several pages are saved together as one PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => {
+            handlePhoto(e.target.files?.[0]);
+            // Lets the same camera roll photo be picked again
+            e.target.value = "";
+          }}
+        />
+
+        {pages.length > 0 && (
+          <div className="grid max-h-80 grid-cols-3 gap-2 overflow-y-auto">
+            {pages.map((page, index) => (
+              <div key={page.previewUrl} className="relative overflow-hidden rounded border border-border">
+                <img src={page.previewUrl} alt={`Page ${index + 1}`} className="aspect-[3/4] w-full object-cover" />
+                <span className="absolute bottom-1 left-1 rounded bg-background/80 px-1 text-xs font-medium">
+                  {index + 1}
+                </span>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="secondary"
+                  className="absolute right-1 top-1 h-6 w-6"
+                  onClick={() => removePage(index)}
+                  disabled={isProcessing}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button type="button" variant="outline" onClick={() => inputRef.current?.click()} disabled={isProcessing}>
+          {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+          {pages.length === 0 ? "Take Photo" : "Add Page"}
+        </Button>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleDone} disabled={pages.length === 0 || isProcessing}>
+            Attach Receipt{pages.length > 1 ? ` (${pages.length} pages)` : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
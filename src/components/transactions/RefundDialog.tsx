@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { formatCurrency } from "@/hooks/useProfile";
+import { useRefunds } from "@/hooks/useRefunds";
+import type { Account, Category, Transaction } from "@/types/database";
+
+interface RefundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The expense being refunded
+  transaction: Transaction | null;
+  accounts: Account[];
+  categories: Category[];
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// Records money paid back for an expense on the account it was paid from
+export function RefundDialog({ open, onOpenChange, transaction, accounts, categories }: RefundDialogProps) {
+  const { refunds, refundedAmount, isLoading, createRefund, isCreating } = useRefunds(open ? transaction : null);
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [categoryId, setCategoryId] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const remaining = transaction ? roundCents(Number(transaction.amount) - refundedAmount) : 0;
+  // A split expense is refunded against one of its categories, the first by default
+  const splitCategoryIds = (transaction?.transaction_splits || []).map((s) => s.category_id).filter(Boolean) as string[];
+  const categoryOptions = splitCategoryIds.length > 0
+    ? categories.filter((c) => splitCategoryIds.includes(c.id))
+    : categories.filter((c) => c.type === "expense");
+
+  useEffect(() => {
+    if (open && transaction) {
+      setDate(format(new Date(), "yyyy-MM-dd"));
+      setCategoryId(transaction.category_id || transaction.transaction_splits?.find((s) => s.category_id)?.category_id || "");
+      setNotes("");
+    }
+  }, [open, transaction]);
+
+  // Default to whatever hasn't been refunded yet once earlier refunds are known
+  useEffect(() => {
+    if (open && !isLoading) setAmount(remaining > 0 ? remaining.toString() : "");
+  }, [open, isLoading, remaining]);
+
+  if (!transaction) return null;
+
+  const account = accounts.find((a) => a.id === transaction.account_id);
+  const parsedAmount = parseFloat(amount);
+  const isValid = parsedAmount > 0 && roundCents(parsedAmount) <= remaining && !!date;
+
+  const handleSubmit = async () => {
+    try {
+      await createRefund({
+        amount: roundCents(parsedAmount),
+        transaction_date: date,
+        category_id: categoryId || null,
+        notes: notes.trim() || null,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Refund</DialogTitle>
+          <DialogDescription>
+            {transaction.description || "Untitled"} · {formatCurrency(Number(transaction.amount), transaction.currency)} on{" "}
+            {format(parseISO(transaction.transaction_date), "MMM d, yyyy")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {refunds.length > 0 && (
+            <div className="rounded-lg border bg-muted/30 p-3 text-sm">
+              <p className="font-medium text-foreground">Already refunded {formatCurrency(refundedAmount, transaction.currency)}</p>
+              {refunds.map((r) => (
+                <p key={r.id} className="text-xs text-muted-foreground">
+                  {format(parseISO(r.transaction_date), "MMM d, yyyy")} · {formatCurrency(r.amount, r.currency)}
+                </p>
+              ))}
+            </div>
+          )}
+          {remaining <= 0 && !isLoading ? (
+            <p className="text-sm text-muted-foreground">This expense has been refunded in full.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label>Amount ({transaction.currency})</Label>
+                <Input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                {parsedAmount > remaining && (
+                  <p className="text-xs text-destructive">At most {formatCurrency(remaining, transaction.currency)} can be refunded</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Refunded On</Label>
+                <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+                  <SelectContent>
+                    {categoryOptions.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">The refund comes off this category's spending.</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Notes</Label>
+                <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+              </div>
+              <p className="text-xs text-muted-foreground">Credited to {account?.name || "the original account"}.</p>
+            </>
+          )}
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleSubmit} disabled={!isValid || isCreating || isLoading}>
+              {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Refund
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
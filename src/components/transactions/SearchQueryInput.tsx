@@ -0,0 +1,98 @@
+import { useMemo, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { AlertCircle } from "lucide-react";
+import { getSearchSuggestions, SearchLookups, SearchSuggestion } from "@/utils/searchQuery";
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  lookups: SearchLookups;
+  // Terms of the current query that couldn't be applied
+  errors: string[];
+  className?: string;
+}
+
+// Search box for the transaction query language, completing field names and their values
+export function SearchQueryInput({ value, onChange, lookups, errors, className }: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  const [cursor, setCursor] = useState(value.length);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => (isFocused ? getSearchSuggestions(value, cursor, lookups) : []),
+    [isFocused, value, cursor, lookups]
+  );
+
+  const trackCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    const next = value.slice(0, suggestion.start) + suggestion.replacement + value.slice(suggestion.end);
+    const position = suggestion.start + suggestion.replacement.length;
+    onChange(next);
+    setCursor(position);
+    setHighlighted(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className || ""}`}>
+      <Input
+        ref={inputRef}
+        placeholder='Search, e.g. amount>100 category:food "uber"'
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={trackCursor}
+        onClick={trackCursor}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((suggestion, i) => (
+            <button
+              key={suggestion.label}
+              type="button"
+              // Keep focus so the list isn't closed before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applySuggestion(suggestion)}
+              className={`flex w-full items-center justify-between gap-3 rounded px-3 py-1.5 text-left text-sm ${
+                i === highlighted ? "bg-muted" : "hover:bg-muted"
+              }`}
+            >
+              <span className="truncate">{suggestion.label}</span>
+              {suggestion.hint && <span className="truncate text-xs text-muted-foreground">{suggestion.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      {errors.length > 0 && suggestions.length === 0 && (
+        <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 shrink-0" />
+          {errors.join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
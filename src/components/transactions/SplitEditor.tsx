@@ -0,0 +1,123 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Plus, Trash2 } from "lucide-react";
+import type { Category, TransactionSplit, TransactionSplitInput } from "@/types/database";
+
+export interface SplitLine {
+  category_id: string;
+  amount: string;
+  notes: string;
+}
+
+export const EMPTY_SPLIT_LINE: SplitLine = { category_id: "", amount: "", notes: "" };
+
+export function toSplitLines(splits: TransactionSplit[] | undefined): SplitLine[] {
+  return (splits || []).map((split) => ({
+    category_id: split.category_id || "",
+    amount: split.amount.toString(),
+    notes: split.notes || "",
+  }));
+}
+
+export function toSplitInputs(lines: SplitLine[]): TransactionSplitInput[] {
+  return lines.map((line) => ({
+    category_id: line.category_id || null,
+    amount: parseFloat(line.amount),
+    notes: line.notes || null,
+  }));
+}
+
+// Amount of the transaction not yet assigned to a line, rounded to cents
+export function getSplitRemaining(lines: SplitLine[], total: number) {
+  const assigned = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+  return Math.round((total - assigned) * 100) / 100;
+}
+
+export function isSplitValid(lines: SplitLine[], total: number) {
+  return (
+    lines.length >= 2 &&
+    lines.every((line) => !!line.category_id && parseFloat(line.amount) > 0) &&
+    getSplitRemaining(lines, total) === 0
+  );
+}
+
+interface SplitEditorProps {
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  categories: Category[];
+  total: number;
+  currencySymbol: string;
+  formatAmount: (amount: number) => string;
+}
+
+// One row per category with its own amount and note; the rows must add up to the transaction amount
+export function SplitEditor({ lines, onChange, categories, total, currencySymbol, formatAmount }: SplitEditorProps) {
+  const remaining = getSplitRemaining(lines, total);
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = () => {
+    // Pre-fill the new row with whatever is left to assign
+    onChange([...lines, { ...EMPTY_SPLIT_LINE, amount: remaining > 0 ? remaining.toFixed(2) : "" }]);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      {lines.map((line, index) => (
+        <div key={index} className="space-y-2 border-b pb-3 last:border-b-0 last:pb-0">
+          <div className="flex items-center gap-2">
+            <Select value={line.category_id} onValueChange={(v) => updateLine(index, { category_id: v })}>
+              <SelectTrigger className={!line.category_id ? "border-destructive" : ""}>
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="shrink-0"
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              disabled={lines.length <= 2}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <CurrencyInput
+              currencySymbol={currencySymbol}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              value={line.amount}
+              onChange={(e) => updateLine(index, { amount: e.target.value })}
+            />
+            <Input
+              placeholder="Note (optional)"
+              value={line.notes}
+              onChange={(e) => updateLine(index, { notes: e.target.value })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="mr-1 h-4 w-4" /> Add Split
+        </Button>
+        <span className={`text-sm ${remaining === 0 ? "text-muted-foreground" : "text-destructive"}`}>
+          {remaining === 0 ? "Fully allocated" : `${formatAmount(Math.abs(remaining))} ${remaining > 0 ? "left to assign" : "over"}`}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">Budgets and reports count each line under its own category</p>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import type { Tag } from "@/types/database";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: Tag[];
+}
+
+// Free-form tag entry: Enter or comma adds the typed tag, existing tags are offered as you type
+export function TagInput({ value, onChange, suggestions }: TagInputProps) {
+  const [input, setInput] = useState("");
+
+  const hasTag = (name: string) => value.some((tag) => tag.toLowerCase() === name.toLowerCase());
+
+  const addTag = (name: string) => {
+    const trimmed = name.trim();
+    if (trimmed && !hasTag(trimmed)) {
+      onChange([...value, trimmed]);
+    }
+    setInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const matches = input.trim()
+    ? suggestions
+        .filter((tag) => tag.name.toLowerCase().includes(input.trim().toLowerCase()) && !hasTag(tag.name))
+        .slice(0, 5)
+    : [];
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button type="button" onClick={() => onChange(value.filter((t) => t !== tag))}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder="e.g., vacation-2026, reimbursable"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => addTag(input)}
+      />
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              // Keep focus in the input so its blur doesn't add the partial text first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+              className="rounded border px-2 py-0.5 text-xs text-muted-foreground hover:bg-muted"
+            >
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
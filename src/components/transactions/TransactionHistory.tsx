@@ -0,0 +1,129 @@
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useTransactionLogs } from "@/hooks/useTransactionLogs";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { useGoals } from "@/hooks/useGoals";
+import { usePayees } from "@/hooks/usePayees";
+import { formatCurrency } from "@/hooks/useProfile";
+import type { TransactionLog, TransactionLogAction } from "@/types/database";
+
+interface TransactionHistoryProps {
+  transactionId: string;
+  // Used for amounts when the log entry doesn't record the currency
+  currency: string;
+}
+
+const ACTION_LABELS: Record<TransactionLogAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Moved to trash",
+  restore: "Restored from trash",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  type: "Type",
+  amount: "Amount",
+  currency: "Currency",
+  account_id: "Account",
+  category_id: "Category",
+  payee_id: "Payee",
+  description: "Title",
+  notes: "Notes",
+  transaction_date: "Date",
+  frequency: "Repeats",
+  recurrence_end_date: "Repeats until",
+  recurrence_status: "Recurrence",
+  goal_id: "Goal",
+  goal_amount: "Goal amount",
+  goal_allocation_type: "Goal allocation",
+  exchange_rate: "Exchange rate",
+  transfer_group_id: "Linked transfer",
+  status: "Status",
+  refund_of_id: "Refund of",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  income: "Income",
+  expense: "Expense",
+  "transfer-sender": "Transfer (sent)",
+  "transfer-receiver": "Transfer (received)",
+};
+
+// Field-by-field history of a transaction, newest first
+export function TransactionHistory({ transactionId, currency }: TransactionHistoryProps) {
+  const { logs, isLoading } = useTransactionLogs(transactionId);
+  const { accounts } = useAccounts();
+  const { categories } = useCategories();
+  const { goals } = useGoals();
+  const { payees } = usePayees();
+
+  const formatValue = (field: string, value: unknown, log: TransactionLog) => {
+    if (value === null || value === undefined || value === "") return "—";
+    const text = String(value);
+    switch (field) {
+      case "amount":
+      case "goal_amount":
+        return formatCurrency(Number(value), String(log.details.currency?.new ?? currency));
+      case "account_id":
+        return accounts.find((a) => a.id === text)?.name || "Deleted account";
+      case "category_id":
+        return categories.find((c) => c.id === text)?.name || "Deleted category";
+      case "goal_id":
+        return goals.find((g) => g.id === text)?.name || "Deleted goal";
+      case "payee_id":
+        return payees.find((p) => p.id === text)?.name || "Deleted payee";
+      case "transaction_date":
+      case "recurrence_end_date":
+        return format(parseISO(text), "MMM d, yyyy");
+      case "type":
+        return TYPE_LABELS[text] || text;
+      case "transfer_group_id":
+      case "refund_of_id":
+        return "Yes";
+      default:
+        return text;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (logs.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">No history recorded</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {logs.map((log) => {
+        // A delete or restore carries the whole row; only edits and the initial values are worth listing
+        const fields = log.action === "update" || log.action === "create" ? Object.keys(log.details) : [];
+        return (
+          <div key={log.id} className="space-y-1.5 border-l-2 border-border pl-3">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium text-foreground">{ACTION_LABELS[log.action] || log.action}</span>
+              <span className="text-xs text-muted-foreground">{format(parseISO(log.created_at), "MMM d, yyyy h:mm a")}</span>
+            </div>
+            {fields.map((field) => (
+              <div key={field} className="text-xs">
+                <span className="text-muted-foreground">{FIELD_LABELS[field] || field.replace(/_/g, " ")}: </span>
+                {log.action === "update" && (
+                  <>
+                    <span className="text-destructive line-through">{formatValue(field, log.details[field].old, log)}</span>
+                    <span className="text-muted-foreground"> → </span>
+                  </>
+                )}
+                <span className="text-foreground">{formatValue(field, log.details[field].new, log)}</span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { getCurrencySymbol } from "@/hooks/useProfile";
+import type { TransferInput } from "@/hooks/useTransactions";
+
+export interface TransferAmounts {
+  amount: string;
+  receivedAmount: string;
+  exchangeRate: string;
+  fee: string;
+}
+
+export const EMPTY_TRANSFER_AMOUNTS: TransferAmounts = { amount: "", receivedAmount: "", exchangeRate: "", fee: "" };
+
+// Convert the form values into the amount fields of a TransferInput
+export function toTransferAmounts(
+  amounts: TransferAmounts,
+  isCrossCurrency: boolean
+): Pick<TransferInput, "amount" | "received_amount" | "fee"> {
+  const amount = parseFloat(amounts.amount);
+  return {
+    amount,
+    received_amount: isCrossCurrency ? parseFloat(amounts.receivedAmount) : amount,
+    fee: parseFloat(amounts.fee) || 0,
+  };
+}
+
+export function isTransferAmountsValid(amounts: TransferAmounts, isCrossCurrency: boolean) {
+  if (!(parseFloat(amounts.amount) > 0)) return false;
+  if (isCrossCurrency && !(parseFloat(amounts.receivedAmount) > 0)) return false;
+  return !amounts.fee || parseFloat(amounts.fee) >= 0;
+}
+
+interface TransferAmountFieldsProps {
+  fromCurrency?: string;
+  toCurrency?: string;
+  value: TransferAmounts;
+  onChange: (value: TransferAmounts) => void;
+}
+
+// Sent amount, received amount / rate (only when currencies differ) and optional fee
+export function TransferAmountFields({ fromCurrency = "USD", toCurrency = "USD", value, onChange }: TransferAmountFieldsProps) {
+  const isCrossCurrency = fromCurrency !== toCurrency;
+
+  const handleAmountChange = (amount: string) => {
+    const rate = parseFloat(value.exchangeRate);
+    const sent = parseFloat(amount);
+    // Keep the rate fixed and recompute what arrives
+    const receivedAmount = rate > 0 && sent > 0 ? (sent * rate).toFixed(2) : value.receivedAmount;
+    onChange({ ...value, amount, receivedAmount });
+  };
+
+  const handleReceivedChange = (receivedAmount: string) => {
+    const sent = parseFloat(value.amount);
+    const received = parseFloat(receivedAmount);
+    const exchangeRate = sent > 0 && received > 0 ? String(+(received / sent).toFixed(6)) : value.exchangeRate;
+    onChange({ ...value, receivedAmount, exchangeRate });
+  };
+
+  const handleRateChange = (exchangeRate: string) => {
+    const sent = parseFloat(value.amount);
+    const rate = parseFloat(exchangeRate);
+    const receivedAmount = sent > 0 && rate > 0 ? (sent * rate).toFixed(2) : value.receivedAmount;
+    onChange({ ...value, exchangeRate, receivedAmount });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{isCrossCurrency ? `Amount Sent (${fromCurrency})` : "Amount"}</Label>
+        <CurrencyInput
+          currencySymbol={getCurrencySymbol(fromCurrency)}
+          placeholder="0.00"
+          step="0.01"
+          min="0"
+          value={value.amount}
+          onChange={(e) => handleAmountChange(e.target.value)}
+        />
+      </div>
+
+      {isCrossCurrency && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Amount Received ({toCurrency})</Label>
+            <CurrencyInput
+              currencySymbol={getCurrencySymbol(toCurrency)}
+              placeholder="0.00"
+              step="0.01"
+              min="0"
+              value={value.receivedAmount}
+              onChange={(e) => handleReceivedChange(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Rate (1 {fromCurrency} = ? {toCurrency})</Label>
+            <Input
+              type="number"
+              placeholder="0.00"
+              step="any"
+              min="0"
+              value={value.exchangeRate}
+              onChange={(e) => handleRateChange(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Fee (optional)</Label>
+        <CurrencyInput
+          currencySymbol={getCurrencySymbol(fromCurrency)}
+          placeholder="0.00"
+          step="0.01"
+          min="0"
+          value={value.fee}
+          onChange={(e) => onChange({ ...value, fee: e.target.value })}
+        />
+        <p className="text-xs text-muted-foreground">Charged to the source account and recorded as an expense</p>
+      </div>
+    </div>
+  );
+}
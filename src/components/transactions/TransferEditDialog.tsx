@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Loader2 } from "lucide-react";
+import type { Account, Transaction } from "@/types/database";
+import type { TransferInput } from "@/hooks/useTransactions";
+import {
+  TransferAmountFields,
+  TransferAmounts,
+  EMPTY_TRANSFER_AMOUNTS,
+  toTransferAmounts,
+  isTransferAmountsValid,
+} from "./TransferAmountFields";
+
+interface TransferEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sender: Transaction | null;
+  receiver: Transaction | null;
+  fee: Transaction | null;
+  accounts: Account[];
+  onSave: (changes: TransferInput) => Promise<void>;
+  isSaving: boolean;
+}
+
+export function TransferEditDialog({ open, onOpenChange, sender, receiver, fee, accounts, onSave, isSaving }: TransferEditDialogProps) {
+  const [formData, setFormData] = useState({
+    fromAccountId: "",
+    toAccountId: "",
+    transactionDate: "",
+    notes: "",
+  });
+  const [amounts, setAmounts] = useState<TransferAmounts>(EMPTY_TRANSFER_AMOUNTS);
+
+  const fromAccount = accounts.find((a) => a.id === formData.fromAccountId);
+  const toAccount = accounts.find((a) => a.id === formData.toAccountId);
+  const isCrossCurrency = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  useEffect(() => {
+    if (open && sender) {
+      setFormData({
+        fromAccountId: sender.account_id,
+        toAccountId: receiver?.account_id || "",
+        transactionDate: sender.transaction_date,
+        notes: sender.notes || "",
+      });
+      setAmounts({
+        amount: sender.amount.toString(),
+        receivedAmount: receiver?.amount.toString() || "",
+        exchangeRate: receiver?.exchange_rate?.toString() || "",
+        fee: fee?.amount.toString() || "",
+      });
+    }
+  }, [open, sender, receiver, fee]);
+
+  const handleSave = async () => {
+    try {
+      await onSave({
+        from_account_id: formData.fromAccountId,
+        to_account_id: formData.toAccountId,
+        ...toTransferAmounts(amounts, isCrossCurrency),
+        transaction_date: formData.transactionDate,
+        notes: formData.notes || null,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const isValid =
+    !!formData.fromAccountId &&
+    !!formData.toAccountId &&
+    formData.fromAccountId !== formData.toAccountId &&
+    isTransferAmountsValid(amounts, isCrossCurrency) &&
+    !!formData.transactionDate;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Transfer</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>From Account</Label>
+            <Select value={formData.fromAccountId} onValueChange={(v) => setFormData({ ...formData, fromAccountId: v })}>
+              <SelectTrigger><SelectValue placeholder="Select source account" /></SelectTrigger>
+              <SelectContent>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-center">
+            <ArrowRight className="h-5 w-5 text-muted-foreground" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>To Account</Label>
+            <Select value={formData.toAccountId} onValueChange={(v) => setFormData({ ...formData, toAccountId: v })}>
+              <SelectTrigger><SelectValue placeholder="Select destination account" /></SelectTrigger>
+              <SelectContent>
+                {accounts
+                  .filter((a) => a.id !== formData.fromAccountId)
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <TransferAmountFields
+            fromCurrency={fromAccount?.currency}
+            toCurrency={toAccount?.currency ?? fromAccount?.currency}
+            value={amounts}
+            onChange={setAmounts}
+          />
+
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <Input
+              type="date"
+              value={formData.transactionDate}
+              onChange={(e) => setFormData({ ...formData, transactionDate: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Input
+              placeholder="Optional notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button className="flex-1" onClick={handleSave} disabled={!isValid || isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { startOfMonth, endOfMonth, subMonths, format } from "date-fns";
+import { isReportedIncome, getSpendingLines, spendingSign, SPENDING_FILTER } from "@/utils/refunds";
 
 export function useAnalytics() {
   const { user } = useAuth();
@@ -17,14 +18,15 @@ export function useAnalytics() {
         
         const { data, error } = await supabase
           .from("transactions")
-          .select("type, amount")
+          .select("type, amount, refund_of_id")
           .gte("transaction_date", start)
           .lte("transaction_date", end);
         
         if (error) throw error;
         
-        const income = data.filter(t => t.type === "income").reduce((sum, t) => sum + Number(t.amount), 0);
-        const expenses = data.filter(t => t.type === "expense").reduce((sum, t) => sum + Number(t.amount), 0);
+        // Refunds come off expenses rather than counting as income
+        const income = data.filter(isReportedIncome).reduce((sum, t) => sum + Number(t.amount), 0);
+        const expenses = data.reduce((sum, t) => sum + Number(t.amount) * spendingSign(t), 0);
         
         months.push({
           month: format(date, "MMM"),
@@ -46,8 +48,8 @@ export function useAnalytics() {
       
       const { data: transactions, error: txError } = await supabase
         .from("transactions")
-        .select("category_id, amount, type")
-        .eq("type", "expense")
+        .select("category_id, amount, type, refund_of_id, transaction_splits(category_id, amount)")
+        .or(SPENDING_FILTER)
         .gte("transaction_date", start)
         .lte("transaction_date", end);
       
@@ -62,18 +64,65 @@ export function useAnalytics() {
       const categoryMap = new Map(categories.map(c => [c.id, c]));
       const breakdown: Record<string, { name: string; amount: number; color: string }> = {};
       
-      transactions.forEach(tx => {
-        const cat = tx.category_id ? categoryMap.get(tx.category_id) : null;
+      // Split transactions contribute each line to its own category; refunds take theirs back
+      transactions.flatMap(getSpendingLines).forEach(line => {
+        const cat = line.category_id ? categoryMap.get(line.category_id) : null;
         const name = cat?.name || "Uncategorized";
         const color = cat?.color || "#94a3b8";
         
         if (!breakdown[name]) {
           breakdown[name] = { name, amount: 0, color };
         }
-        breakdown[name].amount += Number(tx.amount);
+        breakdown[name].amount += line.amount;
+      });
+      
+      // A category refunded more than was spent this month has nothing to show
+      return Object.values(breakdown).filter(c => c.amount > 0).sort((a, b) => b.amount - a.amount);
+    },
+    enabled: !!user,
+  });
+
+  const tagBreakdownQuery = useQuery({
+    queryKey: ["analytics-tags", user?.id],
+    queryFn: async () => {
+      const start = format(startOfMonth(new Date()), "yyyy-MM-dd");
+      const end = format(endOfMonth(new Date()), "yyyy-MM-dd");
+      
+      const [{ data: transactions, error: txError }, { data: tags, error: tagError }] = await Promise.all([
+        supabase
+          .from("transactions")
+          .select("amount, type, refund_of_id, transaction_tags(tag_id)")
+          .in("type", ["income", "expense"])
+          .gte("transaction_date", start)
+          .lte("transaction_date", end),
+        supabase.from("tags").select("id, name"),
+      ]);
+      
+      if (txError) throw txError;
+      if (tagError) throw tagError;
+      
+      const tagMap = new Map(tags.map(t => [t.id, t.name]));
+      const totals: Record<string, { name: string; income: number; expenses: number; count: number }> = {};
+      
+      // A transaction with several tags counts in full towards each of them
+      transactions.forEach(tx => {
+        tx.transaction_tags.forEach(({ tag_id }) => {
+          const name = tagMap.get(tag_id);
+          if (!name) return;
+          
+          if (!totals[tag_id]) {
+            totals[tag_id] = { name, income: 0, expenses: 0, count: 0 };
+          }
+          if (isReportedIncome(tx)) {
+            totals[tag_id].income += Number(tx.amount);
+          } else {
+            totals[tag_id].expenses += Number(tx.amount) * spendingSign(tx);
+          }
+          totals[tag_id].count += 1;
+        });
       });
       
-      return Object.values(breakdown).sort((a, b) => b.amount - a.amount);
+      return Object.values(totals).sort((a, b) => b.expenses + b.income - (a.expenses + a.income));
     },
     enabled: !!user,
   });
@@ -89,12 +138,12 @@ export function useAnalytics() {
       const [thisMonth, lastMonth] = await Promise.all([
         supabase
           .from("transactions")
-          .select("type, amount")
+          .select("type, amount, refund_of_id")
           .gte("transaction_date", thisMonthStart)
           .lte("transaction_date", thisMonthEnd),
         supabase
           .from("transactions")
-          .select("type, amount")
+          .select("type, amount, refund_of_id")
           .gte("transaction_date", lastMonthStart)
           .lte("transaction_date", lastMonthEnd),
       ]);
@@ -102,10 +151,10 @@ export function useAnalytics() {
       if (thisMonth.error) throw thisMonth.error;
       if (lastMonth.error) throw lastMonth.error;
       
-      const thisMonthIncome = thisMonth.data.filter(t => t.type === "income").reduce((sum, t) => sum + Number(t.amount), 0);
-      const thisMonthExpenses = thisMonth.data.filter(t => t.type === "expense").reduce((sum, t) => sum + Number(t.amount), 0);
-      const lastMonthIncome = lastMonth.data.filter(t => t.type === "income").reduce((sum, t) => sum + Number(t.amount), 0);
-      const lastMonthExpenses = lastMonth.data.filter(t => t.type === "expense").reduce((sum, t) => sum + Number(t.amount), 0);
+      const thisMonthIncome = thisMonth.data.filter(isReportedIncome).reduce((sum, t) => sum + Number(t.amount), 0);
+      const thisMonthExpenses = thisMonth.data.reduce((sum, t) => sum + Number(t.amount) * spendingSign(t), 0);
+      const lastMonthIncome = lastMonth.data.filter(isReportedIncome).reduce((sum, t) => sum + Number(t.amount), 0);
+      const lastMonthExpenses = lastMonth.data.reduce((sum, t) => sum + Number(t.amount) * spendingSign(t), 0);
       
       const incomeChange = lastMonthIncome ? ((thisMonthIncome - lastMonthIncome) / lastMonthIncome) * 100 : 0;
       const expenseChange = lastMonthExpenses ? ((thisMonthExpenses - lastMonthExpenses) / lastMonthExpenses) * 100 : 0;
@@ -124,7 +173,8 @@ export function useAnalytics() {
   return {
     monthlyData: monthlyDataQuery.data || [],
     categoryBreakdown: categoryBreakdownQuery.data || [],
+    tagBreakdown: tagBreakdownQuery.data || [],
     summary: summaryQuery.data,
-    isLoading: monthlyDataQuery.isLoading || categoryBreakdownQuery.isLoading || summaryQuery.isLoading,
+    isLoading: monthlyDataQuery.isLoading || categoryBreakdownQuery.isLoading || tagBreakdownQuery.isLoading || summaryQuery.isLoading,
   };
 }
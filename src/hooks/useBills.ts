@@ -0,0 +1,192 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { resolvePayeeId } from "@/hooks/usePayees";
+import { Bill, BillFrequency, BillPayment } from "@/types/database";
+import { BillCandidateTransaction, detectBillCandidates } from "@/utils/billDetection";
+
+// How far back past expenses are scanned for subscriptions; long enough to see a yearly one twice
+export const BILL_SCAN_MONTHS = 15;
+
+export interface BillInput {
+  name: string;
+  // Resolved to a payee, created if it doesn't exist yet
+  payee_name: string;
+  amount: number;
+  frequency: BillFrequency;
+  first_due_date: string;
+  account_id: string | null;
+  category_id: string | null;
+  notes: string | null;
+}
+
+export function useBills() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const billsQuery = useQuery({
+    queryKey: ["bills", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bills")
+        .select("*")
+        .order("next_due_date", { ascending: true });
+      if (error) throw error;
+      return (data || []).map((b) => ({ ...b, amount: Number(b.amount) })) as Bill[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const paymentsQuery = useQuery({
+    queryKey: ["bill-payments", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bill_payments")
+        .select("*")
+        .order("due_date", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []).map((p) => ({ ...p, amount: p.amount === null ? null : Number(p.amount) })) as BillPayment[];
+    },
+    enabled: !!user?.id,
+  });
+
+  // Past one-off expenses in the light shape the subscription detector needs. Keyed under
+  // "transactions" so every transaction change refreshes it. Recurring series are left out:
+  // they already record themselves.
+  const expensesQuery = useQuery({
+    queryKey: ["transactions", "bill-candidates", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, payee_id, description, amount, currency, account_id, category_id, transaction_date")
+        .eq("type", "expense")
+        .eq("frequency", "none")
+        .is("recurrence_parent_id", null)
+        .gte("transaction_date", format(subMonths(new Date(), BILL_SCAN_MONTHS), "yyyy-MM-dd"))
+        .order("transaction_date", { ascending: true });
+      if (error) throw error;
+      return (data || []).map((t) => ({ ...t, amount: Number(t.amount) })) as BillCandidateTransaction[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const bills = billsQuery.data || [];
+  const candidates = useMemo(
+    () => detectBillCandidates(expensesQuery.data || [], billsQuery.data || [], format(new Date(), "yyyy-MM-dd")),
+    [expensesQuery.data, billsQuery.data]
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async ({ payee_name, ...bill }: BillInput) => {
+      const payeeId = await resolvePayeeId(payee_name);
+      const { data, error } = await supabase
+        .from("bills")
+        .insert({ ...bill, payee_id: payeeId, next_due_date: bill.first_due_date, user_id: user!.id })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bills"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      toast({ title: "Bill added" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add bill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, payee_name, ...bill }: Partial<BillInput> & { id: string; next_due_date?: string; is_active?: boolean }) => {
+      const updates: Record<string, unknown> = { ...bill };
+      if (payee_name !== undefined) updates.payee_id = await resolvePayeeId(payee_name);
+      const { error } = await supabase.from("bills").update(updates).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bills"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      toast({ title: "Bill updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update bill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Transactions already recorded for the bill are kept
+      const { error } = await supabase.from("bills").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bills"] });
+      queryClient.invalidateQueries({ queryKey: ["bill-payments"] });
+      toast({ title: "Bill deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete bill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async ({ id, amount, date }: { id: string; amount: number; date: string }) => {
+      // Records the expense and moves the bill to its next due date in one call
+      const { data, error } = await supabase.rpc("pay_bill", { p_bill_id: id, p_amount: amount, p_date: date });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bills"] });
+      queryClient.invalidateQueries({ queryKey: ["bill-payments"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      toast({ title: "Bill paid", description: "The payment was added to your transactions" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to pay bill", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("skip_bill", { p_bill_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["bills"] });
+      queryClient.invalidateQueries({ queryKey: ["bill-payments"] });
+      toast({ title: "Payment skipped" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to skip payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    bills,
+    payments: paymentsQuery.data || [],
+    candidates,
+    isLoading: billsQuery.isLoading || paymentsQuery.isLoading,
+    isDetecting: expensesQuery.isLoading,
+    createBill: createMutation.mutateAsync,
+    updateBill: updateMutation.mutateAsync,
+    deleteBill: deleteMutation.mutateAsync,
+    payBill: payMutation.mutateAsync,
+    skipBill: skipMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+    isPaying: payMutation.isPending,
+    isSkipping: skipMutation.isPending,
+  };
+}
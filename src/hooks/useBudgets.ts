@@ -4,6 +4,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, startOfYear, endOfYear, format } from "date-fns";
 import type { Json } from "@/integrations/supabase/types";
+import { getCategoryAmount } from "@/utils/transactionSplits";
+import { getCategorySpending, spendingSign, SPENDING_FILTER } from "@/utils/refunds";
 
 export type BudgetPeriod = "weekly" | "monthly" | "yearly" | "custom";
 
@@ -151,8 +153,8 @@ export function useBudgets() {
       
       const { data, error } = await supabase
         .from("transactions")
-        .select("category_id, amount, transaction_date")
-        .eq("type", "expense")
+        .select("category_id, amount, type, refund_of_id, transaction_date, transaction_splits(category_id, amount)")
+        .or(SPENDING_FILTER)
         .gte("transaction_date", minStart)
         .lte("transaction_date", maxEnd);
       
@@ -165,20 +167,19 @@ export function useBudgets() {
         const budgetEnd = budget.end_date || format(new Date(), "yyyy-MM-dd");
         
         if (budget.is_overall) {
-          // Overall budget: sum all expenses in date range
+          // Overall budget: sum all expenses in date range, less refunds
           const relevantTxs = data.filter(tx => 
             tx.transaction_date >= budgetStart &&
             tx.transaction_date <= budgetEnd
           );
-          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount), 0);
+          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount) * spendingSign(tx), 0);
         } else {
-          // Category budget: sum expenses for specific category
+          // Category budget: sum expenses (or split lines) for specific category, less its refunds
           const relevantTxs = data.filter(tx => 
-            tx.category_id === budget.category_id &&
             tx.transaction_date >= budgetStart &&
             tx.transaction_date <= budgetEnd
           );
-          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount), 0);
+          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + getCategorySpending(tx, budget.category_id), 0);
         }
       });
       
@@ -202,8 +203,8 @@ export function useBudgets() {
       
       const { data, error } = await supabase
         .from("transactions")
-        .select("category_id, amount, transaction_date")
-        .eq("type", "expense")
+        .select("category_id, amount, type, refund_of_id, transaction_date, transaction_splits(category_id, amount)")
+        .or(SPENDING_FILTER)
         .gte("transaction_date", minStart)
         .lte("transaction_date", maxEnd);
       
@@ -220,14 +221,13 @@ export function useBudgets() {
             tx.transaction_date >= budgetStart &&
             tx.transaction_date <= budgetEnd
           );
-          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount), 0);
+          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount) * spendingSign(tx), 0);
         } else {
           const relevantTxs = data.filter(tx => 
-            tx.category_id === budget.category_id &&
             tx.transaction_date >= budgetStart &&
             tx.transaction_date <= budgetEnd
           );
-          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + Number(tx.amount), 0);
+          spendingByBudget[budget.id] = relevantTxs.reduce((sum, tx) => sum + getCategorySpending(tx, budget.category_id), 0);
         }
       });
       
@@ -387,15 +387,17 @@ export function useBudgets() {
   const fetchBudgetTransactions = async (budget: Budget) => {
     const { data, error } = await supabase
       .from("transactions")
-      .select("id, description, amount, transaction_date, type, currency, category_id")
+      .select("id, description, amount, transaction_date, type, currency, category_id, transaction_splits(category_id, amount)")
       .gte("transaction_date", budget.start_date)
       .lte("transaction_date", budget.end_date || format(new Date(), "yyyy-MM-dd"))
       .order("transaction_date", { ascending: false });
     if (error) throw error;
     
-    // Filter by category for non-overall budgets
+    // Filter by category for non-overall budgets, counting only the matching split lines
     if (!budget.is_overall && budget.category_id) {
-      return data.filter(t => t.category_id === budget.category_id);
+      return data
+        .map(t => ({ ...t, amount: getCategoryAmount(t, budget.category_id) }))
+        .filter(t => t.amount > 0);
     }
     return data;
   };
@@ -3,6 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { Account, Transaction } from "@/types/database";
 import { convertCurrency } from "@/hooks/useProfile";
+import { isReportedIncome, spendingSign } from "@/utils/refunds";
 
 export function useDashboardData(preferredCurrency: string = "USD") {
   const { user } = useAuth();
@@ -45,19 +46,19 @@ export function useDashboardData(preferredCurrency: string = "USD") {
 
       const { data, error } = await supabase
         .from("transactions")
-        .select("type, amount, currency")
+        .select("type, amount, currency, refund_of_id")
         .gte("transaction_date", startOfMonth)
         .lte("transaction_date", endOfMonth);
 
       if (error) throw error;
 
+      // Refunds come off expenses rather than counting as income
       const income = (data || [])
-        .filter((t) => t.type === "income")
+        .filter(isReportedIncome)
         .reduce((sum, t) => sum + convertCurrency(Number(t.amount), t.currency, preferredCurrency), 0);
       
       const expenses = (data || [])
-        .filter((t) => t.type === "expense")
-        .reduce((sum, t) => sum + convertCurrency(Number(t.amount), t.currency, preferredCurrency), 0);
+        .reduce((sum, t) => sum + convertCurrency(Number(t.amount) * spendingSign(t), t.currency, preferredCurrency), 0);
 
       return { income, expenses };
     },
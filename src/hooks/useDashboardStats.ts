@@ -3,6 +3,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { Transaction } from "@/types/database";
 import { convertCurrency } from "@/hooks/useProfile";
+import { getCategoryLines } from "@/utils/transactionSplits";
+import { isReportedIncome, getSpendingLines, spendingSign } from "@/utils/refunds";
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, subDays } from "date-fns";
 
 export type DateFilterType = "this-week" | "last-7-days" | "this-month" | "last-30-days" | "this-year" | "last-365-days" | "custom-month" | "custom-year" | "custom-date";
@@ -114,7 +116,7 @@ export function useDashboardStats(
 
         const { data: transactions, error } = await supabase
           .from("transactions")
-          .select("*")
+          .select("*, transaction_splits(*)")
           .gte("transaction_date", startStr)
           .lte("transaction_date", endStr);
 
@@ -124,37 +126,44 @@ export function useDashboardStats(
 
       const txns = transactions as Transaction[];
 
-      // Calculate totals
+      // Calculate totals; refunds come off expenses rather than counting as income
       const income = txns
-        .filter((t) => t.type === "income")
+        .filter(isReportedIncome)
         .reduce((sum, t) => sum + convertCurrency(Number(t.amount), t.currency, preferredCurrency), 0);
 
       const expenses = txns
-        .filter((t) => t.type === "expense")
-        .reduce((sum, t) => sum + convertCurrency(Number(t.amount), t.currency, preferredCurrency), 0);
+        .reduce((sum, t) => sum + convertCurrency(Number(t.amount) * spendingSign(t), t.currency, preferredCurrency), 0);
 
-      // Income by category
+      // Income by category (split transactions count each line under its own category)
       const incomeByCategory: Record<string, number> = {};
       txns
-        .filter((t) => t.type === "income" && t.category_id)
+        .filter(isReportedIncome)
         .forEach((t) => {
-          const categoryId = t.category_id!;
-          incomeByCategory[categoryId] = (incomeByCategory[categoryId] || 0) + convertCurrency(Number(t.amount), t.currency, preferredCurrency);
+          getCategoryLines(t)
+            .filter((line) => line.category_id)
+            .forEach((line) => {
+              const categoryId = line.category_id!;
+              incomeByCategory[categoryId] = (incomeByCategory[categoryId] || 0) + convertCurrency(line.amount, t.currency, preferredCurrency);
+            });
         });
 
-      // Expenses by category
+      // Expenses by category (split transactions count each line under its own category, refunds take theirs back)
       const expensesByCategory: Record<string, number> = {};
       txns
-        .filter((t) => t.type === "expense" && t.category_id)
+        .filter((t) => spendingSign(t) !== 0)
         .forEach((t) => {
-          const categoryId = t.category_id!;
-          expensesByCategory[categoryId] = (expensesByCategory[categoryId] || 0) + convertCurrency(Number(t.amount), t.currency, preferredCurrency);
+          getSpendingLines(t)
+            .filter((line) => line.category_id)
+            .forEach((line) => {
+              const categoryId = line.category_id!;
+              expensesByCategory[categoryId] = (expensesByCategory[categoryId] || 0) + convertCurrency(line.amount, t.currency, preferredCurrency);
+            });
         });
 
       // Income by account
       const incomeByAccount: Record<string, number> = {};
       txns
-        .filter((t) => t.type === "income")
+        .filter(isReportedIncome)
         .forEach((t) => {
           const accountId = t.account_id!;
           incomeByAccount[accountId] = (incomeByAccount[accountId] || 0) + convertCurrency(Number(t.amount), t.currency, preferredCurrency);
@@ -163,10 +172,10 @@ export function useDashboardStats(
       // Expenses by account
       const expensesByAccount: Record<string, number> = {};
       txns
-        .filter((t) => t.type === "expense")
+        .filter((t) => spendingSign(t) !== 0)
         .forEach((t) => {
           const accountId = t.account_id!;
-          expensesByAccount[accountId] = (expensesByAccount[accountId] || 0) + convertCurrency(Number(t.amount), t.currency, preferredCurrency);
+          expensesByAccount[accountId] = (expensesByAccount[accountId] || 0) + convertCurrency(Number(t.amount) * spendingSign(t), t.currency, preferredCurrency);
         });
 
       // Chart data - daily aggregation
@@ -177,8 +186,10 @@ export function useDashboardStats(
           chartDataMap[date] = { income: 0, expenses: 0 };
         }
         const amount = convertCurrency(Number(t.amount), t.currency, preferredCurrency);
-        if (t.type === "income") {
+        if (isReportedIncome(t)) {
           chartDataMap[date].income += amount;
+        } else if (t.refund_of_id) {
+          chartDataMap[date].expenses -= amount;
         } else {
           chartDataMap[date].expenses += amount;
         }
@@ -0,0 +1,107 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { findDuplicateGroups } from "@/utils/duplicateDetection";
+
+// How far back the transactions list looks for duplicates
+export const DUPLICATE_SCAN_MONTHS = 12;
+
+export interface DuplicateCandidateRow {
+  id: string;
+  account_id: string;
+  type: string;
+  amount: number;
+  currency: string;
+  description: string | null;
+  notes: string | null;
+  transaction_date: string;
+  transfer_group_id: string | null;
+}
+
+/**
+ * Transactions dated within the range, in the light shape the duplicate detector needs.
+ * Keyed under "transactions" so every transaction change refreshes it.
+ */
+export function useDuplicateCandidates(range: { from: string; to: string } | null) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["transactions", "duplicate-candidates", user?.id, range?.from, range?.to],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, account_id, type, amount, currency, description, notes, transaction_date, transfer_group_id")
+        .gte("transaction_date", range!.from)
+        .lte("transaction_date", range!.to)
+        .order("transaction_date", { ascending: true });
+      if (error) throw error;
+      return (data || []).map((t) => ({ ...t, amount: Number(t.amount) })) as DuplicateCandidateRow[];
+    },
+    enabled: !!user && !!range,
+  });
+
+  return {
+    candidates: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * Likely duplicate groups among the last months of transactions, and merging them
+ */
+export function useDuplicateTransactions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const range = useMemo(() => {
+    const today = new Date();
+    return {
+      from: format(subMonths(today, DUPLICATE_SCAN_MONTHS), "yyyy-MM-dd"),
+      to: format(today, "yyyy-MM-dd"),
+    };
+  }, []);
+  const { candidates, isLoading } = useDuplicateCandidates(range);
+
+  const groups = useMemo(
+    // Linked transfers only change as a whole, so they are never merged
+    () => findDuplicateGroups(candidates.filter((t) => !t.transfer_group_id)),
+    [candidates]
+  );
+  const duplicateIds = useMemo(() => new Set(groups.flat().map((t) => t.id)), [groups]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ keepId, duplicateIds }: { keepId: string; duplicateIds: string[] }) => {
+      // Moves attachments, tags and refunds to the kept row and trashes the rest, reversing their balances
+      const { data, error } = await supabase.rpc("merge_transactions", {
+        p_keep_id: keepId,
+        p_duplicate_ids: duplicateIds,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transaction-trash"] });
+      queryClient.invalidateQueries({ queryKey: ["transaction-attachments"] });
+      toast({ title: `Merged ${count} duplicate${count !== 1 ? "s" : ""}`, description: "Removed copies were moved to the trash" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to merge transactions", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    groups,
+    duplicateIds,
+    isLoading,
+    mergeTransactions: mergeMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+  };
+}
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
+import type { Transaction } from "@/types/database";
 
 export interface Goal {
   id: string;
@@ -65,6 +66,22 @@ export const useGoals = () => {
     enabled: !!user,
   });
 
+  // Only transactions linked to a goal, rather than the whole transaction history
+  const goalTransactionsQuery = useQuery({
+    queryKey: ["transactions", "goal-linked", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*")
+        .not("goal_id", "is", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as Transaction[];
+    },
+    enabled: !!user,
+  });
+
   const addGoalLog = async (goalId: string, action: string, details?: Record<string, unknown>) => {
     if (!user) return;
     await supabase.from("goal_logs").insert([{
@@ -332,6 +349,7 @@ export const useGoals = () => {
   return {
     goals: goalsQuery.data || [],
     goalLogs: goalLogsQuery.data || [],
+    goalTransactions: goalTransactionsQuery.data || [],
     isLoading: goalsQuery.isLoading,
     createGoal: createMutation.mutate,
     updateGoal: updateMutation.mutate,
@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { Payee, Transaction } from "@/types/database";
+
+export type PayeeTransaction = Pick<Transaction, "id" | "payee_id" | "type" | "amount" | "currency" | "transaction_date" | "description">;
+
+const EMPTY_PAYEES: Payee[] = [];
+const EMPTY_PAYEE_TRANSACTIONS: PayeeTransaction[] = [];
+
+// Find or create the payee with this name; blank names give null
+export const resolvePayeeId = async (payeeName: string) => {
+  if (!payeeName.trim()) return null;
+  const { data, error } = await supabase.rpc("resolve_payee", { p_name: payeeName.trim() });
+  if (error) throw error;
+  return data;
+};
+
+// Payees are created implicitly when a transaction is saved with a new payee name
+export function usePayees() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["payees", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payees")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data as Payee[];
+    },
+    enabled: !!user?.id,
+  });
+
+  // Lightweight transaction rows used for per-payee totals
+  const payeeTransactionsQuery = useQuery({
+    queryKey: ["payee-transactions", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, payee_id, type, amount, currency, transaction_date, description")
+        .not("payee_id", "is", null);
+      if (error) throw error;
+      return data as PayeeTransaction[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const { error } = await supabase.from("payees").update({ name: name.trim() }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      toast({ title: "Payee renamed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to rename payee", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceIds }: { targetId: string; sourceIds: string[] }) => {
+      // Moves the duplicates' transactions onto the target and removes the duplicates in one call
+      const { error } = await supabase.rpc("merge_payees", {
+        p_target_id: targetId,
+        p_source_ids: sourceIds,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: "Payees merged" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to merge payees", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Linked transactions keep their data and simply lose the payee
+      const { error } = await supabase.from("payees").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: "Payee deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete payee", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    payees: query.data || EMPTY_PAYEES,
+    payeeTransactions: payeeTransactionsQuery.data || EMPTY_PAYEE_TRANSACTIONS,
+    isLoading: query.isLoading || payeeTransactionsQuery.isLoading,
+    renamePayee: renameMutation.mutateAsync,
+    mergePayees: mergeMutation.mutateAsync,
+    deletePayee: deleteMutation.mutateAsync,
+    isRenaming: renameMutation.isPending,
+    isMerging: mergeMutation.isPending,
+  };
+}
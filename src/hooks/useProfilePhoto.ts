@@ -2,7 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
-import { uploadProfilePhoto, deleteProfilePhoto } from "@/utils/profilePhoto";
+import { uploadProfilePhoto } from "@/utils/profilePhoto";
 
 export function useProfilePhoto() {
   const { user } = useAuth();
@@ -52,20 +52,21 @@ export function useProfilePhoto() {
         timestamp: new Date().toISOString(),
       });
 
-      // Upload to Cloudinary
       const uploadedPhoto = await uploadProfilePhoto(file);
 
-      console.log("[v0] PROFILE PHOTO UPLOAD MUTATION: Saved to Cloudinary, updating database", {
-        publicId: uploadedPhoto.public_id,
+      console.log("[v0] PROFILE PHOTO UPLOAD MUTATION: File stored, updating database", {
+        provider: uploadedPhoto.provider,
+        path: uploadedPhoto.path,
         userId: user?.id,
       });
 
-      // Update profile in Supabase
+      // Update profile in Supabase; the previous photo is then queued for deletion server-side
       const { data, error } = await supabase
         .from("profiles")
         .update({
-          profile_photo_url: uploadedPhoto.secure_url,
-          profile_photo_cloudinary_public_id: uploadedPhoto.public_id,
+          profile_photo_url: uploadedPhoto.url,
+          profile_photo_cloudinary_public_id: uploadedPhoto.path,
+          profile_photo_storage_provider: uploadedPhoto.provider,
         })
         .eq("user_id", user!.id)
         .select()
@@ -82,7 +83,7 @@ export function useProfilePhoto() {
 
       console.log("[v0] PROFILE PHOTO UPLOAD MUTATION: Complete", {
         userId: user?.id,
-        photoUrl: uploadedPhoto.secure_url.substring(0, 50) + "***",
+        photoUrl: uploadedPhoto.url.substring(0, 50) + "***",
       });
 
       return data;
@@ -118,15 +119,13 @@ export function useProfilePhoto() {
         timestamp: new Date().toISOString(),
       });
 
-      // Mark for deletion (backend will handle actual Cloudinary deletion)
-      await deleteProfilePhoto(query.data.profile_photo_cloudinary_public_id);
-
-      // Clear from Supabase
+      // Clearing the columns queues the file for deletion server-side
       const { error } = await supabase
         .from("profiles")
         .update({
           profile_photo_url: null,
           profile_photo_cloudinary_public_id: null,
+          profile_photo_storage_provider: null,
         })
         .eq("user_id", user!.id);
 
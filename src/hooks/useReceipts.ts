@@ -0,0 +1,118 @@
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Transaction, TransactionAttachment } from "@/types/database";
+
+export interface ReceiptFilters {
+  dateFrom: string;
+  dateTo: string;
+  accountId: string;
+  categoryId: string;
+  amountMin: number | null;
+  amountMax: number | null;
+}
+
+export const DEFAULT_RECEIPT_FILTERS: ReceiptFilters = {
+  dateFrom: "",
+  dateTo: "",
+  accountId: "all",
+  categoryId: "all",
+  amountMin: null,
+  amountMax: null,
+};
+
+// Rows loaded at a time; "Load more" raises the limit by this much
+export const RECEIPTS_PAGE_SIZE = 60;
+
+export type ReceiptTransaction = Pick<
+  Transaction,
+  "id" | "description" | "transaction_date" | "amount" | "currency" | "type" | "account_id" | "category_id"
+>;
+
+// An attachment with the transaction it belongs to
+export type Receipt = TransactionAttachment & { transactions: ReceiptTransaction };
+
+const TRANSACTION_COLUMNS = "id, description, transaction_date, amount, currency, type, account_id, category_id";
+
+// The filters as [column, operator, value] on transaction columns, which are prefixed when the
+// transaction is embedded
+function receiptConditions(filters: ReceiptFilters, prefix = ""): [string, string, string | number][] {
+  const conditions: [string, string, string | number][] = [];
+  if (filters.dateFrom) conditions.push([`${prefix}transaction_date`, "gte", filters.dateFrom]);
+  if (filters.dateTo) conditions.push([`${prefix}transaction_date`, "lte", filters.dateTo]);
+  if (filters.accountId !== "all") conditions.push([`${prefix}account_id`, "eq", filters.accountId]);
+  if (filters.categoryId !== "all") conditions.push([`${prefix}category_id`, "eq", filters.categoryId]);
+  if (filters.amountMin !== null) conditions.push([`${prefix}amount`, "gte", filters.amountMin]);
+  if (filters.amountMax !== null) conditions.push([`${prefix}amount`, "lte", filters.amountMax]);
+  return conditions;
+}
+
+// Attachments of every transaction, newest transaction first. Keyed under "transactions" so
+// transaction changes refresh it.
+export function useReceipts(filters: ReceiptFilters, limit = RECEIPTS_PAGE_SIZE) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["transactions", "receipts", user?.id, filters, limit],
+    queryFn: async () => {
+      let query = supabase
+        .from("transaction_attachments")
+        .select(`*, transactions!inner(${TRANSACTION_COLUMNS})`, { count: "exact" });
+      for (const [column, operator, value] of receiptConditions(filters, "transactions.")) {
+        query = query.filter(column, operator, value);
+      }
+
+      const { data, error, count } = await query
+        .order("transactions(transaction_date)", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return { receipts: (data || []) as unknown as Receipt[], totalCount: count || 0 };
+    },
+    enabled: !!user,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    receipts: query.data?.receipts || [],
+    totalCount: query.data?.totalCount || 0,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+  };
+}
+
+// Expenses of at least the filters' minimum amount that have no attachment
+export function useMissingReceipts(filters: ReceiptFilters, enabled: boolean, limit = RECEIPTS_PAGE_SIZE) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["transactions", "missing-receipts", user?.id, filters, limit],
+    queryFn: async () => {
+      let query = supabase
+        .from("transactions")
+        .select(`${TRANSACTION_COLUMNS}, transaction_attachments(id)`, { count: "exact" })
+        .eq("type", "expense")
+        // Only transactions the embedded attachments query finds nothing for
+        .filter("transaction_attachments", "is", null);
+      for (const [column, operator, value] of receiptConditions(filters)) {
+        query = query.filter(column, operator, value);
+      }
+
+      const { data, error, count } = await query
+        .order("transaction_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return { transactions: (data || []) as unknown as ReceiptTransaction[], totalCount: count || 0 };
+    },
+    enabled: !!user && enabled,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    transactions: query.data?.transactions || [],
+    totalCount: query.data?.totalCount || 0,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+  };
+}
@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { AccountReconciliation, Transaction } from "@/types/database";
+
+export interface ReconcileInput {
+  statementDate: string;
+  statementBalance: number;
+  transactionIds: string[];
+}
+
+// Signed effect of a transaction on its account balance, as in transaction_balance_change
+export const balanceEffect = (t: Pick<Transaction, "type" | "amount">) =>
+  t.type === "income" || t.type === "transfer-receiver" ? Number(t.amount) : -Number(t.amount);
+
+// Statement reconciliation of one account: its unreconciled transactions and the last finished reconciliation
+export function useReconciliation(accountId?: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Keyed under "transactions" so every transaction change refreshes it
+  const transactionsQuery = useQuery({
+    queryKey: ["transactions", "unreconciled", accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*")
+        .eq("account_id", accountId!)
+        .neq("status", "reconciled")
+        .order("transaction_date", { ascending: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as Transaction[];
+    },
+    enabled: !!user && !!accountId,
+  });
+
+  const lastReconciliationQuery = useQuery({
+    queryKey: ["account-reconciliations", accountId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("account_reconciliations")
+        .select("*")
+        .eq("account_id", accountId!)
+        .order("statement_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data as AccountReconciliation | null;
+    },
+    enabled: !!user && !!accountId,
+  });
+
+  // Keeps the ticks of an unfinished reconciliation as cleared / pending statuses
+  const saveProgressMutation = useMutation({
+    mutationFn: async ({ clearedIds, pendingIds }: { clearedIds: string[]; pendingIds: string[] }) => {
+      if (clearedIds.length > 0) {
+        const { error } = await supabase.from("transactions").update({ status: "cleared" }).in("id", clearedIds);
+        if (error) throw error;
+      }
+      if (pendingIds.length > 0) {
+        const { error } = await supabase.from("transactions").update({ status: "pending" }).in("id", pendingIds);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: "Reconciliation saved", description: "Ticked transactions are marked as cleared" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save reconciliation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reconcileMutation = useMutation({
+    mutationFn: async ({ statementDate, statementBalance, transactionIds }: ReconcileInput) => {
+      // The server checks the balance again and locks the ticked rows
+      const { data, error } = await supabase.rpc("reconcile_account", {
+        p_account_id: accountId!,
+        p_statement_date: statementDate,
+        p_statement_balance: statementBalance,
+        p_transaction_ids: transactionIds,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_, { transactionIds }) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["account-reconciliations", accountId] });
+      toast({
+        title: "Account reconciled",
+        description: `${transactionIds.length} transaction${transactionIds.length !== 1 ? "s" : ""} locked`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to reconcile account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    transactions: transactionsQuery.data || [],
+    lastReconciliation: lastReconciliationQuery.data || null,
+    isLoading: transactionsQuery.isLoading || lastReconciliationQuery.isLoading,
+    saveProgress: saveProgressMutation.mutateAsync,
+    reconcile: reconcileMutation.mutateAsync,
+    isSaving: saveProgressMutation.isPending,
+    isReconciling: reconcileMutation.isPending,
+  };
+}
@@ -0,0 +1,103 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import type { RecurrenceStatus } from "@/types/database";
+
+function invalidateRecurringQueries(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ["transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["accounts"] });
+  queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+  queryClient.invalidateQueries({ queryKey: ["goals"] });
+}
+
+// Generates every recurring occurrence that fell due since the last visit.
+// Mounted once in the app layout so it runs right after login on any page.
+export function useRecurringCatchUp() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const catchUpMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("create_recurring_transactions");
+      if (error) throw error;
+      return data ?? 0;
+    },
+    onSuccess: (createdCount) => {
+      if (createdCount > 0) {
+        invalidateRecurringQueries(queryClient);
+        toast({
+          title: "Recurring transactions added",
+          description: `${createdCount} scheduled transaction${createdCount === 1 ? "" : "s"} recorded`,
+        });
+      }
+    },
+  });
+
+  // Trigger on mount to create any pending recurring transactions
+  if (user && catchUpMutation.isIdle) {
+    catchUpMutation.mutate();
+  }
+}
+
+export function useRecurringTransactions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: Exclude<RecurrenceStatus, "active"> }) => {
+      const { error } = await supabase
+        .from("transactions")
+        .update({ recurrence_status: status })
+        .eq("id", id);
+      if (error) throw error;
+      return status;
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: status === "paused" ? "Recurring series paused" : "Recurring series ended" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("resume_recurring_transaction", { p_transaction_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: "Recurring series resumed" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { data, error } = await supabase.rpc("skip_recurring_occurrence", { p_transaction_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: "Next occurrence skipped" });
+    },
+    onError: (error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    },
+  });
+
+  return {
+    pauseSeries: (id: string) => setStatusMutation.mutateAsync({ id, status: "paused" }),
+    endSeries: (id: string) => setStatusMutation.mutateAsync({ id, status: "ended" }),
+    resumeSeries: resumeMutation.mutateAsync,
+    skipNextOccurrence: skipMutation.mutateAsync,
+    isUpdatingSeries: setStatusMutation.isPending || resumeMutation.isPending || skipMutation.isPending,
+  };
+}
@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import type { Transaction } from "@/types/database";
+
+export type RefundRow = Pick<Transaction, "id" | "amount" | "currency" | "description" | "transaction_date">;
+
+export interface RefundInput {
+  amount: number;
+  transaction_date: string;
+  category_id: string | null;
+  notes: string | null;
+}
+
+// Refunds of one expense, and recording a new one
+export function useRefunds(original: Transaction | null) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Keyed under "transactions" so every transaction change refreshes it
+  const refundsQuery = useQuery({
+    queryKey: ["transactions", "refunds", original?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("id, amount, currency, description, transaction_date")
+        .eq("refund_of_id", original!.id)
+        .order("transaction_date", { ascending: true });
+      if (error) throw error;
+      return (data || []).map((r) => ({ ...r, amount: Number(r.amount) })) as RefundRow[];
+    },
+    enabled: !!user && !!original,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async ({ amount, transaction_date, category_id, notes }: RefundInput) => {
+      // An income on the expense's account, linked to it; the server checks it doesn't exceed the expense
+      const { data, error } = await supabase.rpc("create_transaction", {
+        p_transaction: {
+          type: "income",
+          refund_of_id: original!.id,
+          account_id: original!.account_id,
+          currency: original!.currency,
+          payee_id: original!.payee_id || null,
+          description: `Refund: ${original!.description || "expense"}`,
+          amount,
+          transaction_date,
+          category_id,
+          notes,
+          frequency: "none",
+        } as unknown as Json,
+      });
+      if (error) throw error;
+      return data as Transaction;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["budget-spending"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      toast({ title: "Refund recorded", description: "It comes off the category's spending" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to record refund", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refunds = refundsQuery.data || [];
+
+  return {
+    refunds,
+    refundedAmount: refunds.reduce((sum, r) => sum + r.amount, 0),
+    isLoading: refundsQuery.isLoading,
+    createRefund: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+  };
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { SavedView } from "@/types/database";
+
+// Named sets of Transactions page filters
+export function useSavedViews() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["saved-views", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("saved_views")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data as SavedView[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async ({ name, filters }: { name: string; filters: Record<string, string> }) => {
+      const { data, error } = await supabase
+        .from("saved_views")
+        .insert({ name: name.trim(), filters, user_id: user!.id })
+        .select()
+        .single();
+      if (error) {
+        // Unique violation on (user_id, lower(name))
+        if (error.code === "23505") throw new Error(`A view named "${name.trim()}" already exists`);
+        throw error;
+      }
+      return data as SavedView;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-views"] });
+      toast({ title: "View saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("saved_views").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["saved-views"] });
+      toast({ title: "View deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete view", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    savedViews: query.data || [],
+    isLoading: query.isLoading,
+    createView: createMutation.mutateAsync,
+    deleteView: deleteMutation.mutateAsync,
+    isSaving: createMutation.isPending,
+  };
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Tag } from "@/types/database";
+
+const EMPTY_TAGS: Tag[] = [];
+
+// Tags are created implicitly when a transaction is saved with a new tag name
+export function useTags() {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["tags", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data as Tag[];
+    },
+    enabled: !!user?.id,
+  });
+
+  return {
+    tags: query.data || EMPTY_TAGS,
+    isLoading: query.isLoading,
+  };
+}
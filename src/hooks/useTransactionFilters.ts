@@ -0,0 +1,152 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export type TransactionTypeFilter = "all" | "income" | "expense" | "transfer-sender" | "transfer-receiver" | "transfer";
+export type SortField = "date_created" | "amount" | "transaction_date";
+export type SortOrder = "asc" | "desc";
+export type DateFilterType = "all" | "this-week" | "last-7-days" | "this-month" | "last-30-days" | "this-year" | "last-365-days" | "custom-month" | "custom-year" | "custom-date";
+
+export interface TransactionFilterState {
+  search: string;
+  type: TransactionTypeFilter;
+  account: string;
+  category: string;
+  frequency: string;
+  tag: string;
+  amountMin: number | null;
+  amountMax: number | null;
+  date: DateFilterType;
+  startDate: string;
+  endDate: string;
+  month: string;
+  year: string;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  perPage: number;
+}
+
+const TYPE_FILTERS: TransactionTypeFilter[] = ["all", "income", "expense", "transfer-sender", "transfer-receiver", "transfer"];
+const SORT_FIELDS: SortField[] = ["date_created", "amount", "transaction_date"];
+const DATE_FILTERS: DateFilterType[] = ["all", "this-week", "last-7-days", "this-month", "last-30-days", "this-year", "last-365-days", "custom-month", "custom-year", "custom-date"];
+const PAGE_SIZES = [10, 20, 50, 100];
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilterState = {
+  search: "",
+  type: "all",
+  account: "all",
+  category: "all",
+  frequency: "all",
+  tag: "all",
+  amountMin: null,
+  amountMax: null,
+  date: "all",
+  startDate: "",
+  endDate: "",
+  month: "",
+  year: new Date().getFullYear().toString(),
+  sortField: "date_created",
+  sortOrder: "desc",
+  perPage: 20,
+};
+
+// Query string key of each filter
+const PARAM_KEYS: Record<keyof TransactionFilterState, string> = {
+  search: "q",
+  type: "type",
+  account: "account",
+  category: "category",
+  frequency: "frequency",
+  tag: "tag",
+  amountMin: "min",
+  amountMax: "max",
+  date: "date",
+  startDate: "from",
+  endDate: "to",
+  month: "month",
+  year: "year",
+  sortField: "sort",
+  sortOrder: "order",
+  perPage: "per_page",
+};
+
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+const parseAmount = (value: string | null) => {
+  const amount = value ? parseFloat(value) : NaN;
+  return isNaN(amount) ? null : amount;
+};
+
+// Unknown or malformed values fall back to the defaults so hand-edited URLs can't break the page
+export function parseTransactionFilters(params: URLSearchParams): TransactionFilterState {
+  const defaults = DEFAULT_TRANSACTION_FILTERS;
+  const get = (key: keyof TransactionFilterState) => params.get(PARAM_KEYS[key]);
+  const perPage = parseInt(get("perPage") || "");
+
+  return {
+    search: get("search") || defaults.search,
+    type: pick(get("type"), TYPE_FILTERS, defaults.type),
+    account: get("account") || defaults.account,
+    category: get("category") || defaults.category,
+    frequency: get("frequency") || defaults.frequency,
+    tag: get("tag") || defaults.tag,
+    amountMin: parseAmount(get("amountMin")),
+    amountMax: parseAmount(get("amountMax")),
+    date: pick(get("date"), DATE_FILTERS, defaults.date),
+    startDate: get("startDate") || defaults.startDate,
+    endDate: get("endDate") || defaults.endDate,
+    month: get("month") || defaults.month,
+    year: get("year") || defaults.year,
+    sortField: pick(get("sortField"), SORT_FIELDS, defaults.sortField),
+    sortOrder: pick(get("sortOrder"), ["asc", "desc"], defaults.sortOrder),
+    perPage: PAGE_SIZES.includes(perPage) ? perPage : defaults.perPage,
+  };
+}
+
+// Only values that differ from the defaults are written, in a fixed order
+export function toTransactionFilterParams(filters: TransactionFilterState): Record<string, string> {
+  const params: Record<string, string> = {};
+  (Object.keys(PARAM_KEYS) as (keyof TransactionFilterState)[]).forEach((key) => {
+    const value = filters[key];
+    // The default year moves with the calendar, so keep it whenever a year-based range uses it
+    const usesYear = key === "year" && (filters.date === "custom-year" || filters.date === "custom-month");
+    if (value === null || value === "" || (value === DEFAULT_TRANSACTION_FILTERS[key] && !usesYear)) return;
+    params[PARAM_KEYS[key]] = String(value);
+  });
+  return params;
+}
+
+// Filter, sort and page size state of the Transactions page, kept in the URL query string
+export function useTransactionFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseTransactionFilters(searchParams), [searchParams]);
+  const params = useMemo(() => toTransactionFilterParams(filters), [filters]);
+
+  // Each change is a history entry so back/forward steps through filters; pass replace for keystrokes
+  const updateFilters = (changes: Partial<TransactionFilterState>, options?: { replace?: boolean }) => {
+    setSearchParams(toTransactionFilterParams({ ...filters, ...changes }), { replace: options?.replace });
+  };
+
+  // Clears the filters but keeps the sort order and page size
+  const resetFilters = () => {
+    updateFilters({
+      ...DEFAULT_TRANSACTION_FILTERS,
+      sortField: filters.sortField,
+      sortOrder: filters.sortOrder,
+      perPage: filters.perPage,
+    });
+  };
+
+  // Replaces the whole state, e.g. with a saved view
+  const applyFilterParams = (viewParams: Record<string, string>) => {
+    setSearchParams(toTransactionFilterParams(parseTransactionFilters(new URLSearchParams(viewParams))));
+  };
+
+  // Whether the page is showing exactly these parameters; stored views may have keys in any order
+  const isCurrentView = (viewParams: Record<string, string>) =>
+    JSON.stringify(toTransactionFilterParams(parseTransactionFilters(new URLSearchParams(viewParams)))) ===
+    JSON.stringify(params);
+
+  return { filters, params, updateFilters, resetFilters, applyFilterParams, isCurrentView };
+}
@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { TransactionLog } from "@/types/database";
+
+// History of a transaction, newest first. Logs are written by a database trigger.
+export function useTransactionLogs(transactionId?: string) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["transaction-logs", transactionId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transaction_logs")
+        .select("*")
+        .eq("transaction_id", transactionId!)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as unknown as TransactionLog[];
+    },
+    enabled: !!transactionId && !!user,
+  });
+
+  return {
+    logs: query.data || [],
+    isLoading: query.isLoading,
+  };
+}
@@ -0,0 +1,205 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { resolvePayeeId } from "@/hooks/usePayees";
+import type { Json } from "@/integrations/supabase/types";
+import type { TransactionRule } from "@/types/database";
+
+// What a rule matches on; enough to test it against past transactions before saving
+export type TransactionRuleConditions = Pick<
+  TransactionRule,
+  "match_field" | "match_operator" | "match_value" | "transaction_type" | "account_id" | "amount_min" | "amount_max"
+>;
+
+export interface TransactionRuleInput extends TransactionRuleConditions {
+  set_category_id: string | null;
+  // Resolved to a payee, created if it doesn't exist yet
+  payee_name: string;
+  add_tags: string[];
+}
+
+export interface RulePreviewMatch {
+  id: string;
+  description: string | null;
+  transaction_date: string;
+  type: string;
+  amount: number;
+  currency: string;
+  category_id: string | null;
+  payee_id: string | null;
+}
+
+const toNumberOrNull = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+export function useTransactionRules() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const rulesQuery = useQuery({
+    queryKey: ["transaction-rules", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transaction_rules")
+        .select("*")
+        .order("priority", { ascending: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return (data || []).map((r) => ({
+        ...r,
+        amount_min: toNumberOrNull(r.amount_min),
+        amount_max: toNumberOrNull(r.amount_max),
+      })) as TransactionRule[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const rules = rulesQuery.data || [];
+
+  // Rules applied to transactions change what reports show
+  const invalidateTransactionData = () => {
+    queryClient.invalidateQueries({ queryKey: ["transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["tags"] });
+    queryClient.invalidateQueries({ queryKey: ["payees"] });
+    queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["budget-spending"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async ({ payee_name, ...rule }: TransactionRuleInput) => {
+      const payeeId = await resolvePayeeId(payee_name);
+      // New rules go last
+      const priority = rules.length > 0 ? Math.max(...rules.map((r) => r.priority)) + 1 : 0;
+      const { error } = await supabase
+        .from("transaction_rules")
+        .insert({ ...rule, set_payee_id: payeeId, priority, user_id: user!.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      toast({ title: "Rule added", description: "It applies to new transactions from now on" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, payee_name, ...rule }: Partial<TransactionRuleInput> & { id: string; is_active?: boolean }) => {
+      const updates: Record<string, unknown> = { ...rule };
+      if (payee_name !== undefined) updates.set_payee_id = await resolvePayeeId(payee_name);
+      const { error } = await supabase.from("transaction_rules").update(updates).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      toast({ title: "Rule updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Transactions the rule already changed keep their values
+      const { error } = await supabase.from("transaction_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-rules"] });
+      toast({ title: "Rule deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Save a new order; priorities are rewritten as positions in the list
+  const reorderMutation = useMutation({
+    mutationFn: async (orderedIds: string[]) => {
+      const results = await Promise.all(
+        orderedIds.map((id, priority) => supabase.from("transaction_rules").update({ priority }).eq("id", id))
+      );
+      const failed = results.find((r) => r.error);
+      if (failed) throw failed.error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-rules"] });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-rules"] });
+      toast({ title: "Failed to reorder rules", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reapplyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("reapply_transaction_rules");
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (changedCount) => {
+      invalidateTransactionData();
+      toast({
+        title: "Rules applied",
+        description:
+          changedCount > 0
+            ? `Updated ${changedCount} transaction${changedCount === 1 ? "" : "s"}`
+            : "No transactions needed changes",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to apply rules", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    rules,
+    isLoading: rulesQuery.isLoading,
+    createRule: createMutation.mutateAsync,
+    updateRule: updateMutation.mutateAsync,
+    deleteRule: deleteMutation.mutateAsync,
+    reorderRules: reorderMutation.mutateAsync,
+    reapplyRules: reapplyMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+    isReordering: reorderMutation.isPending,
+    isReapplying: reapplyMutation.isPending,
+  };
+}
+
+// Past transactions a rule would match, most recent first, with the total number of matches.
+// Pass null to skip the lookup.
+export function useTransactionRulePreview(conditions: TransactionRuleConditions | null, limit = 20) {
+  const { user } = useAuth();
+
+  // Keyed under "transactions" so every transaction change refreshes it
+  const query = useQuery({
+    queryKey: ["transactions", "rule-preview", conditions, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("preview_transaction_rule", {
+        p_rule: conditions as unknown as Json,
+        p_limit: limit,
+      });
+      if (error) throw error;
+      const rows = data || [];
+      return {
+        matchCount: rows.length > 0 ? Number(rows[0].match_count) : 0,
+        matches: rows.map((row) => ({ ...row, amount: Number(row.amount) })) as RulePreviewMatch[],
+      };
+    },
+    enabled: !!user?.id && !!conditions?.match_value.trim(),
+  });
+
+  return {
+    matchCount: query.data?.matchCount ?? 0,
+    matches: query.data?.matches || [],
+    isLoading: query.isFetching,
+  };
+}
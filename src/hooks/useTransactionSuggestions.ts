@@ -0,0 +1,44 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { buildSuggestionIndex, suggestFromHistory, SuggestionHistoryTransaction } from "@/utils/transactionSuggestions";
+
+// How far back past transactions are learned from
+export const SUGGESTION_HISTORY_MONTHS = 12;
+
+// Category, account and payee suggestions for a description, learned from past transactions
+export function useTransactionSuggestions() {
+  const { user } = useAuth();
+
+  // Keyed under "transactions" so every transaction change refreshes it. Transfers and refunds
+  // are left out: their categories don't say anything about similar purchases.
+  const historyQuery = useQuery({
+    queryKey: ["transactions", "suggestion-history", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("description, type, category_id, account_id, payee_id")
+        .in("type", ["income", "expense"])
+        .is("refund_of_id", null)
+        .gte("transaction_date", format(subMonths(new Date(), SUGGESTION_HISTORY_MONTHS), "yyyy-MM-dd"))
+        .order("transaction_date", { ascending: false });
+      if (error) throw error;
+      return (data || []) as SuggestionHistoryTransaction[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const index = useMemo(() => buildSuggestionIndex(historyQuery.data || []), [historyQuery.data]);
+
+  const suggest = useCallback(
+    (description: string, type: string) => suggestFromHistory(index, description, type),
+    [index]
+  );
+
+  return {
+    suggest,
+    isLoading: historyQuery.isLoading,
+  };
+}
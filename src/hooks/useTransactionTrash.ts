@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { TrashedTransaction } from "@/types/database";
+
+// Days a deleted transaction stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = 30;
+
+// Deleted transactions; deleting goes through deleteTransaction in useTransactions
+export function useTransactionTrash() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["transaction-trash", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("transaction_trash")
+        .select("*")
+        .order("deleted_at", { ascending: false });
+      if (error) throw error;
+      return data as unknown as TrashedTransaction[];
+    },
+    enabled: !!user?.id,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (trashId: string) => {
+      // Re-inserts the rows and re-applies their balance and goal changes in one call
+      const { error } = await supabase.rpc("restore_transaction", { p_trash_id: trashId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-trash"] });
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      toast({ title: "Transaction restored" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore transaction", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Purging runs server-side, where attachment files can be deleted from their storage provider
+  const purgeMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const { data, error } = await supabase.functions.invoke("purge-trash", { body: { ids } });
+      if (error) throw error;
+      return data as { purged: number; files: number };
+    },
+    onSuccess: (_, ids) => {
+      queryClient.invalidateQueries({ queryKey: ["transaction-trash"] });
+      toast({ title: ids ? "Transaction deleted permanently" : "Trash emptied" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete permanently", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    trash: query.data || [],
+    isLoading: query.isLoading,
+    restoreTransaction: restoreMutation.mutateAsync,
+    deleteForever: (id: string) => purgeMutation.mutateAsync([id]),
+    emptyTrash: () => purgeMutation.mutateAsync(undefined),
+    isRestoring: restoreMutation.isPending,
+    isPurging: purgeMutation.isPending,
+  };
+}
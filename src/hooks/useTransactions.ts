@@ -1,27 +1,140 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { Transaction, Category } from "@/types/database";
+import { Transaction, Category, TransactionSplitInput, TransactionStatus } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
 
-export function useTransactions() {
+const EMPTY_CATEGORIES: Category[] = [];
+
+export interface TransferInput {
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  // Required when the accounts use different currencies (or pass exchange_rate instead)
+  received_amount?: number;
+  exchange_rate?: number;
+  // Booked as an expense on the source account
+  fee?: number;
+  transaction_date: string;
+  description?: string | null;
+  notes?: string | null;
+}
+
+// Split lines replace category_id and must add up to the transaction amount.
+// Tags and the payee are given by name; unknown names are created.
+export type TransactionRelationsInput = { splits?: TransactionSplitInput[]; tags?: string[]; payee_name?: string | null };
+
+// Changes for one row of a bulk edit; keys left out keep their current value
+export interface BulkTransactionUpdate {
+  id: string;
+  changes: Partial<Pick<Transaction, "category_id" | "account_id" | "currency" | "transaction_date" | "goal_id" | "goal_amount" | "goal_allocation_type">> & {
+    splits?: TransactionSplitInput[];
+  };
+}
+
+export interface TransactionListFilters {
+  type?: "income" | "expense" | "transfer" | "transfer-sender" | "transfer-receiver";
+  // A transaction must match every listed account; transfers match through either leg
+  account_ids?: string[];
+  category_id?: string;
+  tag_id?: string;
+  payee_id?: string;
+  frequency?: string;
+  amount_min?: number;
+  amount_max?: number;
+  // Make amount_min / amount_max strict
+  amount_min_exclusive?: boolean;
+  amount_max_exclusive?: boolean;
+  date_from?: string;
+  date_to?: string;
+  search?: string;
+  // From the search query: every listed id and term must match, no excluded one may
+  category_ids?: string[];
+  tag_ids?: string[];
+  payee_ids?: string[];
+  search_terms?: string[];
+  exclude_types?: string[];
+  exclude_account_ids?: string[];
+  exclude_category_ids?: string[];
+  exclude_tag_ids?: string[];
+  exclude_payee_ids?: string[];
+  exclude_search_terms?: string[];
+}
+
+export type TransactionSortField = "created_at" | "transaction_date" | "amount";
+
+// Opaque position returned by the server; pass it back to fetch the following page
+export interface TransactionCursor {
+  sort_key: string;
+  id: string;
+}
+
+export interface TransactionListParams {
+  filters: TransactionListFilters;
+  sortField: TransactionSortField;
+  sortOrder: "asc" | "desc";
+  cursor: TransactionCursor | null;
+  limit: number;
+}
+
+interface TransactionListPage {
+  rows: Transaction[];
+  total_count: number;
+  next_cursor: TransactionCursor | null;
+}
+
+// One page of transactions, filtered and sorted server-side
+export function useTransactionList({ filters, sortField, sortOrder, cursor, limit }: TransactionListParams) {
   const { user } = useAuth();
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
 
   const query = useQuery({
-    queryKey: ["transactions", user?.id],
+    queryKey: ["transactions", "list", user?.id, filters, sortField, sortOrder, cursor, limit],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from("transactions")
-        .select("*")
-        .order("transaction_date", { ascending: false });
+      const { data, error } = await supabase.rpc("list_transactions", {
+        p_filters: filters as unknown as Json,
+        p_sort_field: sortField,
+        p_sort_order: sortOrder,
+        p_cursor: cursor as unknown as Json,
+        p_limit: limit,
+      });
       if (error) throw error;
-      return data as Transaction[];
+      const page = data as unknown as TransactionListPage;
+
+      // The other legs of transfers on this page (receivers and fees) for the "From → To" display
+      const groupIds = [...new Set(page.rows.map((t) => t.transfer_group_id).filter((id): id is string => !!id))];
+      let transferLegs: Transaction[] = [];
+      if (groupIds.length > 0) {
+        const { data: legs, error: legsError } = await supabase
+          .from("transactions")
+          .select("*")
+          .in("transfer_group_id", groupIds);
+        if (legsError) throw legsError;
+        transferLegs = legs as Transaction[];
+      }
+
+      return { ...page, transferLegs };
     },
     enabled: !!user,
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
   });
 
+  return {
+    transactions: query.data?.rows || [],
+    transferLegs: query.data?.transferLegs || [],
+    totalCount: query.data?.total_count || 0,
+    nextCursor: query.data?.next_cursor || null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+  };
+}
+
+export function useTransactions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
   const categoriesQuery = useQuery({
     queryKey: ["categories"],
     queryFn: async () => {
@@ -33,51 +146,22 @@ export function useTransactions() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (transaction: Omit<Transaction, "id" | "user_id" | "created_at" | "updated_at">) => {
-      const { data, error } = await supabase
-        .from("transactions")
-        .insert([{ ...transaction, user_id: user!.id }])
-        .select()
-        .single();
+    mutationFn: async (transaction: Omit<Transaction, "id" | "user_id" | "created_at" | "updated_at"> & TransactionRelationsInput) => {
+      // Inserts the row and applies the balance and goal change in one database transaction
+      const { data, error } = await supabase.rpc("create_transaction", {
+        p_transaction: transaction as unknown as Json,
+      });
       if (error) throw error;
-      
-      // Update account balance
-      let balanceChange: number;
-      if (transaction.type === "income" || transaction.type === "transfer-receiver") {
-        balanceChange = transaction.amount;
-      } else {
-        balanceChange = -transaction.amount;
-      }
-      await supabase.rpc("update_account_balance", { account_id: transaction.account_id, amount_change: balanceChange });
-      
-      // Update goal if linked
-      if (transaction.goal_id && transaction.goal_amount) {
-        // For income: add to goal, for expense: subtract from goal
-        const goalChange = transaction.type === "income" ? transaction.goal_amount : -transaction.goal_amount;
-        
-        // Get current goal amount
-        const { data: goal, error: goalError } = await supabase
-          .from("goals")
-          .select("current_amount")
-          .eq("id", transaction.goal_id)
-          .single();
-        
-        if (!goalError && goal) {
-          const newAmount = Math.max(0, goal.current_amount + goalChange);
-          await supabase
-            .from("goals")
-            .update({ current_amount: newAmount })
-            .eq("id", transaction.goal_id);
-        }
-      }
-      
-      return data;
+      return data as Transaction;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
       queryClient.invalidateQueries({ queryKey: ["accounts"] });
       queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
       queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
       toast({ title: "Transaction added" });
     },
     onError: (error) => {
@@ -86,10 +170,11 @@ export function useTransactions() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (transaction: Transaction) => {
-      const { data, error } = await supabase
-        .from("transactions")
-        .update({
+    mutationFn: async (transaction: Transaction & TransactionRelationsInput) => {
+      // Reverses the stored row's effect and applies the edited one server-side
+      const { data, error } = await supabase.rpc("update_transaction", {
+        p_id: transaction.id,
+        p_changes: {
           description: transaction.description,
           amount: transaction.amount,
           type: transaction.type,
@@ -99,17 +184,27 @@ export function useTransactions() {
           currency: transaction.currency,
           frequency: transaction.frequency,
           notes: transaction.notes,
-        })
-        .eq("id", transaction.id)
-        .select()
-        .single();
+          goal_id: transaction.goal_id,
+          goal_amount: transaction.goal_amount,
+          goal_allocation_type: transaction.goal_allocation_type,
+          recurrence_end_date: transaction.recurrence_end_date,
+          // Left out when undefined so existing split lines, tags and payee stay as they are
+          splits: transaction.splits,
+          tags: transaction.tags,
+          payee_name: transaction.payee_name,
+        },
+      });
       if (error) throw error;
-      return data;
+      return data as Transaction;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
       queryClient.invalidateQueries({ queryKey: ["accounts"] });
       queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["payees"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
       toast({ title: "Transaction updated" });
     },
     onError: (error) => {
@@ -117,60 +212,116 @@ export function useTransactions() {
     },
   });
 
+  const bulkUpdateMutation = useMutation({
+    mutationFn: async (updates: BulkTransactionUpdate[]) => {
+      // Every row is updated through update_transaction in a single database transaction
+      const { data, error } = await supabase.rpc("bulk_update_transactions", {
+        p_updates: updates as unknown as Json,
+      });
+      if (error) throw error;
+      return data as number;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["goals"] });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      toast({ title: `${count} transaction${count !== 1 ? "s" : ""} updated` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update transactions", description: error.message, variant: "destructive" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (transaction: Transaction) => {
-      const { error } = await supabase.from("transactions").delete().eq("id", transaction.id);
+      // Moves the row to the trash and reverts its balance and goal change in one database transaction
+      const { error } = await supabase.rpc("delete_transaction", { p_id: transaction.id });
       if (error) throw error;
-      
-      // Revert account balance
-      let balanceChange: number;
-      if (transaction.type === "income" || transaction.type === "transfer-receiver") {
-        balanceChange = -transaction.amount;
-      } else {
-        balanceChange = transaction.amount;
-      }
-      await supabase.rpc("update_account_balance", { account_id: transaction.account_id, amount_change: balanceChange });
-      
-      // Revert goal if linked
-      if (transaction.goal_id && transaction.goal_amount) {
-        // For income deletion: subtract from goal, for expense deletion: add back to goal
-        const goalChange = transaction.type === "income" ? -transaction.goal_amount : transaction.goal_amount;
-        
-        const { data: goal, error: goalError } = await supabase
-          .from("goals")
-          .select("current_amount")
-          .eq("id", transaction.goal_id)
-          .single();
-        
-        if (!goalError && goal) {
-          const newAmount = Math.max(0, goal.current_amount + goalChange);
-          await supabase
-            .from("goals")
-            .update({ current_amount: newAmount })
-            .eq("id", transaction.goal_id);
-        }
-      }
     },
-    onSuccess: () => {
+    onSuccess: (_, transaction) => {
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
       queryClient.invalidateQueries({ queryKey: ["accounts"] });
       queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
       queryClient.invalidateQueries({ queryKey: ["goals"] });
-      toast({ title: "Transaction deleted" });
+      queryClient.invalidateQueries({ queryKey: ["payee-transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["transaction-trash"] });
+      toast({ title: transaction.transfer_group_id ? "Transfer moved to trash" : "Transaction moved to trash" });
     },
     onError: (error) => {
       toast({ title: "Failed to delete transaction", description: error.message, variant: "destructive" });
     },
   });
 
+  // Both legs of a transfer share a transfer_group_id and are written together server-side
+  const createTransferMutation = useMutation({
+    mutationFn: async (transfer: TransferInput) => {
+      const { data, error } = await supabase.rpc("create_transfer", {
+        p_transfer: transfer as unknown as Json,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      toast({ title: "Transfer completed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create transfer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTransferMutation = useMutation({
+    mutationFn: async ({ transferGroupId, ...changes }: Partial<TransferInput> & { transferGroupId: string }) => {
+      const { error } = await supabase.rpc("update_transfer", {
+        p_transfer_group_id: transferGroupId,
+        p_changes: changes as unknown as Json,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["monthly-stats"] });
+      toast({ title: "Transfer updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update transfer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Marks rows pending or cleared; setting a reconciled row back to cleared unlocks it
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ ids, status }: { ids: string[]; status: Exclude<TransactionStatus, "reconciled"> }) => {
+      const { error } = await supabase.from("transactions").update({ status }).in("id", ids);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      toast({ title: status === "cleared" ? "Marked as cleared" : "Marked as pending" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
+    },
+  });
+
   return {
-    transactions: query.data || [],
-    categories: categoriesQuery.data || [],
-    isLoading: query.isLoading,
+    categories: categoriesQuery.data || EMPTY_CATEGORIES,
+    isLoading: categoriesQuery.isLoading,
     createTransaction: createMutation.mutateAsync,
     updateTransaction: updateMutation.mutateAsync,
+    bulkUpdateTransactions: bulkUpdateMutation.mutateAsync,
+    setTransactionStatus: setStatusMutation.mutateAsync,
     deleteTransaction: deleteMutation.mutateAsync,
+    createTransfer: createTransferMutation.mutateAsync,
+    updateTransfer: updateTransferMutation.mutateAsync,
     isCreating: createMutation.isPending,
     isUpdating: updateMutation.isPending,
+    isBulkUpdating: bulkUpdateMutation.isPending,
+    isSettingStatus: setStatusMutation.isPending,
+    isSavingTransfer: createTransferMutation.isPending || updateTransferMutation.isPending,
   };
 }
@@ -14,6 +14,44 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_reconciliations: {
+        Row: {
+          account_id: string
+          created_at: string
+          id: string
+          statement_balance: number
+          statement_date: string
+          transaction_count: number
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          id?: string
+          statement_balance: number
+          statement_date: string
+          transaction_count?: number
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          id?: string
+          statement_balance?: number
+          statement_date?: string
+          transaction_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_reconciliations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       accounts: {
         Row: {
           balance: number
@@ -53,6 +91,127 @@ export type Database = {
         }
         Relationships: []
       }
+      bill_payments: {
+        Row: {
+          amount: number | null
+          bill_id: string
+          created_at: string
+          due_date: string
+          id: string
+          paid_date: string | null
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number | null
+          bill_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          paid_date?: string | null
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number | null
+          bill_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          paid_date?: string | null
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category_id: string | null
+          created_at: string
+          first_due_date: string
+          frequency: string
+          id: string
+          is_active: boolean
+          name: string
+          next_due_date: string
+          notes: string | null
+          payee_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          first_due_date: string
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          next_due_date: string
+          notes?: string | null
+          payee_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          first_due_date?: string
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          next_due_date?: string
+          notes?: string | null
+          payee_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       budget_logs: {
         Row: {
           action: string
@@ -290,6 +449,30 @@ export type Database = {
           },
         ]
       }
+      payees: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       priority_types: {
         Row: {
           color: string
@@ -322,36 +505,48 @@ export type Database = {
       }
       profiles: {
         Row: {
+          attachment_image_quality: string
           created_at: string
           default_account_id: string | null
           full_name: string | null
           id: string
           phone_number: string | null
           preferred_currency: string | null
+          profile_photo_cloudinary_public_id: string | null
+          profile_photo_storage_provider: string | null
+          profile_photo_url: string | null
           theme: string | null
           timezone: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          attachment_image_quality?: string
           created_at?: string
           default_account_id?: string | null
           full_name?: string | null
           id?: string
           phone_number?: string | null
           preferred_currency?: string | null
+          profile_photo_cloudinary_public_id?: string | null
+          profile_photo_storage_provider?: string | null
+          profile_photo_url?: string | null
           theme?: string | null
           timezone?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          attachment_image_quality?: string
           created_at?: string
           default_account_id?: string | null
           full_name?: string | null
           id?: string
           phone_number?: string | null
           preferred_currency?: string | null
+          profile_photo_cloudinary_public_id?: string | null
+          profile_photo_storage_provider?: string | null
+          profile_photo_url?: string | null
           theme?: string | null
           timezone?: string | null
           updated_at?: string
@@ -367,6 +562,333 @@ export type Database = {
           },
         ]
       }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      storage_deletions: {
+        Row: {
+          created_at: string
+          id: string
+          path: string
+          storage_provider: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          path: string
+          storage_provider: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          path?: string
+          storage_provider?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transaction_attachments: {
+        Row: {
+          cloudinary_public_id: string
+          cloudinary_url: string
+          created_at: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          storage_provider: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          cloudinary_public_id: string
+          cloudinary_url: string
+          created_at?: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id?: string
+          storage_provider?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          cloudinary_public_id?: string
+          cloudinary_url?: string
+          created_at?: string
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          storage_provider?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_attachments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_logs: {
+        Row: {
+          action: string
+          created_at: string
+          details: Json
+          id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details?: Json
+          id?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transaction_rules: {
+        Row: {
+          account_id: string | null
+          add_tags: string[]
+          amount_max: number | null
+          amount_min: number | null
+          created_at: string
+          id: string
+          is_active: boolean
+          match_field: string
+          match_operator: string
+          match_value: string
+          priority: number
+          set_category_id: string | null
+          set_payee_id: string | null
+          transaction_type: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          add_tags?: string[]
+          amount_max?: number | null
+          amount_min?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_field?: string
+          match_operator?: string
+          match_value: string
+          priority?: number
+          set_category_id?: string | null
+          set_payee_id?: string | null
+          transaction_type?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          add_tags?: string[]
+          amount_max?: number | null
+          amount_min?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          match_field?: string
+          match_operator?: string
+          match_value?: string
+          priority?: number
+          set_category_id?: string | null
+          set_payee_id?: string | null
+          transaction_type?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_rules_set_category_id_fkey"
+            columns: ["set_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_rules_set_payee_id_fkey"
+            columns: ["set_payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_splits: {
+        Row: {
+          amount: number
+          category_id: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_tags: {
+        Row: {
+          created_at: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          tag_id: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          tag_id?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transaction_tags_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transaction_trash: {
+        Row: {
+          deleted_at: string
+          id: string
+          transactions: Json
+          user_id: string
+        }
+        Insert: {
+          deleted_at?: string
+          id?: string
+          transactions: Json
+          user_id: string
+        }
+        Update: {
+          deleted_at?: string
+          id?: string
+          transactions?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
       transactions: {
         Row: {
           account_id: string
@@ -375,12 +897,22 @@ export type Database = {
           created_at: string
           currency: string
           description: string | null
+          exchange_rate: number | null
+          frequency: string | null
           goal_allocation_type: string | null
           goal_amount: number | null
           goal_id: string | null
           id: string
+          next_occurrence_date: string | null
           notes: string | null
+          payee_id: string | null
+          recurrence_end_date: string | null
+          recurrence_parent_id: string | null
+          recurrence_status: string
+          refund_of_id: string | null
+          status: string
           transaction_date: string
+          transfer_group_id: string | null
           type: string
           updated_at: string
           user_id: string
@@ -392,12 +924,22 @@ export type Database = {
           created_at?: string
           currency?: string
           description?: string | null
+          exchange_rate?: number | null
+          frequency?: string | null
           goal_allocation_type?: string | null
           goal_amount?: number | null
           goal_id?: string | null
           id?: string
+          next_occurrence_date?: string | null
           notes?: string | null
+          payee_id?: string | null
+          recurrence_end_date?: string | null
+          recurrence_parent_id?: string | null
+          recurrence_status?: string
+          refund_of_id?: string | null
+          status?: string
           transaction_date?: string
+          transfer_group_id?: string | null
           type: string
           updated_at?: string
           user_id: string
@@ -409,12 +951,22 @@ export type Database = {
           created_at?: string
           currency?: string
           description?: string | null
+          exchange_rate?: number | null
+          frequency?: string | null
           goal_allocation_type?: string | null
           goal_amount?: number | null
           goal_id?: string | null
           id?: string
+          next_occurrence_date?: string | null
           notes?: string | null
+          payee_id?: string | null
+          recurrence_end_date?: string | null
+          recurrence_parent_id?: string | null
+          recurrence_status?: string
+          refund_of_id?: string | null
+          status?: string
           transaction_date?: string
+          transfer_group_id?: string | null
           type?: string
           updated_at?: string
           user_id?: string
@@ -441,6 +993,27 @@ export type Database = {
             referencedRelation: "goals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_payee_id_fkey"
+            columns: ["payee_id"]
+            isOneToOne: false
+            referencedRelation: "payees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_recurrence_parent_id_fkey"
+            columns: ["recurrence_parent_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_refund_of_id_fkey"
+            columns: ["refund_of_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -448,11 +1021,195 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_goal_amount: {
+        Args: { p_change: number; p_goal_id: string }
+        Returns: undefined
+      }
+      apply_transaction_rules: {
+        Args: { p_transaction_id: string }
+        Returns: boolean
+      }
+      bulk_update_transactions: { Args: { p_updates: Json }; Returns: number }
       create_recurring_budgets: { Args: never; Returns: undefined }
+      create_recurring_transactions: { Args: never; Returns: number }
+      create_transaction: {
+        Args: { p_transaction: Json }
+        Returns: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          currency: string
+          description: string | null
+          exchange_rate: number | null
+          frequency: string | null
+          goal_allocation_type: string | null
+          goal_amount: number | null
+          goal_id: string | null
+          id: string
+          next_occurrence_date: string | null
+          notes: string | null
+          payee_id: string | null
+          recurrence_end_date: string | null
+          recurrence_parent_id: string | null
+          recurrence_status: string
+          refund_of_id: string | null
+          status: string
+          transaction_date: string
+          transfer_group_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_transfer: { Args: { p_transfer: Json }; Returns: string }
+      delete_transaction: { Args: { p_id: string }; Returns: undefined }
+      get_next_occurrence_date: {
+        Args: { after_date: string; anchor_date: string; frequency: string }
+        Returns: string
+      }
+      import_transactions: {
+        Args: { p_items: Json }
+        Returns: { item_index: number; message: string }[]
+      }
+      list_transactions: {
+        Args: {
+          p_cursor?: Json
+          p_filters?: Json
+          p_limit?: number
+          p_sort_field?: string
+          p_sort_order?: string
+        }
+        Returns: Json
+      }
+      merge_payees: {
+        Args: { p_source_ids: string[]; p_target_id: string }
+        Returns: undefined
+      }
+      merge_transactions: {
+        Args: { p_duplicate_ids: string[]; p_keep_id: string }
+        Returns: number
+      }
+      pay_bill: {
+        Args: { p_amount?: number; p_bill_id: string; p_date?: string }
+        Returns: string
+      }
+      preview_transaction_rule: {
+        Args: { p_limit?: number; p_rule: Json }
+        Returns: {
+          amount: number
+          category_id: string
+          currency: string
+          description: string
+          id: string
+          match_count: number
+          payee_id: string
+          transaction_date: string
+          type: string
+        }[]
+      }
+      reapply_transaction_rules: { Args: never; Returns: number }
+      reconcile_account: {
+        Args: {
+          p_account_id: string
+          p_statement_balance: number
+          p_statement_date: string
+          p_transaction_ids: string[]
+        }
+        Returns: string
+      }
+      replace_transaction_splits: {
+        Args: { p_splits: Json; p_transaction_id: string }
+        Returns: undefined
+      }
+      resolve_payee: { Args: { p_name: string }; Returns: string }
+      resolve_transfer_received_amount: {
+        Args: {
+          p_from_currency: string
+          p_rate: number
+          p_received: number
+          p_sent: number
+          p_to_currency: string
+        }
+        Returns: number
+      }
+      restore_transaction: {
+        Args: { p_trash_id: string }
+        Returns: undefined
+      }
+      resume_recurring_transaction: {
+        Args: { p_transaction_id: string }
+        Returns: string
+      }
+      set_transaction_tags: {
+        Args: { p_tags: Json; p_transaction_id: string }
+        Returns: undefined
+      }
+      skip_bill: { Args: { p_bill_id: string }; Returns: string }
+      skip_recurring_occurrence: {
+        Args: { p_transaction_id: string }
+        Returns: string
+      }
+      transaction_balance_change: {
+        Args: { t: Database["public"]["Tables"]["transactions"]["Row"] }
+        Returns: number
+      }
+      transaction_goal_change: {
+        Args: { t: Database["public"]["Tables"]["transactions"]["Row"] }
+        Returns: number
+      }
+      transaction_matches_search: {
+        Args: {
+          p_text: string
+          t: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
+      transaction_rule_matches: {
+        Args: {
+          rule: Database["public"]["Tables"]["transaction_rules"]["Row"]
+          t: Database["public"]["Tables"]["transactions"]["Row"]
+        }
+        Returns: boolean
+      }
       update_account_balance: {
         Args: { account_id: string; amount_change: number }
         Returns: undefined
       }
+      update_transaction: {
+        Args: { p_changes: Json; p_id: string }
+        Returns: {
+          account_id: string
+          amount: number
+          category_id: string | null
+          created_at: string
+          currency: string
+          description: string | null
+          exchange_rate: number | null
+          frequency: string | null
+          goal_allocation_type: string | null
+          goal_amount: number | null
+          goal_id: string | null
+          id: string
+          next_occurrence_date: string | null
+          notes: string | null
+          payee_id: string | null
+          recurrence_end_date: string | null
+          recurrence_parent_id: string | null
+          recurrence_status: string
+          refund_of_id: string | null
+          status: string
+          transaction_date: string
+          transfer_group_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      update_transfer: {
+        Args: { p_changes: Json; p_transfer_group_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -11,12 +11,20 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Plus, Wallet, CreditCard, Landmark, Coins, PiggyBank, Bitcoin, MoreHorizontal, Pencil, Trash2, Loader2, Lock, Unlock, ArrowRight } from "lucide-react";
+import { Plus, Wallet, CreditCard, Landmark, Coins, PiggyBank, Bitcoin, MoreHorizontal, Pencil, Trash2, Loader2, Lock, Unlock, ArrowRight, ClipboardCheck } from "lucide-react";
 import { ACCOUNT_TYPES, CURRENCIES, Account } from "@/types/database";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { format } from "date-fns";
+import {
+  TransferAmountFields,
+  TransferAmounts,
+  EMPTY_TRANSFER_AMOUNTS,
+  toTransferAmounts,
+  isTransferAmountsValid,
+} from "@/components/transactions/TransferAmountFields";
+import { ReconcileDialog } from "@/components/accounts/ReconcileDialog";
 
 const ACCOUNT_ICONS: Record<string, React.ElementType> = {
   bank: Landmark,
@@ -61,9 +69,10 @@ export default function Accounts() {
   const [transferData, setTransferData] = useState({
     fromAccountId: "",
     toAccountId: "",
-    amount: "",
   });
+  const [transferAmounts, setTransferAmounts] = useState<TransferAmounts>(EMPTY_TRANSFER_AMOUNTS);
   const [isTransferring, setIsTransferring] = useState(false);
+  const [reconcileAccountId, setReconcileAccountId] = useState<string | null>(null);
 
   const resetForm = () => {
     setFormData({ name: "", type: "bank", currency: "USD", balance: 0 });
@@ -110,7 +119,7 @@ export default function Accounts() {
 
   const { user } = useAuth();
   const { toast } = useToast();
-  const { createTransaction } = useTransactions();
+  const { createTransaction, createTransfer } = useTransactions();
 
   const handleVerifyPassword = async () => {
     if (!passwordInput || !reasonInput || !accountForBalanceChange) {
@@ -162,60 +171,51 @@ export default function Accounts() {
     }
   };
 
+  const transferFromAccount = accounts.find((a) => a.id === transferData.fromAccountId);
+  const transferToAccount = accounts.find((a) => a.id === transferData.toAccountId);
+  const isCrossCurrencyTransfer =
+    !!transferFromAccount && !!transferToAccount && transferFromAccount.currency !== transferToAccount.currency;
+
+  const resetTransfer = () => {
+    setTransferData({ fromAccountId: "", toAccountId: "" });
+    setTransferAmounts(EMPTY_TRANSFER_AMOUNTS);
+  };
+
   const handleTransfer = async () => {
-    if (!transferData.fromAccountId || !transferData.toAccountId || !transferData.amount) {
+    if (!transferData.fromAccountId || !transferData.toAccountId || !transferAmounts.amount) {
       toast({ title: "Error", description: "Please fill in all transfer fields", variant: "destructive" });
       return;
     }
 
-    if (parseFloat(transferData.amount) <= 0) {
-      toast({ title: "Error", description: "Transfer amount must be greater than 0", variant: "destructive" });
+    if (!isTransferAmountsValid(transferAmounts, isCrossCurrencyTransfer)) {
+      toast({ title: "Error", description: "Transfer amounts must be greater than 0", variant: "destructive" });
       return;
     }
 
     try {
       setIsTransferring(true);
-      const fromAccount = accounts.find((a) => a.id === transferData.fromAccountId);
-      const toAccount = accounts.find((a) => a.id === transferData.toAccountId);
-      const amount = parseFloat(transferData.amount);
+      const fromAccount = transferFromAccount;
+      const toAccount = transferToAccount;
+      const amounts = toTransferAmounts(transferAmounts, isCrossCurrencyTransfer);
 
       if (!fromAccount || !toAccount) {
         throw new Error("Account not found");
       }
 
-      if (Number(fromAccount.balance) < amount) {
+      if (Number(fromAccount.balance) < amounts.amount + amounts.fee) {
         throw new Error("Insufficient balance in source account");
       }
 
-      // Create transfer-sender transaction from source account
-      await createTransaction({
-        type: "transfer-sender",
-        amount: amount,
-        account_id: fromAccount.id,
-        category_id: null,
-        description: `Transfer to ${toAccount.name}`,
-        transaction_date: format(new Date(), "yyyy-MM-dd"),
-        currency: fromAccount.currency,
-        frequency: "none",
-        notes: `Transfer to ${toAccount.name}`,
-      });
-
-      // Create transfer-receiver transaction to destination account
-      await createTransaction({
-        type: "transfer-receiver",
-        amount: amount,
-        account_id: toAccount.id,
-        category_id: null,
-        description: `Transfer from ${fromAccount.name}`,
+      // Creates the linked transfer-sender and transfer-receiver legs (and fee expense) together
+      await createTransfer({
+        from_account_id: fromAccount.id,
+        to_account_id: toAccount.id,
+        ...amounts,
         transaction_date: format(new Date(), "yyyy-MM-dd"),
-        currency: toAccount.currency,
-        frequency: "none",
-        notes: `Transfer from ${fromAccount.name}`,
       });
 
-      toast({ title: "Success", description: `Transferred ${formatCurrency(amount, fromAccount.currency)} from ${fromAccount.name} to ${toAccount.name}` });
       setShowTransferModal(false);
-      setTransferData({ fromAccountId: "", toAccountId: "", amount: "" });
+      resetTransfer();
     } catch (error: any) {
       toast({ title: "Error", description: error.message, variant: "destructive" });
     } finally {
@@ -423,6 +423,10 @@ export default function Accounts() {
                           </>
                         )}
                       </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setReconcileAccountId(account.id)}>
+                        <ClipboardCheck className="mr-2 h-4 w-4" />
+                        Reconcile
+                      </DropdownMenuItem>
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-destructive">
@@ -459,6 +463,13 @@ export default function Accounts() {
         </div>
       )}
 
+      {/* Statement Reconciliation */}
+      <ReconcileDialog
+        open={!!reconcileAccountId}
+        onOpenChange={(open) => !open && setReconcileAccountId(null)}
+        account={accounts?.find((a) => a.id === reconcileAccountId) || null}
+      />
+
       {/* Password Verification Modal for Balance Change */}
       <Dialog open={showPasswordModal} onOpenChange={setShowPasswordModal}>
         <DialogContent className="sm:max-w-md">
@@ -564,18 +575,12 @@ export default function Accounts() {
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="amount">Amount</Label>
-              <Input
-                id="amount"
-                type="number"
-                placeholder="0.00"
-                value={transferData.amount}
-                onChange={(e) => setTransferData({ ...transferData, amount: e.target.value })}
-                step="0.01"
-                min="0"
-              />
-            </div>
+            <TransferAmountFields
+              fromCurrency={transferFromAccount?.currency}
+              toCurrency={transferToAccount?.currency ?? transferFromAccount?.currency}
+              value={transferAmounts}
+              onChange={setTransferAmounts}
+            />
 
             <div className="flex gap-2 pt-2">
               <Button
@@ -583,7 +588,7 @@ export default function Accounts() {
                 className="flex-1"
                 onClick={() => {
                   setShowTransferModal(false);
-                  setTransferData({ fromAccountId: "", toAccountId: "", amount: "" });
+                  resetTransfer();
                 }}
               >
                 Cancel
@@ -591,7 +596,7 @@ export default function Accounts() {
               <Button
                 className="flex-1"
                 onClick={handleTransfer}
-                disabled={!transferData.fromAccountId || !transferData.toAccountId || !transferData.amount || isTransferring}
+                disabled={!transferData.fromAccountId || !transferData.toAccountId || !transferAmounts.amount || isTransferring}
               >
                 {isTransferring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Transfer
@@ -2,12 +2,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAnalytics } from "@/hooks/useAnalytics";
 import { useProfile, formatCurrency } from "@/hooks/useProfile";
 import { AnalyticsSkeleton } from "@/components/skeletons/PageSkeletons";
-import { TrendingUp, TrendingDown, PiggyBank, BarChart3 } from "lucide-react";
+import { TrendingUp, TrendingDown, PiggyBank, BarChart3, Tag } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from "recharts";
 import { format } from "date-fns";
 
 export default function Analytics() {
-  const { monthlyData, categoryBreakdown, summary, isLoading } = useAnalytics();
+  const { monthlyData, categoryBreakdown, tagBreakdown, summary, isLoading } = useAnalytics();
   const { preferredCurrency } = useProfile();
 
   if (isLoading) {
@@ -194,6 +194,36 @@ export default function Analytics() {
             )}
           </CardContent>
         </Card>
+
+        {/* Tag Totals */}
+        <Card className="lg:col-span-2">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Tag className="h-4 w-4" />
+              Totals by Tag
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {tagBreakdown.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">No tagged transactions this month</p>
+            ) : (
+              <div className="space-y-2">
+                {tagBreakdown.map((tag) => (
+                  <div key={tag.name} className="flex items-center gap-2 text-sm">
+                    <span className="truncate font-medium text-foreground">{tag.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {tag.count} transaction{tag.count !== 1 && "s"}
+                    </span>
+                    <span className="ml-auto flex gap-4 whitespace-nowrap">
+                      {tag.income > 0 && <span className="text-accent">+{fmt(tag.income)}</span>}
+                      {tag.expenses > 0 && <span className="text-destructive">-{fmt(tag.expenses)}</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
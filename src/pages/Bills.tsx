@@ -0,0 +1,383 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { TransactionsSkeleton } from "@/components/skeletons/PageSkeletons";
+import { BillFormDialog, BILL_FREQUENCY_LABELS } from "@/components/bills/BillFormDialog";
+import { PayBillDialog } from "@/components/bills/PayBillDialog";
+import { useBills, BillInput } from "@/hooks/useBills";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { usePayees } from "@/hooks/usePayees";
+import { useProfile, formatCurrency, convertCurrency } from "@/hooks/useProfile";
+import { getDueDatesUntil } from "@/utils/billDetection";
+import type { Bill, BillPayment } from "@/types/database";
+import { AlertTriangle, CalendarClock, Check, MoreHorizontal, Pause, Pencil, Play, Plus, Receipt, SkipForward, Sparkles, Trash2 } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+// How far ahead the upcoming list looks
+const UPCOMING_DAYS = 30;
+
+interface UpcomingBill {
+  bill: Bill;
+  dueDate: string;
+  // Only the next occurrence can be paid or skipped
+  isNext: boolean;
+}
+
+const dueLabel = (dueDate: string, today: string) => {
+  const days = differenceInCalendarDays(parseISO(dueDate), parseISO(today));
+  if (days < 0) return `Missed · was due ${format(parseISO(dueDate), "MMM d")}`;
+  if (days === 0) return "Due today";
+  if (days === 1) return "Due tomorrow";
+  return `Due ${format(parseISO(dueDate), "MMM d")} · in ${days} days`;
+};
+
+export default function Bills() {
+  const { bills, payments, candidates, isLoading, createBill, updateBill, deleteBill, payBill, skipBill, isCreating, isUpdating, isPaying, isSkipping } = useBills();
+  const { accounts = [] } = useAccounts();
+  const { categories = [] } = useCategories();
+  const { payees } = usePayees();
+  const { preferredCurrency } = useProfile();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [formValues, setFormValues] = useState<Partial<BillInput> | null>(null);
+  const [payingBillId, setPayingBillId] = useState<string | null>(null);
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const accountById = useMemo(() => new Map(accounts.map((a) => [a.id, a])), [accounts]);
+  const payeeName = (id: string | null) => (id ? payees.find((p) => p.id === id)?.name : undefined);
+  const categoryName = (id: string | null) => (id ? categories.find((c) => c.id === id)?.name : undefined);
+  const billCurrency = (bill: Bill) => accountById.get(bill.account_id || "")?.currency || preferredCurrency;
+
+  // Most recent paid occurrence of each bill
+  const lastPayments = useMemo(() => {
+    const result = new Map<string, BillPayment>();
+    payments.forEach((p) => {
+      if (p.amount !== null && !result.has(p.bill_id)) result.set(p.bill_id, p);
+    });
+    return result;
+  }, [payments]);
+
+  const upcoming = useMemo(() => {
+    const until = format(addDays(parseISO(today), UPCOMING_DAYS), "yyyy-MM-dd");
+    const entries: UpcomingBill[] = [];
+    bills
+      .filter((b) => b.is_active)
+      .forEach((bill) => {
+        getDueDatesUntil(bill, until).forEach((dueDate, i) => entries.push({ bill, dueDate, isNext: i === 0 }));
+      });
+    return entries.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  }, [bills, today]);
+
+  const upcomingTotal = upcoming.reduce(
+    (sum, { bill }) => sum + convertCurrency(bill.amount, billCurrency(bill), preferredCurrency),
+    0
+  );
+  const missedCount = upcoming.filter((u) => u.dueDate < today).length;
+
+  // The last payment differed from what the bill expects
+  const changedAmount = (bill: Bill) => {
+    const last = lastPayments.get(bill.id);
+    return last && Math.abs(Number(last.amount) - bill.amount) >= 0.01 ? Number(last.amount) : null;
+  };
+
+  const openCreate = (values: Partial<BillInput> | null = null) => {
+    setEditingBill(null);
+    setFormValues(values);
+    setFormOpen(true);
+  };
+
+  const openEdit = (bill: Bill) => {
+    setEditingBill(bill);
+    setFormValues({
+      name: bill.name,
+      payee_name: payeeName(bill.payee_id) || "",
+      amount: bill.amount,
+      frequency: bill.frequency,
+      first_due_date: bill.next_due_date,
+      account_id: bill.account_id,
+      category_id: bill.category_id,
+      notes: bill.notes,
+    });
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (values: BillInput) => {
+    if (!editingBill) {
+      await createBill(values);
+      return;
+    }
+    const { first_due_date, ...rest } = values;
+    // A new due date restarts the schedule from it; otherwise the original anchor is kept
+    const schedule =
+      first_due_date !== editingBill.next_due_date || values.frequency !== editingBill.frequency
+        ? { first_due_date, next_due_date: first_due_date }
+        : {};
+    await updateBill({ id: editingBill.id, ...rest, ...schedule });
+  };
+
+  const payingBill = bills.find((b) => b.id === payingBillId) || null;
+
+  const handlePay = async ({ amount, date, updateExpected }: { amount: number; date: string; updateExpected: boolean }) => {
+    await payBill({ id: payingBillId!, amount, date });
+    if (updateExpected) await updateBill({ id: payingBillId!, amount });
+  };
+
+  const handleSkip = async (id: string) => {
+    try {
+      await skipBill(id);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleToggleActive = async (bill: Bill) => {
+    try {
+      await updateBill({ id: bill.id, is_active: !bill.is_active });
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBill(id);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  if (isLoading) return <TransactionsSkeleton />;
+
+  return (
+    <div className="space-y-6 pb-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground md:text-3xl">Bills</h1>
+          <p className="text-muted-foreground">Subscriptions and bills coming due</p>
+        </div>
+        <Button onClick={() => openCreate()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Bill
+        </Button>
+      </div>
+
+      {/* Next 30 days */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-base">Next {UPCOMING_DAYS} Days</CardTitle>
+          <div className="text-right">
+            <p className="font-semibold text-foreground">{formatCurrency(upcomingTotal, preferredCurrency)}</p>
+            {missedCount > 0 && <p className="text-xs text-destructive">{missedCount} missed</p>}
+          </div>
+        </CardHeader>
+        <CardContent className="divide-y p-0">
+          {upcoming.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-muted-foreground">Nothing due in the next {UPCOMING_DAYS} days</p>
+          ) : (
+            upcoming.map(({ bill, dueDate, isNext }) => {
+              const isMissed = dueDate < today;
+              const lastAmount = changedAmount(bill);
+              return (
+                <div key={`${bill.id}-${dueDate}`} className="flex items-center gap-3 px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-foreground">{bill.name}</p>
+                    <p className={`text-xs ${isMissed ? "text-destructive" : "text-muted-foreground"}`}>
+                      {isMissed && <AlertTriangle className="mr-1 inline h-3 w-3" />}
+                      {dueLabel(dueDate, today)}
+                    </p>
+                    {lastAmount !== null && isNext && (
+                      <p className="text-xs text-amber-600">
+                        Last paid {formatCurrency(lastAmount, billCurrency(bill))}, expected {formatCurrency(bill.amount, billCurrency(bill))}
+                      </p>
+                    )}
+                  </div>
+                  <p className="whitespace-nowrap font-semibold text-foreground">{formatCurrency(bill.amount, billCurrency(bill))}</p>
+                  {isNext && (
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="outline" onClick={() => setPayingBillId(bill.id)}>
+                        <Check className="mr-1 h-4 w-4" />
+                        Paid
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-8 w-8" title="Skip this payment" onClick={() => handleSkip(bill.id)} disabled={isSkipping}>
+                        <SkipForward className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* All bills */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">All Bills & Subscriptions</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y p-0">
+          {bills.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 px-4 py-8 text-center">
+              <Receipt className="h-10 w-10 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">No bills yet. Add one or pick a detected subscription below.</p>
+            </div>
+          ) : (
+            bills.map((bill) => {
+              const account = accountById.get(bill.account_id || "");
+              const lastPayment = lastPayments.get(bill.id);
+              const lastAmount = changedAmount(bill);
+              return (
+                <div key={bill.id} className={`flex items-center gap-3 px-4 py-3 ${bill.is_active ? "" : "opacity-60"}`}>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <p className="truncate font-medium text-foreground">{bill.name}</p>
+                      {!bill.is_active && <Badge variant="secondary">Paused</Badge>}
+                      {lastAmount !== null && (
+                        <Badge variant="outline" className="border-amber-500/50 text-amber-600">
+                          Amount changed
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[
+                        BILL_FREQUENCY_LABELS[bill.frequency],
+                        payeeName(bill.payee_id),
+                        account?.name || "No account",
+                        categoryName(bill.category_id),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      <CalendarClock className="mr-1 inline h-3 w-3" />
+                      Next {format(parseISO(bill.next_due_date), "MMM d, yyyy")}
+                      {lastPayment && ` · Last paid ${format(parseISO(lastPayment.paid_date || lastPayment.due_date), "MMM d")}`}
+                    </p>
+                  </div>
+                  <p className="whitespace-nowrap font-semibold text-foreground">{formatCurrency(bill.amount, billCurrency(bill))}</p>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => openEdit(bill)}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleToggleActive(bill)}>
+                        {bill.is_active ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                        {bill.is_active ? "Pause" : "Resume"}
+                      </DropdownMenuItem>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <DropdownMenuItem onSelect={(e) => e.preventDefault()} className="text-destructive">
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Bill?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              "{bill.name}" stops showing as due. Payments already recorded stay in your transactions.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(bill.id)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Detected subscriptions */}
+      {candidates.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Sparkles className="h-4 w-4 text-primary" />
+              Looks Like a Subscription
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">Regular payments found in your transactions</p>
+          </CardHeader>
+          <CardContent className="divide-y p-0">
+            {candidates.map((candidate) => {
+              const name = payeeName(candidate.payeeId) || candidate.name;
+              return (
+                <div key={candidate.key} className="flex items-center gap-3 px-4 py-3">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-foreground">{name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {BILL_FREQUENCY_LABELS[candidate.frequency]} · {candidate.transactionIds.length} payments · last{" "}
+                      {format(parseISO(candidate.lastDate), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  <p className="whitespace-nowrap font-semibold text-foreground">{formatCurrency(candidate.amount, candidate.currency)}</p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      openCreate({
+                        name,
+                        payee_name: payeeName(candidate.payeeId) || "",
+                        amount: candidate.amount,
+                        frequency: candidate.frequency,
+                        first_due_date: candidate.nextDueDate,
+                        account_id: candidate.accountId,
+                        category_id: candidate.categoryId,
+                      })
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Track
+                  </Button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <BillFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        initialValues={formValues}
+        isEditing={!!editingBill}
+        accounts={accounts}
+        categories={categories}
+        payees={payees}
+        onSubmit={handleSubmit}
+        isSubmitting={isCreating || isUpdating}
+      />
+
+      <PayBillDialog
+        open={!!payingBillId}
+        onOpenChange={(open) => !open && setPayingBillId(null)}
+        bill={payingBill}
+        account={payingBill ? accountById.get(payingBill.account_id || "") || null : null}
+        onPay={handlePay}
+        isPaying={isPaying || isUpdating}
+      />
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import Step3ErrorCorrection from "@/components/bulk-import/Step3ErrorCorrection"
 import StepIndicator from "@/components/bulk-import/StepIndicator";
 import { ParsedCSVRow, HeaderMapping, ValidationError } from "@/types/bulkImport";
 import { importBulkTransactions, ImportResult } from "@/utils/bulkImportService";
+import { MAX_CSV_FILE_SIZE } from "@/utils/csvParser";
 
 export default function BulkImport() {
   const navigate = useNavigate();
@@ -217,7 +218,7 @@ export default function BulkImport() {
             {currentStep === 3 && "Step 3: Review & Correct Errors"}
           </CardTitle>
           <CardDescription>
-            {currentStep === 1 && "Upload a CSV file or paste CSV data. Maximum 5MB or 500 rows."}
+            {currentStep === 1 && `Upload a CSV file or paste CSV data. Maximum ${MAX_CSV_FILE_SIZE / 1024 / 1024}MB.`}
             {currentStep === 2 && "Map your CSV columns to transaction fields."}
             {currentStep === 3 && "Review data and fix any validation errors before importing."}
           </CardDescription>
@@ -9,7 +9,6 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { CurrencyInput } from "@/components/ui/currency-input";
 import { useGoals, GoalLog } from "@/hooks/useGoals";
-import { useTransactions } from "@/hooks/useTransactions";
 import { useProfile, formatCurrency, getCurrencySymbol } from "@/hooks/useProfile";
 import { usePriorities } from "@/hooks/usePriorities";
 import { Plus, Target, PiggyBank, TrendingUp, Calendar, Flag, ArrowUpDown } from "lucide-react";
@@ -35,8 +34,7 @@ const GOAL_ICONS = [
 ];
 
 export default function Goals() {
-  const { goals, goalLogs, isLoading, createGoal, updateGoal, isCreating } = useGoals();
-  const { transactions } = useTransactions();
+  const { goals, goalLogs, goalTransactions: linkedTransactions, isLoading, createGoal, updateGoal, isCreating } = useGoals();
   const { preferredCurrency } = useProfile();
   const { priorities, initializePriorities, isLoading: prioritiesLoading } = usePriorities();
   
@@ -172,8 +170,8 @@ export default function Goals() {
   // Get transactions for selected goal
   const goalTransactions = useMemo(() => {
     if (!selectedGoal) return [];
-    return transactions.filter(t => t.goal_id === selectedGoal.id);
-  }, [selectedGoal, transactions]);
+    return linkedTransactions.filter(t => t.goal_id === selectedGoal.id);
+  }, [selectedGoal, linkedTransactions]);
 
   // Get logs for selected goal
   const selectedGoalLogs = useMemo(() => {
@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { AnalyticsSkeleton } from "@/components/skeletons/PageSkeletons";
+import { usePayees } from "@/hooks/usePayees";
+import { useProfile, formatCurrency, convertCurrency } from "@/hooks/useProfile";
+import { ArrowLeft, BarChart3, Loader2, Pencil, Trash2, TrendingDown, TrendingUp, Receipt } from "lucide-react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { format, startOfMonth, subMonths } from "date-fns";
+
+export default function PayeeDetail() {
+  const { payeeId } = useParams<{ payeeId: string }>();
+  const navigate = useNavigate();
+  const { payees, payeeTransactions, isLoading, renamePayee, deletePayee, isRenaming } = usePayees();
+  const { preferredCurrency } = useProfile();
+  const [renameOpen, setRenameOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const payee = payees.find((p) => p.id === payeeId);
+  const fmt = (amount: number) => formatCurrency(amount, preferredCurrency);
+
+  const transactions = useMemo(
+    () =>
+      payeeTransactions
+        .filter((t) => t.payee_id === payeeId)
+        .sort((a, b) => b.transaction_date.localeCompare(a.transaction_date)),
+    [payeeTransactions, payeeId]
+  );
+
+  const stats = useMemo(() => {
+    const yearStart = format(new Date(), "yyyy-01-01");
+    let spent = 0;
+    let spentThisYear = 0;
+    let received = 0;
+    let expenseCount = 0;
+    transactions.forEach((t) => {
+      const amount = convertCurrency(Number(t.amount), t.currency, preferredCurrency);
+      if (t.type === "expense") {
+        spent += amount;
+        expenseCount += 1;
+        if (t.transaction_date >= yearStart) spentThisYear += amount;
+      } else if (t.type === "income") {
+        received += amount;
+      }
+    });
+    return { spent, spentThisYear, received, average: expenseCount ? spent / expenseCount : 0 };
+  }, [transactions, preferredCurrency]);
+
+  // Monthly spending and income for the last 12 months
+  const trend = useMemo(() => {
+    const months = [];
+    for (let i = 11; i >= 0; i--) {
+      const key = format(startOfMonth(subMonths(new Date(), i)), "yyyy-MM");
+      const inMonth = transactions.filter((t) => t.transaction_date.startsWith(key));
+      const sum = (type: string) =>
+        inMonth
+          .filter((t) => t.type === type)
+          .reduce((total, t) => total + convertCurrency(Number(t.amount), t.currency, preferredCurrency), 0);
+      months.push({
+        month: format(subMonths(new Date(), i), "MMM"),
+        expenses: sum("expense"),
+        income: sum("income"),
+      });
+    }
+    return months;
+  }, [transactions, preferredCurrency]);
+
+  const handleRename = async () => {
+    if (!payee || !newName.trim()) return;
+    try {
+      await renamePayee({ id: payee.id, name: newName });
+      setRenameOpen(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!payee) return;
+    try {
+      await deletePayee(payee.id);
+      navigate("/payees");
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  if (isLoading) return <AnalyticsSkeleton />;
+
+  if (!payee) {
+    return (
+      <div className="space-y-4 py-12 text-center">
+        <p className="text-muted-foreground">Payee not found</p>
+        <Button variant="outline" onClick={() => navigate("/payees")}>Back to Payees</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/payees")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="truncate text-2xl font-bold text-foreground md:text-3xl">{payee.name}</h1>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => {
+              setNewName(payee.name);
+              setRenameOpen(true);
+            }}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setDeleteOpen(true)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <div className="rounded-full bg-destructive/10 p-2">
+                <TrendingDown className="h-4 w-4 text-destructive" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-muted-foreground">Spent this year</p>
+                <p className="text-lg font-semibold text-foreground truncate">{fmt(stats.spentThisYear)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <div className="rounded-full bg-destructive/10 p-2">
+                <TrendingDown className="h-4 w-4 text-destructive" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-muted-foreground">Spent all time</p>
+                <p className="text-lg font-semibold text-foreground truncate">{fmt(stats.spent)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <div className="rounded-full bg-primary/10 p-2">
+                <TrendingUp className="h-4 w-4 text-primary" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-muted-foreground">Received all time</p>
+                <p className="text-lg font-semibold text-foreground truncate">{fmt(stats.received)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2">
+              <div className="rounded-full bg-primary/10 p-2">
+                <Receipt className="h-4 w-4 text-primary" />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-muted-foreground">{transactions.length} transactions</p>
+                <p className="text-lg font-semibold text-foreground truncate">{fmt(stats.average)}</p>
+                <p className="text-xs text-muted-foreground">avg. expense</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trend */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <BarChart3 className="h-4 w-4" />
+            Last 12 months
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 lg:h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis dataKey="month" className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} />
+                <YAxis className="text-xs" tick={{ fill: "hsl(var(--muted-foreground))" }} tickFormatter={(v) => fmt(v)} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--background))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                  }}
+                  formatter={(value: number) => fmt(value)}
+                />
+                <Bar dataKey="expenses" fill="hsl(var(--destructive))" name="Spent" radius={[4, 4, 0, 0]} />
+                {stats.received > 0 && (
+                  <Bar dataKey="income" fill="hsl(var(--primary))" name="Received" radius={[4, 4, 0, 0]} />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recent transactions */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Transactions</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y p-0">
+          {transactions.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">No transactions with this payee</p>
+          ) : (
+            transactions.slice(0, 20).map((t) => (
+              <div key={t.id} className="flex items-center justify-between gap-2 px-6 py-3 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-foreground">{t.description || "Untitled"}</p>
+                  <p className="text-xs text-muted-foreground">{format(new Date(t.transaction_date), "MMM dd, yyyy")}</p>
+                </div>
+                <span className={`whitespace-nowrap font-semibold ${t.type === "income" ? "text-accent" : "text-destructive"}`}>
+                  {t.type === "income" ? "+" : "-"}{formatCurrency(Number(t.amount), t.currency)}
+                </span>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={renameOpen} onOpenChange={setRenameOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename Payee</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={() => setRenameOpen(false)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={handleRename} disabled={!newName.trim() || isRenaming}>
+                {isRenaming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {payee.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {transactions.length} transactions are kept but will no longer have a payee.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex gap-2">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TransactionsSkeleton } from "@/components/skeletons/PageSkeletons";
+import { usePayees } from "@/hooks/usePayees";
+import { useProfile, formatCurrency, convertCurrency } from "@/hooks/useProfile";
+import { Combine, Loader2, Search, Store } from "lucide-react";
+import { format } from "date-fns";
+
+export default function Payees() {
+  const navigate = useNavigate();
+  const { payees, payeeTransactions, isLoading, mergePayees, isMerging } = usePayees();
+  const { preferredCurrency } = useProfile();
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  const fmt = (amount: number) => formatCurrency(amount, preferredCurrency);
+
+  // Spending per payee, all time and for the current year, in the preferred currency
+  const totals = useMemo(() => {
+    const yearStart = format(new Date(), "yyyy-01-01");
+    const result: Record<string, { count: number; spent: number; spentThisYear: number; lastDate: string | null }> = {};
+    payeeTransactions.forEach((t) => {
+      if (!result[t.payee_id!]) {
+        result[t.payee_id!] = { count: 0, spent: 0, spentThisYear: 0, lastDate: null };
+      }
+      const entry = result[t.payee_id!];
+      entry.count += 1;
+      if (!entry.lastDate || t.transaction_date > entry.lastDate) entry.lastDate = t.transaction_date;
+      if (t.type !== "expense") return;
+      const amount = convertCurrency(Number(t.amount), t.currency, preferredCurrency);
+      entry.spent += amount;
+      if (t.transaction_date >= yearStart) entry.spentThisYear += amount;
+    });
+    return result;
+  }, [payeeTransactions, preferredCurrency]);
+
+  const filteredPayees = payees
+    .filter((p) => p.name.toLowerCase().includes(search.toLowerCase()))
+    .sort((a, b) => (totals[b.id]?.spentThisYear || 0) - (totals[a.id]?.spentThisYear || 0));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const openMerge = () => {
+    // Default to keeping the payee with the most transactions
+    const [mostUsed] = Array.from(selected).sort((a, b) => (totals[b]?.count || 0) - (totals[a]?.count || 0));
+    setMergeTargetId(mostUsed);
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async () => {
+    try {
+      await mergePayees({
+        targetId: mergeTargetId,
+        sourceIds: Array.from(selected).filter((id) => id !== mergeTargetId),
+      });
+      setSelected(new Set());
+      setMergeOpen(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  if (isLoading) return <TransactionsSkeleton />;
+
+  return (
+    <div className="space-y-6 pb-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground md:text-3xl">Payees</h1>
+          <p className="text-muted-foreground">Who your money goes to and comes from</p>
+        </div>
+        <Button variant="outline" onClick={openMerge} disabled={selected.size < 2}>
+          <Combine className="mr-2 h-4 w-4" />
+          Merge{selected.size >= 2 && ` (${selected.size})`}
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search payees..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {filteredPayees.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Store className="h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              {payees.length === 0 ? "No payees yet. Add a payee when recording a transaction." : "No payees match your search"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {filteredPayees.map((payee) => {
+              const stats = totals[payee.id];
+              return (
+                <div key={payee.id} className="flex items-center gap-3 px-4 py-3">
+                  <Checkbox
+                    checked={selected.has(payee.id)}
+                    onCheckedChange={(checked) => toggleSelected(payee.id, !!checked)}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => navigate(`/payees/${payee.id}`)}
+                    className="min-w-0 flex-1 text-left"
+                  >
+                    <p className="truncate font-medium text-foreground hover:underline">{payee.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {stats?.count || 0} transaction{stats?.count !== 1 && "s"}
+                      {stats?.lastDate && ` · Last ${format(new Date(stats.lastDate), "MMM dd, yyyy")}`}
+                    </p>
+                  </button>
+                  <div className="text-right">
+                    <p className="font-semibold text-foreground">{fmt(stats?.spentThisYear || 0)}</p>
+                    <p className="text-xs text-muted-foreground">this year</p>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={mergeOpen} onOpenChange={setMergeOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Merge Payees</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              All transactions of the selected payees move to the one you keep. The others are deleted.
+            </p>
+            <div className="space-y-2">
+              <Label>Keep</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger><SelectValue placeholder="Select payee" /></SelectTrigger>
+                <SelectContent>
+                  {payees
+                    .filter((p) => selected.has(p.id))
+                    .map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name} ({totals[p.id]?.count || 0})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button variant="outline" className="flex-1" onClick={() => setMergeOpen(false)}>
+                Cancel
+              </Button>
+              <Button className="flex-1" onClick={handleMerge} disabled={!mergeTargetId || isMerging}>
+                {isMerging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Merge
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TransactionsSkeleton } from "@/components/skeletons/PageSkeletons";
+import { AttachmentThumbnail } from "@/components/transactions/AttachmentThumbnail";
+import { AttachmentViewer } from "@/components/transactions/AttachmentViewer";
+import { useReceipts, useMissingReceipts, DEFAULT_RECEIPT_FILTERS, RECEIPTS_PAGE_SIZE, ReceiptFilters } from "@/hooks/useReceipts";
+import { useAccounts } from "@/hooks/useAccounts";
+import { useCategories } from "@/hooks/useCategories";
+import { formatCurrency } from "@/hooks/useProfile";
+import type { TransactionAttachment } from "@/types/database";
+import { Eye, FileImage, FilePlus, Loader2, ReceiptText, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+type ReceiptView = "all" | "missing";
+
+// Expenses from this amount up are listed as missing a receipt unless the user changes it
+const DEFAULT_MISSING_THRESHOLD = 50;
+
+const parseAmount = (value: string) => (value === "" || isNaN(Number(value)) ? null : Number(value));
+
+export default function Receipts() {
+  const navigate = useNavigate();
+  const { accounts = [] } = useAccounts();
+  const { categories = [] } = useCategories();
+
+  const [view, setView] = useState<ReceiptView>("all");
+  const [filters, setFilters] = useState<ReceiptFilters>(DEFAULT_RECEIPT_FILTERS);
+  const [threshold, setThreshold] = useState<number | null>(DEFAULT_MISSING_THRESHOLD);
+  const [limit, setLimit] = useState(RECEIPTS_PAGE_SIZE);
+  const [viewing, setViewing] = useState<TransactionAttachment | null>(null);
+
+  // The threshold stands in for the minimum amount when looking for missing receipts
+  const missingFilters = useMemo(() => ({ ...filters, amountMin: threshold }), [filters, threshold]);
+
+  const all = useReceipts(filters, limit);
+  const missing = useMissingReceipts(missingFilters, view === "missing", limit);
+
+  // Start from the first page whenever the list changes
+  useEffect(() => {
+    setLimit(RECEIPTS_PAGE_SIZE);
+  }, [view, filters, threshold]);
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name || "Deleted account";
+  const categoryName = (id: string | null) => (id ? categories.find((c) => c.id === id)?.name : undefined);
+
+  const updateFilters = (changes: Partial<ReceiptFilters>) => setFilters((prev) => ({ ...prev, ...changes }));
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(DEFAULT_RECEIPT_FILTERS);
+
+  const openTransaction = (transactionId: string) => navigate(`/transactions?edit=${transactionId}`);
+
+  const current = view === "all" ? all : missing;
+  const shownCount = view === "all" ? all.receipts.length : missing.transactions.length;
+
+  if (all.isLoading) return <TransactionsSkeleton />;
+
+  return (
+    <div className="space-y-6 pb-4">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground md:text-3xl">Receipts</h1>
+        <p className="text-muted-foreground">Every attachment across your transactions</p>
+      </div>
+
+      <Tabs value={view} onValueChange={(value) => setView(value as ReceiptView)}>
+        <TabsList className="grid w-full grid-cols-2 sm:w-auto sm:inline-grid">
+          <TabsTrigger value="all">All Receipts</TabsTrigger>
+          <TabsTrigger value="missing">Missing Receipts</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      <Card>
+        <CardContent className="grid grid-cols-2 gap-3 p-4 md:grid-cols-3 lg:grid-cols-6">
+          <div className="space-y-1">
+            <Label htmlFor="receipts-from">From</Label>
+            <Input
+              id="receipts-from"
+              type="date"
+              value={filters.dateFrom}
+              onChange={(e) => updateFilters({ dateFrom: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="receipts-to">To</Label>
+            <Input
+              id="receipts-to"
+              type="date"
+              value={filters.dateTo}
+              onChange={(e) => updateFilters({ dateTo: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Account</Label>
+            <Select value={filters.accountId} onValueChange={(value) => updateFilters({ accountId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Accounts</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Category</Label>
+            <Select value={filters.categoryId} onValueChange={(value) => updateFilters({ categoryId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories
+                  .filter((category) => view === "all" || category.type === "expense")
+                  .map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {view === "all" ? (
+            <div className="space-y-1">
+              <Label htmlFor="receipts-min">Min Amount</Label>
+              <Input
+                id="receipts-min"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Any"
+                value={filters.amountMin ?? ""}
+                onChange={(e) => updateFilters({ amountMin: parseAmount(e.target.value) })}
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label htmlFor="receipts-threshold">Expenses Over</Label>
+              <Input
+                id="receipts-threshold"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Any"
+                value={threshold ?? ""}
+                onChange={(e) => setThreshold(parseAmount(e.target.value))}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="receipts-max">Max Amount</Label>
+            <Input
+              id="receipts-max"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Any"
+              value={filters.amountMax ?? ""}
+              onChange={(e) => updateFilters({ amountMax: parseAmount(e.target.value) })}
+            />
+          </div>
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="col-span-2 justify-self-start md:col-span-3 lg:col-span-6"
+              onClick={() => setFilters(DEFAULT_RECEIPT_FILTERS)}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Clear Filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {view === "all" ? (
+        all.receipts.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+              <FileImage className="h-10 w-10 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {hasFilters ? "No receipts match these filters" : "Receipts you attach to transactions appear here"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
+            {all.receipts.map((receipt) => {
+              const transaction = receipt.transactions;
+              const isIncome = transaction.type === "income" || transaction.type === "transfer-receiver";
+              return (
+                <Card key={receipt.id} className="relative overflow-hidden">
+                  <button
+                    type="button"
+                    className="block w-full text-left"
+                    onClick={() => openTransaction(receipt.transaction_id)}
+                  >
+                    <AttachmentThumbnail
+                      attachment={receipt}
+                      size={400}
+                      className="aspect-square h-auto w-full rounded-none border-0 border-b"
+                    />
+                    <div className="space-y-0.5 p-3">
+                      <p className="truncate text-sm font-medium text-foreground">
+                        {transaction.description || receipt.file_name || "Untitled"}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {format(parseISO(transaction.transaction_date), "MMM dd, yyyy")}
+                        {" · "}
+                        {accountName(transaction.account_id)}
+                      </p>
+                      <p className={`text-sm font-semibold ${isIncome ? "text-accent" : "text-destructive"}`}>
+                        {formatCurrency(Number(transaction.amount), transaction.currency)}
+                      </p>
+                    </div>
+                  </button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 top-2 h-8 w-8 opacity-90"
+                    onClick={() => setViewing(receipt)}
+                    title="Preview"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                </Card>
+              );
+            })}
+          </div>
+        )
+      ) : missing.isLoading ? (
+        <TransactionsSkeleton />
+      ) : missing.transactions.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <ReceiptText className="h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">Every matching expense has a receipt</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {missing.transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center gap-3 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium text-foreground">{transaction.description || "Untitled"}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {format(parseISO(transaction.transaction_date), "MMM dd, yyyy")}
+                    {" · "}
+                    {accountName(transaction.account_id)}
+                    {categoryName(transaction.category_id) && ` · ${categoryName(transaction.category_id)}`}
+                  </p>
+                </div>
+                <span className="whitespace-nowrap font-semibold text-destructive">
+                  -{formatCurrency(Number(transaction.amount), transaction.currency)}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => openTransaction(transaction.id)}>
+                  <FilePlus className="h-4 w-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Add Receipt</span>
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {shownCount > 0 && (
+        <div className="flex flex-col items-center gap-2">
+          <p className="text-sm text-muted-foreground">
+            Showing {shownCount} of {current.totalCount}
+          </p>
+          {shownCount < current.totalCount && (
+            <Button variant="outline" onClick={() => setLimit((prev) => prev + RECEIPTS_PAGE_SIZE)} disabled={current.isFetching}>
+              {current.isFetching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load More
+            </Button>
+          )}
+        </div>
+      )}
+
+      <AttachmentViewer attachment={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+    </div>
+  );
+}
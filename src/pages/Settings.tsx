@@ -1,12 +1,13 @@
 import { useState } from "react";
 import { cn } from "@/lib/utils";
-import { User, Settings as SettingsIcon, Tag, Bell, Shield, Flag } from "lucide-react";
+import { User, Settings as SettingsIcon, Tag, Bell, Shield, Flag, Wand2 } from "lucide-react";
 import { ProfileSection } from "@/components/settings/ProfileSection";
 import { PreferencesSection } from "@/components/settings/PreferencesSection";
 import { CategoriesSection } from "@/components/settings/CategoriesSection";
 import { NotificationsSection } from "@/components/settings/NotificationsSection";
 import { SecuritySection } from "@/components/settings/SecuritySection";
 import { PrioritiesSection } from "@/components/settings/PrioritiesSection";
+import { RulesSection } from "@/components/settings/RulesSection";
 import {
   Accordion,
   AccordionContent,
@@ -14,13 +15,14 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 
-type SettingsTab = "profile" | "preferences" | "categories" | "priorities" | "notifications" | "security";
+type SettingsTab = "profile" | "preferences" | "categories" | "priorities" | "rules" | "notifications" | "security";
 
 const SETTINGS_TABS = [
   { id: "profile" as const, label: "Profile", icon: User, component: ProfileSection },
   { id: "preferences" as const, label: "Preferences", icon: SettingsIcon, component: PreferencesSection },
   { id: "categories" as const, label: "Categories", icon: Tag, component: CategoriesSection },
   { id: "priorities" as const, label: "Priorities", icon: Flag, component: PrioritiesSection },
+  { id: "rules" as const, label: "Rules", icon: Wand2, component: RulesSection },
   { id: "notifications" as const, label: "Notifications", icon: Bell, component: NotificationsSection },
   { id: "security" as const, label: "Security", icon: Shield, component: SecuritySection },
 ];
@@ -38,6 +40,8 @@ export default function Settings() {
         return <CategoriesSection />;
       case "priorities":
         return <PrioritiesSection />;
+      case "rules":
+        return <RulesSection />;
       case "notifications":
         return <NotificationsSection />;
       case "security":
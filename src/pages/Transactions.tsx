@@ -1,10 +1,16 @@
-import { useState, useMemo } from "react";
-import { useTransactions } from "@/hooks/useTransactions";
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useTransactionFilters, SortField, DateFilterType } from "@/hooks/useTransactionFilters";
+import { useSavedViews } from "@/hooks/useSavedViews";
+import { TRASH_RETENTION_DAYS } from "@/hooks/useTransactionTrash";
+import { useTransactions, useTransactionList, TransactionListFilters, TransactionCursor } from "@/hooks/useTransactions";
+import { useRecurringTransactions } from "@/hooks/useRecurringTransactions";
+import { useTags } from "@/hooks/useTags";
+import { usePayees } from "@/hooks/usePayees";
 import { useAccounts } from "@/hooks/useAccounts";
 import { useGoals, Goal } from "@/hooks/useGoals";
 import { useProfile, formatCurrency, getCurrencySymbol } from "@/hooks/useProfile";
 import { useAuth } from "@/contexts/AuthContext";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { TransactionsSkeleton } from "@/components/skeletons/PageSkeletons";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -17,19 +23,36 @@ import { Switch } from "@/components/ui/switch";
 import { CurrencyInput } from "@/components/ui/currency-input";
 import { Plus, ArrowUpRight, ArrowDownRight, Loader2, Trash2, Target, AlertCircle, Copy, Edit2, ChevronUp, ChevronDown, ArrowUpDown, MoreHorizontal, X, Calendar as CalendarIcon, Download, Eye, Upload } from "lucide-react";
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, subDays } from "date-fns";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { uploadTransactionAttachment } from "@/utils/cloudinary";
+import { uploadTransactionAttachment, getAttachmentDownloadUrl } from "@/utils/fileStorage";
+import { validateAttachmentFile, ATTACHMENT_ACCEPT } from "@/utils/fileFormats";
+import { compressImage, DEFAULT_IMAGE_QUALITY } from "@/utils/imageCompression";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { useTransactionAttachments } from "@/hooks/useTransactionAttachments";
-import { FileImage } from "lucide-react";
-
-type SortField = "date_created" | "amount" | "transaction_date";
-type SortOrder = "asc" | "desc";
-type DateFilterType = "all" | "this-week" | "last-7-days" | "this-month" | "last-30-days" | "this-year" | "last-365-days" | "custom-month" | "custom-year" | "custom-date";
+import { TransferEditDialog } from "@/components/transactions/TransferEditDialog";
+import { BulkEditDialog } from "@/components/transactions/BulkEditDialog";
+import { DuplicatesDialog } from "@/components/transactions/DuplicatesDialog";
+import { RefundDialog } from "@/components/transactions/RefundDialog";
+import { AttachmentThumbnail } from "@/components/transactions/AttachmentThumbnail";
+import { AttachmentViewer } from "@/components/transactions/AttachmentViewer";
+import { ReceiptCaptureDialog } from "@/components/transactions/ReceiptCaptureDialog";
+import { SearchQueryInput } from "@/components/transactions/SearchQueryInput";
+import { parseSearchQuery, combineListFilters } from "@/utils/searchQuery";
+import { useDuplicateTransactions } from "@/hooks/useDuplicateTransactions";
+import { useTransactionSuggestions } from "@/hooks/useTransactionSuggestions";
+import { TagInput } from "@/components/transactions/TagInput";
+import { PayeeInput } from "@/components/transactions/PayeeInput";
+import { TransactionHistory } from "@/components/transactions/TransactionHistory";
+import { SplitEditor, SplitLine, EMPTY_SPLIT_LINE, toSplitLines, toSplitInputs, isSplitValid } from "@/components/transactions/SplitEditor";
+import { FileImage, Repeat, SkipForward, Pause, Play, CircleStop, Bookmark, BookmarkPlus, History, CopyCheck, Circle, CircleCheck, Lock, Undo2, Sparkles, Camera } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { RecurrenceFrequency, Transaction, TransactionAttachment } from "@/types/database";
 
 type EditingTransaction = {
   id: string;
@@ -39,14 +62,26 @@ type EditingTransaction = {
   category_id: string;
   description: string;
   transaction_date: string;
-  frequency: "none" | "daily" | "weekly" | "monthly" | "yearly";
+  frequency: RecurrenceFrequency;
   notes: string;
+  // Set when the transaction is a refund of this expense
+  refund_of_id: string | null;
 } | null;
 
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  none: "None",
+  daily: "Daily",
+  "every-2-days": "Every 2 days",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
 // AttachmentCell component to display attachments for a transaction with modal
 function AttachmentCell({ transactionId }: { transactionId: string }) {
   const { attachments, isLoading } = useTransactionAttachments(transactionId);
   const [isOpen, setIsOpen] = useState(false);
+  const [viewing, setViewing] = useState<TransactionAttachment | null>(null);
   
   if (isLoading) {
     return <span className="text-muted-foreground text-xs">Loading...</span>;
@@ -56,15 +91,6 @@ function AttachmentCell({ transactionId }: { transactionId: string }) {
     return <span className="text-muted-foreground">—</span>;
   }
 
-  const handleDownload = (url: string, fileName: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -80,13 +106,11 @@ function AttachmentCell({ transactionId }: { transactionId: string }) {
         <div className="space-y-3 max-h-96 overflow-y-auto p-4">
           {attachments.map((attachment) => (
             <div key={attachment.id} className="flex items-start gap-3 border border-border rounded-lg p-3 hover:bg-muted/50 transition-colors">
-              <img 
-                src={attachment.cloudinary_url} 
-                alt={attachment.file_name || "Attachment"}
-                className="h-16 w-16 object-cover rounded border border-border/50 flex-shrink-0"
-              />
+              <button onClick={() => setViewing(attachment)} title="View">
+                <AttachmentThumbnail attachment={attachment} />
+              </button>
               <div className="flex-1 min-w-0">
-                <p className="font-medium text-sm truncate">{attachment.file_name || "Image"}</p>
+                <p className="font-medium text-sm truncate">{attachment.file_name || "Attachment"}</p>
                 <p className="text-xs text-muted-foreground">
                   {attachment.file_size ? `${(attachment.file_size / 1024 / 1024).toFixed(2)} MB` : "N/A"}
                 </p>
@@ -95,26 +119,26 @@ function AttachmentCell({ transactionId }: { transactionId: string }) {
                 )}
               </div>
               <div className="flex items-center gap-2 flex-shrink-0">
-                <a 
-                  href={attachment.cloudinary_url} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
+                <button
+                  onClick={() => setViewing(attachment)}
                   className="p-2 hover:bg-background rounded transition-colors"
                   title="View"
                 >
                   <Eye className="h-4 w-4 text-muted-foreground hover:text-foreground" />
-                </a>
-                <button
-                  onClick={() => handleDownload(attachment.cloudinary_url, attachment.file_name || "attachment")}
+                </button>
+                <a
+                  href={getAttachmentDownloadUrl(attachment)}
+                  download={attachment.file_name || "attachment"}
                   className="p-2 hover:bg-background rounded transition-colors"
                   title="Download"
                 >
                   <Download className="h-4 w-4 text-muted-foreground hover:text-foreground" />
-                </button>
+                </a>
               </div>
             </div>
           ))}
         </div>
+        <AttachmentViewer attachment={viewing} onOpenChange={(open) => !open && setViewing(null)} />
       </DialogContent>
     </Dialog>
   );
@@ -123,40 +147,68 @@ function AttachmentCell({ transactionId }: { transactionId: string }) {
 export default function Transactions() {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { transactions, categories, isLoading, createTransaction, updateTransaction, deleteTransaction, isCreating, isUpdating } = useTransactions();
+  const { categories, createTransaction, updateTransaction, deleteTransaction, createTransfer, updateTransfer, bulkUpdateTransactions, setTransactionStatus, isCreating, isUpdating, isSavingTransfer, isBulkUpdating, isSettingStatus } = useTransactions();
+  const { toast } = useToast();
+  const { pauseSeries, resumeSeries, skipNextOccurrence, endSeries } = useRecurringTransactions();
   const { accounts } = useAccounts();
   const { goals } = useGoals();
-  const { preferredCurrency } = useProfile();
+  const { groups: duplicateGroups, duplicateIds, mergeTransactions, isMerging } = useDuplicateTransactions();
+  const { tags, isLoading: isLoadingTags } = useTags();
+  const { payees, isLoading: isLoadingPayees } = usePayees();
+  const { suggest } = useTransactionSuggestions();
+  const { profile, preferredCurrency } = useProfile();
+  const imageQuality = profile?.attachment_image_quality || DEFAULT_IMAGE_QUALITY;
+  const { savedViews, createView, deleteView, isSaving: isSavingView } = useSavedViews();
   const currencySymbol = getCurrencySymbol(preferredCurrency);
   
+  // Filters, sort and page size live in the URL so back/forward and bookmarks restore them
+  const { filters, params: filterParams, updateFilters, resetFilters, applyFilterParams, isCurrentView } = useTransactionFilters();
+  const {
+    search: searchQuery,
+    type: typeFilter,
+    account: accountFilter,
+    category: categoryFilter,
+    frequency: frequencyFilter,
+    tag: tagFilter,
+    amountMin,
+    amountMax,
+    date: dateFilterType,
+    startDate: customStartDate,
+    endDate: customEndDate,
+    month: customMonth,
+    year: customYear,
+    sortField,
+    sortOrder,
+    perPage: itemsPerPage,
+  } = filters;
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<EditingTransaction>(null);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [dialogTab, setDialogTab] = useState<"details" | "history">("details");
   const [searchCategoryInput, setSearchCategoryInput] = useState("");
   const [searchMonthInput, setSearchMonthInput] = useState("");
-  const [typeFilter, setTypeFilter] = useState<"all" | "income" | "expense" | "transfer-sender" | "transfer-receiver" | "transfer">("all");
-  const [paymentMethodFilter, setPaymentMethodFilter] = useState<string>("all");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [categoryTab, setCategoryTab] = useState<"all" | "income" | "expense">("all");
-  const [accountFilter, setAccountFilter] = useState<string>("all");
   const [accountSearchInput, setAccountSearchInput] = useState("");
-  const [amountMin, setAmountMin] = useState<number | null>(null);
-  const [amountMax, setAmountMax] = useState<number | null>(null);
-  const [dateFilterType, setDateFilterType] = useState<DateFilterType>("all");
-  const [customStartDate, setCustomStartDate] = useState<string>("");
-  const [customEndDate, setCustomEndDate] = useState<string>("");
-  const [customMonth, setCustomMonth] = useState<string>("");
-  const [customYear, setCustomYear] = useState<string>(new Date().getFullYear().toString());
-  const [sortField, setSortField] = useState<SortField>("date_created");
-  const [sortOrder, setSortOrder] = useState<SortOrder>("desc");
   const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(20);
   const [allSelectedRows, setAllSelectedRows] = useState<Set<string>>(new Set());
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-
-  const [frequencyFilter, setFrequencyFilter] = useState<string>("all");
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [unlockTarget, setUnlockTarget] = useState<Transaction | null>(null);
+  const [refundTarget, setRefundTarget] = useState<Transaction | null>(null);
+  const [duplicateFocusId, setDuplicateFocusId] = useState<string | null>(null);
+
+  const [tagSearchInput, setTagSearchInput] = useState("");
+  const [formTags, setFormTags] = useState<string[]>([]);
+  const [formPayee, setFormPayee] = useState("");
+  const [editingTransfer, setEditingTransfer] = useState<Transaction | null>(null);
   const [uploadingAttachments, setUploadingAttachments] = useState<File[]>([]);
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [isPreparingAttachments, setIsPreparingAttachments] = useState(false);
+  const [isCaptureOpen, setIsCaptureOpen] = useState(false);
+  const [viewingAttachment, setViewingAttachment] = useState<TransactionAttachment | null>(null);
   const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
   const { attachments: existingAttachments } = useTransactionAttachments(editingTransactionId || undefined);
 
@@ -167,12 +219,18 @@ export default function Transactions() {
     category_id: "",
     description: "",
     transaction_date: format(new Date(), "yyyy-MM-dd"),
-    frequency: "none" as "none" | "daily" | "alternate_days" | "weekly" | "monthly" | "yearly",
+    frequency: "none" as RecurrenceFrequency,
+    recurrence_end_date: "",
     notes: "",
   });
 
   const fmt = (amount: number) => formatCurrency(amount, preferredCurrency);
 
+  const getTagNames = (transaction: Transaction) =>
+    (transaction.transaction_tags || [])
+      .map((tt) => tags.find((tag) => tag.id === tt.tag_id)?.name)
+      .filter((name): name is string => !!name);
+
   // Date filter helper
   const getDateRangeFilter = () => {
     const now = new Date();
@@ -227,115 +285,98 @@ export default function Transactions() {
     return { start, end };
   };
 
-  // Search and filter logic
-  const filteredTransactions = useMemo(() => {
-    let result = transactions;
-
-    // Type filter
-    if (typeFilter !== "all") {
-      if (typeFilter === "transfer") {
-        result = result.filter((t) => t.type === "transfer-sender" || t.type === "transfer-receiver");
-      } else {
-        result = result.filter((t) => t.type === typeFilter);
-      }
-    }
-
-    // Payment method filter (account-based)
-    if (paymentMethodFilter !== "all") {
-      result = result.filter((t) => t.account_id === paymentMethodFilter);
-    }
-
-    // Category filter
-    if (categoryFilter !== "all") {
-      result = result.filter((t) => t.category_id === categoryFilter);
-    }
-
-    // Account filter
-    if (accountFilter !== "all") {
-      result = result.filter((t) => t.account_id === accountFilter);
-    }
-
-    // Amount range filter
-    if (amountMin !== null) {
-      result = result.filter((t) => t.amount >= amountMin);
-    }
-    if (amountMax !== null) {
-      result = result.filter((t) => t.amount <= amountMax);
-    }
-
-    // Date filter
+  // Wait for typing to pause before sending the search to the server
+  const [debouncedSearch, setDebouncedSearch] = useState(searchQuery);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // The search box takes a query like amount>100 category:food "uber"; names are resolved to ids here
+  const searchLookups = useMemo(() => ({ accounts, categories, tags, payees }), [accounts, categories, tags, payees]);
+  const parsedSearch = useMemo(() => parseSearchQuery(debouncedSearch, searchLookups), [debouncedSearch, searchLookups]);
+
+  // Filters are applied server-side; "all" and empty values are left out
+  const listFilters = useMemo(() => {
+    const filters: TransactionListFilters = {};
+    if (typeFilter !== "all") filters.type = typeFilter;
+    if (accountFilter !== "all") filters.account_ids = [accountFilter];
+    if (categoryFilter !== "all") filters.category_id = categoryFilter;
+    if (tagFilter !== "all") filters.tag_id = tagFilter;
+    if (frequencyFilter !== "all") filters.frequency = frequencyFilter;
+    if (amountMin !== null) filters.amount_min = amountMin;
+    if (amountMax !== null) filters.amount_max = amountMax;
     if (dateFilterType !== "all") {
       const { start, end } = getDateRangeFilter();
       if (start && end) {
-        result = result.filter((t) => {
-          const tDate = new Date(t.transaction_date);
-          return tDate >= start && tDate <= end;
-        });
+        filters.date_from = format(start, "yyyy-MM-dd");
+        filters.date_to = format(end, "yyyy-MM-dd");
       }
     }
+    return combineListFilters(filters, parsedSearch.filters);
+  }, [typeFilter, accountFilter, categoryFilter, tagFilter, frequencyFilter, amountMin, amountMax, dateFilterType, customStartDate, customEndDate, customMonth, customYear, parsedSearch]);
+
+  // Cursor of each page after the first, so earlier pages can be revisited
+  const [pageCursors, setPageCursors] = useState<TransactionCursor[]>([]);
+  // Compared by value: the filters are rebuilt whenever the search lookups refetch
+  const listFiltersKey = JSON.stringify(listFilters);
+  useEffect(() => {
+    setCurrentPage(1);
+    setPageCursors([]);
+  }, [listFiltersKey, sortField, sortOrder, itemsPerPage]);
+
+  const {
+    transactions: paginatedTransactions,
+    transferLegs: transferLegRows,
+    totalCount,
+    nextCursor,
+    isLoading,
+  } = useTransactionList({
+    filters: listFilters,
+    sortField: sortField === "date_created" ? "created_at" : sortField,
+    sortOrder,
+    cursor: currentPage > 1 ? pageCursors[currentPage - 2] || null : null,
+    limit: itemsPerPage,
+  });
 
-    // Frequency filter
-    if (frequencyFilter !== "all") {
-      result = result.filter((t) => t.frequency === frequencyFilter);
-    }
-
-    // Search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (t) =>
-          t.description?.toLowerCase().includes(query) ||
-          t.notes?.toLowerCase().includes(query) ||
-          categories.find((c) => c.id === t.category_id)?.name?.toLowerCase().includes(query)
-      );
-    }
-
-    // Sorting
-    result.sort((a, b) => {
-      let aVal: any = a.created_at || "";
-      let bVal: any = b.created_at || "";
-
-      switch (sortField) {
-        case "date_created":
-          aVal = new Date(a.created_at || 0).getTime();
-          bVal = new Date(b.created_at || 0).getTime();
-          break;
-        case "amount":
-          aVal = a.amount || 0;
-          bVal = b.amount || 0;
-          break;
-        case "transaction_date":
-          aVal = new Date(a.transaction_date || 0).getTime();
-          bVal = new Date(b.transaction_date || 0).getTime();
-          break;
-      }
-
-      if (typeof aVal === "string") {
-        aVal = aVal.toLowerCase();
-        bVal = bVal.toLowerCase();
-      }
-
-      if (aVal < bVal) return sortOrder === "asc" ? -1 : 1;
-      if (aVal > bVal) return sortOrder === "asc" ? 1 : -1;
-      return 0;
+  // Rows seen on any page, so selections made on earlier pages can still be acted on
+  const seenTransactions = useRef(new Map<string, Transaction>());
+  paginatedTransactions.forEach((t) => seenTransactions.current.set(t.id, t));
+
+  // Legs of each linked transfer on this page, keyed by transfer_group_id
+  const transferLegs = useMemo(() => {
+    const legs = new Map<string, { sender?: Transaction; receiver?: Transaction; fee?: Transaction }>();
+    [...paginatedTransactions, ...transferLegRows].forEach((t) => {
+      if (!t.transfer_group_id) return;
+      const group = legs.get(t.transfer_group_id) || {};
+      if (t.type === "transfer-sender") group.sender = t;
+      else if (t.type === "transfer-receiver") group.receiver = t;
+      else if (t.type === "expense") group.fee = t;
+      legs.set(t.transfer_group_id, group);
     });
+    return legs;
+  }, [paginatedTransactions, transferLegRows]);
 
-    return result;
-  }, [transactions, typeFilter, paymentMethodFilter, categoryFilter, accountFilter, frequencyFilter, amountMin, amountMax, dateFilterType, customStartDate, customEndDate, customMonth, customYear, searchQuery, sortField, sortOrder, categories]);
+  // Receiving leg of a linked transfer listed as its sender row, if any
+  const getTransferReceiver = (t: Transaction) =>
+    t.type === "transfer-sender" && t.transfer_group_id ? transferLegs.get(t.transfer_group_id)?.receiver : undefined;
 
   // Pagination
-  const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
-  const paginatedTransactions = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    return filteredTransactions.slice(start, start + itemsPerPage);
-  }, [filteredTransactions, currentPage, itemsPerPage]);
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    const cursors = pageCursors.slice(0, currentPage - 1);
+    cursors[currentPage - 1] = nextCursor;
+    setPageCursors(cursors);
+    setCurrentPage(currentPage + 1);
+  };
 
   const toggleSort = (field: SortField) => {
     if (sortField === field) {
-      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+      updateFilters({ sortOrder: sortOrder === "asc" ? "desc" : "asc" });
     } else {
-      setSortField(field);
-      setSortOrder("asc");
+      updateFilters({ sortField: field, sortOrder: "asc" });
     }
   };
 
@@ -348,7 +389,41 @@ export default function Transactions() {
     );
   };
 
+  const activeView = savedViews.find((view) => isCurrentView(view.filters));
+
+  const handleSaveView = async () => {
+    if (!viewName.trim()) return;
+    try {
+      await createView({ name: viewName, filters: filterParams });
+      setSaveViewOpen(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleDeleteView = async (id: string) => {
+    try {
+      await deleteView(id);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
   const handleDuplicateTransaction = async (transaction: any) => {
+    const receiver = getTransferReceiver(transaction);
+    if (receiver) {
+      await createTransfer({
+        from_account_id: transaction.account_id,
+        to_account_id: receiver.account_id,
+        amount: transaction.amount,
+        received_amount: receiver.amount,
+        fee: transferLegs.get(transaction.transfer_group_id)?.fee?.amount,
+        transaction_date: transaction.transaction_date,
+        notes: transaction.notes || null,
+      });
+      return;
+    }
+
     const duplicateDescription = `${transaction.description} - Duplicate`;
     await createTransaction({
       type: transaction.type,
@@ -360,6 +435,10 @@ export default function Transactions() {
       currency: transaction.currency,
       frequency: transaction.frequency,
       notes: transaction.notes || null,
+      tags: getTagNames(transaction),
+      payee_id: transaction.payee_id || null,
+      refund_of_id: transaction.refund_of_id || null,
+      splits: transaction.transaction_splits?.length ? transaction.transaction_splits.map(({ category_id, amount, notes }) => ({ category_id, amount, notes })) : undefined,
     });
   };
 
@@ -381,18 +460,70 @@ export default function Transactions() {
     return paginatedTransactions.length > 0 && paginatedTransactions.every((t) => allSelectedRows.has(t.id));
   };
 
+  // Reconciled rows only change after they are unlocked from the status column
+  const notifyLocked = () => {
+    toast({
+      title: "Transaction is reconciled",
+      description: "Unlock it from the status column before editing or deleting it.",
+      variant: "destructive",
+    });
+  };
+
   const handleBulkDelete = async () => {
+    let lockedCount = 0;
     for (const id of allSelectedRows) {
-      const transaction = transactions.find((t) => t.id === id);
-      if (transaction) {
+      const transaction = seenTransactions.current.get(id);
+      if (transaction?.status === "reconciled") {
+        lockedCount++;
+      } else if (transaction) {
         await deleteTransaction(transaction);
       }
     }
+    if (lockedCount > 0) {
+      toast({ title: `${lockedCount} reconciled transaction${lockedCount !== 1 ? "s were" : " was"} kept` });
+    }
     setAllSelectedRows(new Set());
     setShowDeleteConfirm(false);
   };
 
+  const handleStatusClick = async (transaction: Transaction) => {
+    if (transaction.status === "reconciled") {
+      setUnlockTarget(transaction);
+      return;
+    }
+    try {
+      await setTransactionStatus({ ids: [transaction.id], status: transaction.status === "cleared" ? "pending" : "cleared" });
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!unlockTarget) return;
+    try {
+      await setTransactionStatus({ ids: [unlockTarget.id], status: "cleared" });
+      setUnlockTarget(null);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const selectedTransactions = Array.from(allSelectedRows)
+    .map((id) => seenTransactions.current.get(id))
+    .filter((t): t is Transaction => !!t);
+
   const handleEditTransaction = (transaction: any) => {
+    if (transaction.status === "reconciled") {
+      notifyLocked();
+      return;
+    }
+
+    // Linked transfers are edited as a whole in their own dialog
+    if (getTransferReceiver(transaction)) {
+      setEditingTransfer(transaction);
+      return;
+    }
+
     setEditingTransaction({
       id: transaction.id,
       type: transaction.type,
@@ -403,6 +534,7 @@ export default function Transactions() {
       transaction_date: transaction.transaction_date,
       frequency: transaction.frequency || "none",
       notes: transaction.notes || "",
+      refund_of_id: transaction.refund_of_id || null,
     });
     setEditingTransactionId(transaction.id);
     setFormData({
@@ -413,13 +545,60 @@ export default function Transactions() {
       description: transaction.description || "",
       transaction_date: transaction.transaction_date,
       frequency: transaction.frequency || "none",
+      recurrence_end_date: transaction.recurrence_end_date || "",
       notes: transaction.notes || "",
     });
+    setGoalEnabled(!!transaction.goal_id);
+    setSelectedGoalId(transaction.goal_id || "");
+    setGoalAllocationType(transaction.goal_allocation_type === "split" ? "split" : "all");
+    setGoalAmount(transaction.goal_amount?.toString() || "");
+    setSplitEnabled(!!transaction.transaction_splits?.length);
+    setSplitLines(toSplitLines(transaction.transaction_splits));
+    setFormTags(getTagNames(transaction));
+    setFormPayee(payees.find((p) => p.id === transaction.payee_id)?.name || "");
     setIsDialogOpen(true);
   };
 
+  // Other pages link to a transaction with ?edit=<id>, e.g. the receipts gallery
+  const [searchParams] = useSearchParams();
+  const linkedTransactionId = searchParams.get("edit");
+  useEffect(() => {
+    // Tag and payee names are filled into the form, so wait for them
+    if (!linkedTransactionId || isLoading || isLoadingTags || isLoadingPayees) return;
+    let cancelled = false;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("transactions")
+        .select("*, transaction_splits(*), transaction_tags(tag_id)")
+        .eq("id", linkedTransactionId)
+        .maybeSingle();
+      if (cancelled) return;
+
+      if (error || !data) {
+        toast({ title: "Transaction not found", variant: "destructive" });
+        updateFilters({}, { replace: true });
+      } else if (data.transfer_group_id) {
+        // Transfers are edited from their row, so show the day it's on
+        updateFilters(
+          { date: "custom-date", startDate: data.transaction_date, endDate: data.transaction_date },
+          { replace: true }
+        );
+      } else {
+        // Drops the edit parameter so closing the dialog doesn't reopen it
+        updateFilters({}, { replace: true });
+        handleEditTransaction(data);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedTransactionId, isLoading, isLoadingTags, isLoadingPayees]);
+
   const resetEditState = () => {
     setEditingTransaction(null);
+    setDialogTab("details");
     setEditingTransactionId(null);
     resetForm();
   };
@@ -430,6 +609,18 @@ export default function Transactions() {
   const [goalAllocationType, setGoalAllocationType] = useState<"all" | "split">("all");
   const [goalAmount, setGoalAmount] = useState("");
 
+  // Split state: when enabled, the lines replace the single category
+  const [splitEnabled, setSplitEnabled] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLine[]>([]);
+
+  const handleSplitToggle = (enabled: boolean) => {
+    setSplitEnabled(enabled);
+    // Start from the chosen category and the full amount on the first line
+    setSplitLines(enabled
+      ? [{ ...EMPTY_SPLIT_LINE, category_id: formData.category_id, amount: formData.amount }, { ...EMPTY_SPLIT_LINE }]
+      : []);
+  };
+
   // Get selected goal for validation
   const selectedGoal = useMemo(() => 
     goals.find((g) => g.id === selectedGoalId),
@@ -456,17 +647,22 @@ export default function Transactions() {
     // For expense (deduction from goal)
     if (formData.type === "expense" && selectedGoal) {
       const effectiveAmount = goalAllocationType === "all" ? transactionAmount : goalAmountNum;
+      // When editing, the original goal effect is reversed before the new one is applied
+      const original = editingTransaction ? seenTransactions.current.get(editingTransaction.id) : undefined;
+      const originalGoalAmount = original?.goal_id === selectedGoal.id ? original.goal_amount || 0 : 0;
+      const availableAmount = selectedGoal.current_amount +
+        (original?.type === "income" ? -originalGoalAmount : originalGoalAmount);
       
-      if (effectiveAmount > selectedGoal.current_amount) {
+      if (effectiveAmount > availableAmount) {
         if (goalAllocationType === "all") {
           return { 
             type: "error", 
-            message: `Goal only has ${fmt(selectedGoal.current_amount)}. Use "Split" to specify a smaller amount.` 
+            message: `Goal only has ${fmt(availableAmount)}. Use "Split" to specify a smaller amount.` 
           };
         } else {
           return { 
             type: "error", 
-            message: `Cannot exceed goal's available amount (${fmt(selectedGoal.current_amount)})` 
+            message: `Cannot exceed goal's available amount (${fmt(availableAmount)})` 
           };
         }
       }
@@ -487,19 +683,25 @@ export default function Transactions() {
       description: "", 
       transaction_date: format(new Date(), "yyyy-MM-dd"),
       frequency: "none",
+      recurrence_end_date: "",
       notes: "",
     });
     setGoalEnabled(false);
     setSelectedGoalId("");
     setGoalAllocationType("all");
     setGoalAmount("");
+    setSplitEnabled(false);
+    setSplitLines([]);
+    setFormTags([]);
+    setFormPayee("");
     setUploadingAttachments([]);
     setUploadProgress({});
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.account_id || !formData.amount || !formData.category_id || hasValidationError) return;
+    if (!formData.account_id || !formData.amount || hasValidationError) return;
+    if (splitEnabled ? !isSplitValid(splitLines, parseFloat(formData.amount) || 0) : !formData.category_id) return;
     
     console.log("[v0] FORM SUBMIT: Starting transaction form submission", {
       hasAttachments: uploadingAttachments.length > 0,
@@ -528,7 +730,12 @@ export default function Transactions() {
       ...formData,
       amount: transactionAmount,
       currency: account?.currency || "USD",
-      category_id: formData.category_id || null,
+      category_id: splitEnabled ? null : formData.category_id || null,
+      // An empty list clears any existing split lines
+      splits: splitEnabled ? toSplitInputs(splitLines) : [],
+      tags: formTags,
+      payee_name: formPayee.trim() || null,
+      recurrence_end_date: formData.frequency !== "none" && formData.recurrence_end_date ? formData.recurrence_end_date : null,
       goal_id: finalGoalId,
       goal_amount: finalGoalAmount,
       goal_allocation_type: finalGoalAllocationType,
@@ -568,7 +775,7 @@ export default function Transactions() {
         for (const file of uploadingAttachments) {
           try {
             setUploadProgress((prev) => ({ ...prev, [file.name]: 10 }));
-            console.log("[v0] FORM SUBMIT: Uploading file to Cloudinary", {
+            console.log("[v0] FORM SUBMIT: Uploading file", {
               fileName: file.name,
               fileSize: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
             });
@@ -576,8 +783,9 @@ export default function Transactions() {
             const uploadedFile = await uploadTransactionAttachment(file);
             setUploadProgress((prev) => ({ ...prev, [file.name]: 50 }));
 
-            console.log("[v0] FORM SUBMIT: File uploaded to Cloudinary, saving to database", {
-              publicId: uploadedFile.public_id,
+            console.log("[v0] FORM SUBMIT: File uploaded, saving to database", {
+              provider: uploadedFile.provider,
+              path: uploadedFile.path,
               userId: user?.id,
             });
 
@@ -587,11 +795,12 @@ export default function Transactions() {
               {
                 transaction_id: createdTransactionId,
                 user_id: user.id,
-                cloudinary_public_id: uploadedFile.public_id,
-                cloudinary_url: uploadedFile.secure_url,
-                file_name: uploadedFile.original_filename,
+                cloudinary_public_id: uploadedFile.path,
+                cloudinary_url: uploadedFile.url,
+                file_name: uploadedFile.file_name,
                 file_size: uploadedFile.bytes,
-                file_type: file.type,
+                file_type: uploadedFile.file_type,
+                storage_provider: uploadedFile.provider,
               },
             ]);
 
@@ -624,6 +833,8 @@ export default function Transactions() {
 
   const handleTypeChange = (type: "income" | "expense") => {
     setFormData({ ...formData, type, category_id: "" });
+    setSplitEnabled(false);
+    setSplitLines([]);
     // Reset goal state when changing type
     setGoalEnabled(false);
     setSelectedGoalId("");
@@ -636,6 +847,20 @@ export default function Transactions() {
 
   const incomeCategories = categories.filter((c) => c.type === "income");
   const expenseCategories = categories.filter((c) => c.type === "expense");
+  // Refunds are filed under the expense category they pay back
+  const formCategories = formData.type === "income" && !editingTransaction?.refund_of_id ? incomeCategories : expenseCategories;
+
+  // What similar past transactions used, offered while adding a new one
+  const formSuggestion = editingTransaction ? null : suggest(formData.description, formData.type);
+  const suggestedCategory = formSuggestion && !splitEnabled && formSuggestion.category_id !== formData.category_id
+    ? formCategories.find((c) => c.id === formSuggestion.category_id)
+    : undefined;
+  const suggestedAccount = formSuggestion && formSuggestion.account_id !== formData.account_id
+    ? accounts.find((a) => a.id === formSuggestion.account_id)
+    : undefined;
+  const suggestedPayee = formSuggestion
+    ? payees.find((p) => p.id === formSuggestion.payee_id && p.name.toLowerCase() !== formPayee.trim().toLowerCase())
+    : undefined;
 
   // Filter goals - only active, non-archived goals, and for expenses only show goals with available amount
   const availableGoals = formData.type === "expense" 
@@ -657,6 +882,30 @@ export default function Transactions() {
             <Upload className="h-4 w-4" />
             <span className="hidden sm:inline">Bulk Import</span>
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => navigate("/transactions/trash")}
+            className="gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="hidden sm:inline">Trash</span>
+          </Button>
+          {duplicateGroups.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setDuplicateFocusId(null);
+                setDuplicatesOpen(true);
+              }}
+              className="gap-2"
+            >
+              <CopyCheck className="h-4 w-4" />
+              <span className="hidden sm:inline">Duplicates</span>
+              <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">{duplicateGroups.length}</Badge>
+            </Button>
+          )}
           <Dialog open={isDialogOpen} onOpenChange={(open) => { 
             setIsDialogOpen(open); 
             if (!open) resetEditState(); 
@@ -671,13 +920,36 @@ export default function Transactions() {
             <DialogHeader>
               <DialogTitle>{editingTransaction ? "Edit" : "Add"} Transaction</DialogTitle>
             </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <Tabs value={formData.type} onValueChange={(v) => handleTypeChange(v as "income" | "expense")}>
+            {editingTransaction && (
+              <Tabs value={dialogTab} onValueChange={(v) => setDialogTab(v as "details" | "history")}>
                 <TabsList className="grid w-full grid-cols-2">
-                  <TabsTrigger value="expense">Expense</TabsTrigger>
-                  <TabsTrigger value="income">Income</TabsTrigger>
+                  <TabsTrigger value="details">Details</TabsTrigger>
+                  <TabsTrigger value="history">
+                    <History className="mr-2 h-4 w-4" />
+                    History
+                  </TabsTrigger>
                 </TabsList>
               </Tabs>
+            )}
+            {editingTransaction && dialogTab === "history" ? (
+              <TransactionHistory
+                transactionId={editingTransaction.id}
+                currency={accounts.find((a) => a.id === formData.account_id)?.currency || preferredCurrency}
+              />
+            ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {editingTransaction?.refund_of_id ? (
+                <p className="rounded-lg border bg-muted/30 px-3 py-2 text-sm text-muted-foreground">
+                  Refund of an expense. It comes off its category's spending instead of counting as income.
+                </p>
+              ) : (
+                <Tabs value={formData.type} onValueChange={(v) => handleTypeChange(v as "income" | "expense")}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="expense">Expense</TabsTrigger>
+                    <TabsTrigger value="income">Income</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              )}
 
               {/* Title - Top */}
               <div className="space-y-2">
@@ -688,6 +960,45 @@ export default function Transactions() {
                   onChange={(e) => setFormData({ ...formData, description: e.target.value })} 
                   required
                 />
+                {(suggestedCategory || suggestedAccount || suggestedPayee) && (
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    <Sparkles className="h-3 w-3" />
+                    <span>Usually:</span>
+                    {suggestedCategory && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, category_id: suggestedCategory.id })}
+                        className="rounded border px-2 py-0.5 hover:bg-muted"
+                      >
+                        {suggestedCategory.name}
+                      </button>
+                    )}
+                    {suggestedAccount && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, account_id: suggestedAccount.id })}
+                        className="rounded border px-2 py-0.5 hover:bg-muted"
+                      >
+                        {suggestedAccount.name}
+                      </button>
+                    )}
+                    {suggestedPayee && (
+                      <button
+                        type="button"
+                        onClick={() => setFormPayee(suggestedPayee.name)}
+                        className="rounded border px-2 py-0.5 hover:bg-muted"
+                      >
+                        {suggestedPayee.name}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Payee */}
+              <div className="space-y-2">
+                <Label>Payee</Label>
+                <PayeeInput value={formPayee} onChange={setFormPayee} payees={payees} />
               </div>
 
               {/* Amount & Transaction Date - Half Width */}
@@ -742,18 +1053,39 @@ export default function Transactions() {
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Category <span className="text-destructive">*</span></Label>
-                  <Select value={formData.category_id} onValueChange={(v) => setFormData({ ...formData, category_id: v })}>
-                    <SelectTrigger className={!formData.category_id ? "border-destructive" : ""}><SelectValue placeholder="Select category" /></SelectTrigger>
-                    <SelectContent>
-                      {(formData.type === "income" ? incomeCategories : expenseCategories).map((c) => (
-                        <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex items-center justify-between">
+                    <Label>Category <span className="text-destructive">*</span></Label>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="split-toggle" className="text-xs font-normal text-muted-foreground">Split</Label>
+                      <Switch id="split-toggle" checked={splitEnabled} onCheckedChange={handleSplitToggle} />
+                    </div>
+                  </div>
+                  {splitEnabled ? (
+                    <p className="pt-2 text-sm text-muted-foreground">Split across {splitLines.length} categories</p>
+                  ) : (
+                    <Select value={formData.category_id} onValueChange={(v) => setFormData({ ...formData, category_id: v })}>
+                      <SelectTrigger className={!formData.category_id ? "border-destructive" : ""}><SelectValue placeholder="Select category" /></SelectTrigger>
+                      <SelectContent>
+                        {formCategories.map((c) => (
+                          <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
               </div>
 
+              {splitEnabled && (
+                <SplitEditor
+                  lines={splitLines}
+                  onChange={setSplitLines}
+                  categories={formCategories}
+                  total={parseFloat(formData.amount) || 0}
+                  currencySymbol={currencySymbol}
+                  formatAmount={fmt}
+                />
+              )}
+
               {/* Frequency & Notes */}
               <div className="grid gap-4 sm:grid-cols-2">
                 <div className="space-y-2">
@@ -763,12 +1095,24 @@ export default function Transactions() {
                     <SelectContent>
                       <SelectItem value="none">None</SelectItem>
                       <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="every-2-days">Every 2 days</SelectItem>
                       <SelectItem value="weekly">Weekly</SelectItem>
                       <SelectItem value="monthly">Monthly</SelectItem>
                       <SelectItem value="yearly">Yearly</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {formData.frequency !== "none" && (
+                  <div className="space-y-2">
+                    <Label>Repeat Until (optional)</Label>
+                    <Input
+                      type="date"
+                      value={formData.recurrence_end_date}
+                      min={formData.transaction_date}
+                      onChange={(e) => setFormData({ ...formData, recurrence_end_date: e.target.value })}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Notes */}
@@ -781,45 +1125,44 @@ export default function Transactions() {
                 />
               </div>
 
+              {/* Tags */}
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <TagInput value={formTags} onChange={setFormTags} suggestions={tags} />
+              </div>
+
               {/* Attachments */}
               <div className="space-y-2">
                 <Label>Attachments</Label>
                 <div className="flex items-center gap-2">
                   <Input 
                     type="file"
-                    accept=".jpg,.jpeg,.png,.webp"
+                    accept={ATTACHMENT_ACCEPT}
                     multiple
-                    onChange={(e) => {
+                    disabled={isPreparingAttachments}
+                    onChange={async (e) => {
                       const files = Array.from(e.target.files || []);
                       const validFiles: File[] = [];
                       
-                      for (const file of files) {
-                        // Validate file type
-                        const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
-                        if (!allowedTypes.includes(file.type)) {
-                          console.log("[v0] FILE VALIDATION: Invalid file type", {
+                      setIsPreparingAttachments(true);
+                      for (const selected of files) {
+                        // Photos are resized first, so only the result has to fit the limit
+                        const file = await compressImage(selected, imageQuality);
+                        // Images (HEIC is converted on upload) and PDFs up to 6MB
+                        const validation = validateAttachmentFile(file);
+                        if (!validation.isValid) {
+                          console.log("[v0] FILE VALIDATION: Invalid attachment", {
                             fileName: file.name,
                             fileType: file.type,
-                            allowedTypes,
-                          });
-                          alert(`${file.name} has an invalid format. Only JPG, JPEG, PNG, and WebP images are allowed.`);
-                          continue;
-                        }
-
-                        // Validate file size (6MB = 6291456 bytes)
-                        const MAX_SIZE = 6 * 1024 * 1024;
-                        if (file.size > MAX_SIZE) {
-                          console.log("[v0] FILE VALIDATION: File size exceeds limit", {
-                            fileName: file.name,
-                            fileSize: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
-                            maxSize: `${(MAX_SIZE / 1024 / 1024).toFixed(2)}MB`,
+                            error: validation.error,
                           });
-                          alert(`${file.name} exceeds the 6MB size limit. File size: ${(file.size / 1024 / 1024).toFixed(2)}MB`);
+                          alert(`${file.name}: ${validation.error}`);
                           continue;
                         }
 
                         validFiles.push(file);
                       }
+                      setIsPreparingAttachments(false);
 
                       if (validFiles.length > 0) {
                         setUploadingAttachments(prev => [...prev, ...validFiles]);
@@ -827,7 +1170,28 @@ export default function Transactions() {
                     }}
                     className="cursor-pointer"
                   />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="flex-shrink-0"
+                    onClick={() => setIsCaptureOpen(true)}
+                    title="Scan receipt"
+                  >
+                    <Camera className="h-4 w-4" />
+                  </Button>
                 </div>
+                <p className="text-xs text-muted-foreground">
+                  {isPreparingAttachments
+                    ? "Resizing photos..."
+                    : "JPG, PNG, WebP, HEIC or PDF. Photos are resized to fit 6MB."}
+                </p>
+                <ReceiptCaptureDialog
+                  open={isCaptureOpen}
+                  onOpenChange={setIsCaptureOpen}
+                  quality={imageQuality}
+                  onCapture={(file) => setUploadingAttachments(prev => [...prev, file])}
+                />
                 {/* Existing Attachments */}
                 {existingAttachments.length > 0 && (
                   <div className="mt-3 rounded bg-accent/10 p-2 border border-accent/20">
@@ -835,15 +1199,16 @@ export default function Transactions() {
                     <div className="space-y-1">
                       {existingAttachments.map((attachment) => (
                         <div key={attachment.id} className="flex items-center gap-2 text-sm">
-                          <FileImage className="h-3 w-3 text-accent" />
-                          <a
-                            href={attachment.cloudinary_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-accent hover:underline truncate flex-1"
+                          <button type="button" onClick={() => setViewingAttachment(attachment)} title="View">
+                            <AttachmentThumbnail attachment={attachment} className="h-10 w-10" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setViewingAttachment(attachment)}
+                            className="text-accent hover:underline truncate flex-1 text-left"
                           >
-                            {attachment.file_name || "Image"}
-                          </a>
+                            {attachment.file_name || "Attachment"}
+                          </button>
                           <span className="text-xs text-muted-foreground">
                             {(attachment.file_size / 1024 / 1024).toFixed(2)}MB
                           </span>
@@ -852,14 +1217,20 @@ export default function Transactions() {
                     </div>
                   </div>
                 )}
+                <AttachmentViewer attachment={viewingAttachment} onOpenChange={(open) => !open && setViewingAttachment(null)} />
 
                 {/* New Attachments to Upload */}
                 {uploadingAttachments.length > 0 && (
                   <div className="mt-2 space-y-1 rounded bg-muted p-2">
                     <p className="text-xs font-semibold text-muted-foreground mb-1">New Files:</p>
                     {uploadingAttachments.map((file, idx) => (
-                      <div key={idx} className="flex items-center justify-between text-sm">
-                        <span>{file.name} ({(file.size / 1024 / 1024).toFixed(2)}MB)</span>
+                      <div key={idx} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0 flex-1 space-y-1">
+                          <span className="block truncate">{file.name} ({(file.size / 1024 / 1024).toFixed(2)}MB)</span>
+                          {uploadProgress[file.name] !== undefined && (
+                            <Progress value={uploadProgress[file.name]} className="h-1" />
+                          )}
+                        </div>
                         <Button
                           type="button"
                           variant="ghost"
@@ -963,10 +1334,11 @@ export default function Transactions() {
                 </div>
               )}
 
-              <Button type="submit" className="w-full" disabled={isCreating || !formData.account_id || hasValidationError}>
+              <Button type="submit" className="w-full" disabled={isCreating || !formData.account_id || hasValidationError || (splitEnabled && !isSplitValid(splitLines, parseFloat(formData.amount) || 0))}>
                 {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Add Transaction
               </Button>
             </form>
+            )}
           </DialogContent>
           </Dialog>
         </div>
@@ -974,20 +1346,66 @@ export default function Transactions() {
 
       {/* Search and Filters - One Line on PC */}
       <div className="flex flex-col gap-2 lg:flex-row lg:items-center lg:gap-2">
-        <Input
-          placeholder="Search transactions..."
+        <SearchQueryInput
           value={searchQuery}
-          onChange={(e) => {
-            setSearchQuery(e.target.value);
+          onChange={(value) => {
+            updateFilters({ search: value }, { replace: true });
             setCurrentPage(1);
           }}
+          lookups={searchLookups}
+          errors={parsedSearch.errors}
           className="flex-1"
         />
         
         <div className="flex flex-wrap gap-2 lg:flex-nowrap">
+          {/* Saved Views */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full lg:w-auto min-w-[130px]">
+                <Bookmark className="mr-2 h-4 w-4" />
+                <span className="max-w-[160px] truncate">{activeView ? activeView.name : "Views"}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-64" align="end">
+              {savedViews.length === 0 ? (
+                <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</p>
+              ) : (
+                savedViews.map((view) => (
+                  <DropdownMenuItem
+                    key={view.id}
+                    onClick={() => applyFilterParams(view.filters)}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate">{view.name} {activeView?.id === view.id && "✓"}</span>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteView(view.id);
+                      }}
+                      className="text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </DropdownMenuItem>
+                ))
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => {
+                  setViewName("");
+                  setSaveViewOpen(true);
+                }}
+              >
+                <BookmarkPlus className="mr-2 h-4 w-4" />
+                Save current view
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           {/* Type Filter */}
           <Select value={typeFilter} onValueChange={(v: any) => {
-            setTypeFilter(v);
+            updateFilters({ type: v });
             setCurrentPage(1);
           }}>
             <SelectTrigger className="w-full lg:w-auto min-w-[130px]">
@@ -1019,7 +1437,7 @@ export default function Transactions() {
                 <div className="space-y-1 max-h-48 overflow-y-auto">
                   <button
                     onClick={() => {
-                      setAccountFilter("all");
+                      updateFilters({ account: "all" });
                       setCurrentPage(1);
                     }}
                     className={`w-full text-left px-3 py-2 rounded text-sm ${accountFilter === "all" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1032,7 +1450,7 @@ export default function Transactions() {
                       <button
                         key={acc.id}
                         onClick={() => {
-                          setAccountFilter(acc.id);
+                          updateFilters({ account: acc.id });
                           setCurrentPage(1);
                         }}
                         className={`w-full text-left px-3 py-2 rounded text-sm ${accountFilter === acc.id ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1062,7 +1480,7 @@ export default function Transactions() {
                 />
                 <Tabs value={categoryTab} onValueChange={(v: any) => {
                   setCategoryTab(v);
-                  setCategoryFilter("all");
+                  updateFilters({ category: "all" });
                 }}>
                   <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="all">All</TabsTrigger>
@@ -1073,7 +1491,7 @@ export default function Transactions() {
                 <div className="space-y-1 max-h-48 overflow-y-auto">
                   <button
                     onClick={() => {
-                      setCategoryFilter("all");
+                      updateFilters({ category: "all" });
                       setCurrentPage(1);
                     }}
                     className={`w-full text-left px-3 py-2 rounded text-sm ${categoryFilter === "all" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1086,7 +1504,7 @@ export default function Transactions() {
                       <button
                         key={cat.id}
                         onClick={() => {
-                          setCategoryFilter(cat.id);
+                          updateFilters({ category: cat.id });
                           setCurrentPage(1);
                         }}
                         className={`w-full text-left px-3 py-2 rounded text-sm ${categoryFilter === cat.id ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1100,7 +1518,7 @@ export default function Transactions() {
                       <button
                         key={cat.id}
                         onClick={() => {
-                          setCategoryFilter(cat.id);
+                          updateFilters({ category: cat.id });
                           setCurrentPage(1);
                         }}
                         className={`w-full text-left px-3 py-2 rounded text-sm ${categoryFilter === cat.id ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1124,7 +1542,7 @@ export default function Transactions() {
               <div className="space-y-1">
                 <button
                   onClick={() => {
-                    setFrequencyFilter("all");
+                    updateFilters({ frequency: "all" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "all" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1133,7 +1551,7 @@ export default function Transactions() {
                 </button>
                 <button
                   onClick={() => {
-                    setFrequencyFilter("none");
+                    updateFilters({ frequency: "none" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "none" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1142,17 +1560,26 @@ export default function Transactions() {
                 </button>
                 <button
                   onClick={() => {
-                    setFrequencyFilter("daily");
+                    updateFilters({ frequency: "daily" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "daily" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
                 >
                   Daily
                 </button>
+                <button
+                  onClick={() => {
+                    updateFilters({ frequency: "every-2-days" });
+                    setCurrentPage(1);
+                  }}
+                  className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "every-2-days" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                >
+                  Every 2 days
+                </button>
 
                 <button
                   onClick={() => {
-                    setFrequencyFilter("weekly");
+                    updateFilters({ frequency: "weekly" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "weekly" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1161,7 +1588,7 @@ export default function Transactions() {
                 </button>
                 <button
                   onClick={() => {
-                    setFrequencyFilter("monthly");
+                    updateFilters({ frequency: "monthly" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "monthly" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1170,7 +1597,7 @@ export default function Transactions() {
                 </button>
                 <button
                   onClick={() => {
-                    setFrequencyFilter("yearly");
+                    updateFilters({ frequency: "yearly" });
                     setCurrentPage(1);
                   }}
                   className={`w-full text-left px-3 py-2 rounded text-sm ${frequencyFilter === "yearly" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1181,6 +1608,50 @@ export default function Transactions() {
             </DropdownMenuContent>
           </DropdownMenu>
 
+          {/* Tag Filter with Search */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full lg:w-auto">
+                Tag {(tagFilter !== "all") && "✓"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="w-56 p-4" align="end">
+              <div className="space-y-3">
+                <Input
+                  placeholder="Search tags..."
+                  value={tagSearchInput}
+                  onChange={(e) => setTagSearchInput(e.target.value.toLowerCase())}
+                  className="h-8"
+                />
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  <button
+                    onClick={() => {
+                      updateFilters({ tag: "all" });
+                      setCurrentPage(1);
+                    }}
+                    className={`w-full text-left px-3 py-2 rounded text-sm ${tagFilter === "all" ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                  >
+                    All Tags
+                  </button>
+                  {tags
+                    .filter((tag) => tag.name.toLowerCase().includes(tagSearchInput))
+                    .map((tag) => (
+                      <button
+                        key={tag.id}
+                        onClick={() => {
+                          updateFilters({ tag: tag.id });
+                          setCurrentPage(1);
+                        }}
+                        className={`w-full text-left px-3 py-2 rounded text-sm ${tagFilter === tag.id ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                      >
+                        {tag.name}
+                      </button>
+                    ))}
+                </div>
+              </div>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           {/* Amount Range Dropdown */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -1197,7 +1668,7 @@ export default function Transactions() {
                     placeholder="Min"
                     value={amountMin ?? ""}
                     onChange={(e) => {
-                      setAmountMin(e.target.value ? parseFloat(e.target.value) : null);
+                      updateFilters({ amountMin: e.target.value ? parseFloat(e.target.value) : null }, { replace: true });
                       setCurrentPage(1);
                     }}
                   />
@@ -1209,7 +1680,7 @@ export default function Transactions() {
                     placeholder="Max"
                     value={amountMax ?? ""}
                     onChange={(e) => {
-                      setAmountMax(e.target.value ? parseFloat(e.target.value) : null);
+                      updateFilters({ amountMax: e.target.value ? parseFloat(e.target.value) : null }, { replace: true });
                       setCurrentPage(1);
                     }}
                   />
@@ -1228,7 +1699,7 @@ export default function Transactions() {
             <DropdownMenuContent className="w-80 p-4" align="end">
               <div className="space-y-3">
                 <Select value={dateFilterType} onValueChange={(v: any) => {
-                  setDateFilterType(v);
+                  updateFilters({ date: v });
                   setCurrentPage(1);
                 }}>
                   <SelectTrigger>
@@ -1269,7 +1740,7 @@ export default function Transactions() {
                             selected={customStartDate ? new Date(customStartDate) : undefined}
                             onSelect={(date) => {
                               if (date) {
-                                setCustomStartDate(format(date, "yyyy-MM-dd"));
+                                updateFilters({ startDate: format(date, "yyyy-MM-dd") });
                                 setCurrentPage(1);
                               }
                             }}
@@ -1296,7 +1767,7 @@ export default function Transactions() {
                             selected={customEndDate ? new Date(customEndDate) : undefined}
                             onSelect={(date) => {
                               if (date) {
-                                setCustomEndDate(format(date, "yyyy-MM-dd"));
+                                updateFilters({ endDate: format(date, "yyyy-MM-dd") });
                                 setCurrentPage(1);
                               }
                             }}
@@ -1318,7 +1789,7 @@ export default function Transactions() {
                         placeholder="2026"
                         value={customYear}
                         onChange={(e) => {
-                          setCustomYear(e.target.value);
+                          updateFilters({ year: e.target.value }, { replace: true });
                           setCurrentPage(1);
                         }}
                         min={2000}
@@ -1345,7 +1816,7 @@ export default function Transactions() {
                             <button
                               key={month}
                               onClick={() => {
-                                setCustomMonth(monthValue);
+                                updateFilters({ month: monthValue });
                                 setCurrentPage(1);
                               }}
                               className={`w-full text-left px-3 py-2 text-sm ${customMonth === monthValue ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
@@ -1368,7 +1839,7 @@ export default function Transactions() {
                       placeholder="2026"
                       value={customYear}
                       onChange={(e) => {
-                        setCustomYear(e.target.value);
+                        updateFilters({ year: e.target.value }, { replace: true });
                         setCurrentPage(1);
                       }}
                       min={2000}
@@ -1381,24 +1852,11 @@ export default function Transactions() {
           </DropdownMenu>
 
           {/* Clear Filters Button - Show when 2+ filters active */}
-          {((typeFilter !== "all" ? 1 : 0) + (paymentMethodFilter !== "all" ? 1 : 0) + (categoryFilter !== "all" ? 1 : 0) + (frequencyFilter !== "all" ? 1 : 0) + (amountMin !== null || amountMax !== null ? 1 : 0) + (dateFilterType !== "all" ? 1 : 0) + (searchQuery ? 1 : 0)) >= 2 && (
+          {((typeFilter !== "all" ? 1 : 0) + (accountFilter !== "all" ? 1 : 0) + (categoryFilter !== "all" ? 1 : 0) + (frequencyFilter !== "all" ? 1 : 0) + (tagFilter !== "all" ? 1 : 0) + (amountMin !== null || amountMax !== null ? 1 : 0) + (dateFilterType !== "all" ? 1 : 0) + (searchQuery ? 1 : 0)) >= 2 && (
             <Button 
               variant="outline" 
               size="sm"
-              onClick={() => {
-                setSearchQuery("");
-                setTypeFilter("all");
-                setPaymentMethodFilter("all");
-                setCategoryFilter("all");
-                setFrequencyFilter("all");
-                setAmountMin(null);
-                setAmountMax(null);
-                setDateFilterType("all");
-                setCustomStartDate("");
-                setCustomEndDate("");
-                setCustomMonth("");
-                setCurrentPage(1);
-              }}
+              onClick={resetFilters}
               className="w-full lg:w-auto"
             >
               <X className="h-4 w-4 mr-1" />
@@ -1422,6 +1880,14 @@ export default function Transactions() {
             >
               Reset Selected
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowBulkEdit(true)}
+            >
+              <Edit2 className="mr-2 h-4 w-4" />
+              Edit ({allSelectedRows.size})
+            </Button>
             <Button
               variant="destructive"
               size="sm"
@@ -1477,6 +1943,9 @@ export default function Transactions() {
                       {getSortIcon("date_created")}
                     </div>
                   </th>
+                  <th className="px-2 py-3 text-center font-semibold text-foreground w-10" title="Pending, cleared or reconciled">
+                    <CircleCheck className="mx-auto h-4 w-4" />
+                  </th>
                   <th className="px-4 py-3 text-center font-semibold text-foreground w-12">Actions</th>
                 </tr>
               </thead>
@@ -1497,9 +1966,63 @@ export default function Transactions() {
                         }}
                       />
                     </td>
-                    <td className="px-4 py-3 font-medium text-foreground">{transaction.description || "Untitled"}</td>
+                    <td className="px-4 py-3 font-medium text-foreground">
+                      {transaction.description || "Untitled"}
+                      {duplicateIds.has(transaction.id) && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setDuplicateFocusId(transaction.id);
+                            setDuplicatesOpen(true);
+                          }}
+                          className="ml-2 inline-flex items-center gap-1 rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-normal text-amber-600 hover:underline"
+                        >
+                          <CopyCheck className="h-3 w-3" />
+                          Possible duplicate
+                        </button>
+                      )}
+                      {transaction.payee_id && payees.some((p) => p.id === transaction.payee_id) && (
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/payees/${transaction.payee_id}`)}
+                          className="block text-xs font-normal text-muted-foreground hover:underline"
+                        >
+                          {payees.find((p) => p.id === transaction.payee_id)?.name}
+                        </button>
+                      )}
+                      {transaction.frequency && transaction.frequency !== "none" && (
+                        <div className="mt-0.5 flex items-center gap-1 text-xs font-normal text-muted-foreground">
+                          <Repeat className="h-3 w-3" />
+                          {FREQUENCY_LABELS[transaction.frequency]}
+                          {transaction.recurrence_status === "paused"
+                            ? " · Paused"
+                            : transaction.recurrence_status === "ended"
+                              ? " · Ended"
+                              : transaction.next_occurrence_date && ` · Next ${format(new Date(transaction.next_occurrence_date), "MMM dd")}`}
+                        </div>
+                      )}
+                      {transaction.transaction_tags && transaction.transaction_tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {getTagNames(transaction).map((name) => (
+                            <Badge key={name} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">
+                              {name}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-4 py-3 text-muted-foreground hidden sm:table-cell">
-                      {categories.find((c) => c.id === transaction.category_id)?.name || "—"}
+                      {transaction.transaction_splits?.length ? (
+                        <span
+                          title={transaction.transaction_splits
+                            .map((split) => `${categories.find((c) => c.id === split.category_id)?.name || "Uncategorized"}: ${formatCurrency(split.amount, transaction.currency)}`)
+                            .join("\n")}
+                        >
+                          Split ({transaction.transaction_splits.length})
+                        </span>
+                      ) : (
+                        categories.find((c) => c.id === transaction.category_id)?.name || "—"
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <span
@@ -1513,22 +2036,36 @@ export default function Transactions() {
                                 : "bg-green-500/20 text-green-500"
                         }`}
                       >
-                        {transaction.type === "income" ? "INCOME" : transaction.type === "expense" ? "EXPENSE" : transaction.type === "transfer-sender" ? "OUT" : "IN"}
+                        {transaction.type === "income" ? (transaction.refund_of_id ? "REFUND" : "INCOME") : transaction.type === "expense" ? "EXPENSE" : getTransferReceiver(transaction) ? "TRANSFER" : transaction.type === "transfer-sender" ? "OUT" : "IN"}
                       </span>
                     </td>
                     <td className="px-4 py-3 text-right font-semibold">
-                      <span
-                        className={transaction.type === "income" || transaction.type === "transfer-receiver" ? "text-accent" : "text-destructive"}
-                      >
-                        {transaction.type === "income" || transaction.type === "transfer-receiver" ? "+" : "-"}
-                        {formatCurrency(transaction.amount, transaction.currency)}
-                      </span>
+                      {getTransferReceiver(transaction) ? (
+                        <span className="text-foreground">
+                          {formatCurrency(transaction.amount, transaction.currency)}
+                          {getTransferReceiver(transaction)?.currency !== transaction.currency && (
+                            <span className="block text-xs font-normal text-muted-foreground">
+                              → {formatCurrency(getTransferReceiver(transaction)!.amount, getTransferReceiver(transaction)!.currency)}
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span
+                          className={transaction.type === "income" || transaction.type === "transfer-receiver" ? "text-accent" : "text-destructive"}
+                        >
+                          {transaction.type === "income" || transaction.type === "transfer-receiver" ? "+" : "-"}
+                          {formatCurrency(transaction.amount, transaction.currency)}
+                        </span>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-muted-foreground hidden lg:table-cell">
                       {format(new Date(transaction.transaction_date), "MMM dd, yyyy")}
                     </td>
                     <td className="px-4 py-3 text-muted-foreground hidden lg:table-cell text-sm">
                       {accounts.find((a) => a.id === transaction.account_id)?.name || "—"}
+                      {getTransferReceiver(transaction) && (
+                        <> → {accounts.find((a) => a.id === getTransferReceiver(transaction)?.account_id)?.name || "—"}</>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-muted-foreground hidden lg:table-cell text-sm max-w-xs">
                       {transaction.notes ? (
@@ -1545,6 +2082,29 @@ export default function Transactions() {
                     <td className="px-4 py-3 text-foreground text-sm hidden xl:table-cell">
                       {format(new Date(transaction.created_at || new Date()), "MMM dd")}
                     </td>
+                    <td className="px-2 py-3 text-center w-10">
+                      <button
+                        type="button"
+                        onClick={() => handleStatusClick(transaction)}
+                        disabled={isSettingStatus}
+                        title={
+                          transaction.status === "reconciled"
+                            ? "Reconciled (locked)"
+                            : transaction.status === "cleared"
+                              ? "Cleared, click to mark as pending"
+                              : "Pending, click to mark as cleared"
+                        }
+                        className="inline-flex h-7 w-7 items-center justify-center rounded hover:bg-muted"
+                      >
+                        {transaction.status === "reconciled" ? (
+                          <Lock className="h-4 w-4 text-primary" />
+                        ) : transaction.status === "cleared" ? (
+                          <CircleCheck className="h-4 w-4 text-accent" />
+                        ) : (
+                          <Circle className="h-4 w-4 text-muted-foreground" />
+                        )}
+                      </button>
+                    </td>
                     <td className="px-4 py-3 text-center">
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -1561,9 +2121,40 @@ export default function Transactions() {
                             <Copy className="h-4 w-4 mr-2" />
                             Duplicate
                           </DropdownMenuItem>
+                          {transaction.type === "expense" && !transaction.transfer_group_id && (
+                            <DropdownMenuItem onClick={() => setRefundTarget(transaction)}>
+                              <Undo2 className="h-4 w-4 mr-2" />
+                              Refund
+                            </DropdownMenuItem>
+                          )}
+                          {transaction.frequency && transaction.frequency !== "none" && transaction.recurrence_status !== "ended" && (
+                            <>
+                              {transaction.recurrence_status === "paused" ? (
+                                <DropdownMenuItem onClick={() => resumeSeries(transaction.id)}>
+                                  <Play className="h-4 w-4 mr-2" />
+                                  Resume Series
+                                </DropdownMenuItem>
+                              ) : (
+                                <>
+                                  <DropdownMenuItem onClick={() => skipNextOccurrence(transaction.id)}>
+                                    <SkipForward className="h-4 w-4 mr-2" />
+                                    Skip Next Occurrence
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => pauseSeries(transaction.id)}>
+                                    <Pause className="h-4 w-4 mr-2" />
+                                    Pause Series
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              <DropdownMenuItem onClick={() => endSeries(transaction.id)}>
+                                <CircleStop className="h-4 w-4 mr-2" />
+                                End Series
+                              </DropdownMenuItem>
+                            </>
+                          )}
                           <DropdownMenuItem
                             className="text-destructive"
-                            onClick={() => deleteTransaction(transaction)}
+                            onClick={() => (transaction.status === "reconciled" ? notifyLocked() : deleteTransaction(transaction))}
                           >
                             <Trash2 className="h-4 w-4 mr-2" />
                             Delete
@@ -1583,14 +2174,14 @@ export default function Transactions() {
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between border-t border-border bg-muted/30 px-4 py-3">
             <div className="text-sm text-muted-foreground">
               Showing {(currentPage - 1) * itemsPerPage + 1}–
-              {Math.min(currentPage * itemsPerPage, filteredTransactions.length)} of{" "}
-              {filteredTransactions.length}
+              {(currentPage - 1) * itemsPerPage + paginatedTransactions.length} of{" "}
+              {totalCount}
             </div>
             
             <div className="flex items-center gap-2">
               <label className="text-sm text-muted-foreground">Rows per page</label>
               <Select value={itemsPerPage.toString()} onValueChange={(v) => {
-                setItemsPerPage(parseInt(v));
+                updateFilters({ perPage: parseInt(v) });
                 setCurrentPage(1);
               }}>
                 <SelectTrigger className="w-20">
@@ -1620,16 +2211,16 @@ export default function Transactions() {
               <Button
                 variant={currentPage === totalPages ? "outline" : "default"}
                 size="sm"
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
+                onClick={goToNextPage}
+                disabled={!nextCursor}
               >
                 {currentPage === totalPages ? currentPage : currentPage}
               </Button>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                disabled={currentPage === totalPages}
+                onClick={goToNextPage}
+                disabled={!nextCursor}
               >
                 Next
               </Button>
@@ -1638,13 +2229,123 @@ export default function Transactions() {
         )}
       </div>
 
+      {/* Save View Dialog */}
+      <Dialog open={saveViewOpen} onOpenChange={setSaveViewOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSaveView();
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-muted-foreground">
+              Saves the current filters, sort order and page size under a name.
+            </p>
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g., Credit card this month > $50"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setSaveViewOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={!viewName.trim() || isSavingView}>
+                {isSavingView && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Linked Transfer Edit Dialog */}
+      <TransferEditDialog
+        open={!!editingTransfer}
+        onOpenChange={(open) => !open && setEditingTransfer(null)}
+        sender={editingTransfer}
+        receiver={editingTransfer ? getTransferReceiver(editingTransfer) || null : null}
+        fee={editingTransfer ? transferLegs.get(editingTransfer.transfer_group_id!)?.fee || null : null}
+        accounts={accounts}
+        onSave={(changes) => updateTransfer({ transferGroupId: editingTransfer!.transfer_group_id!, ...changes })}
+        isSaving={isSavingTransfer}
+      />
+
+      {/* Duplicates Dialog */}
+      <DuplicatesDialog
+        open={duplicatesOpen}
+        onOpenChange={setDuplicatesOpen}
+        groups={duplicateGroups}
+        accounts={accounts}
+        onMerge={async (keepId, ids) => {
+          await mergeTransactions({ keepId, duplicateIds: ids });
+          setAllSelectedRows((previous) => {
+            const next = new Set(previous);
+            ids.forEach((id) => next.delete(id));
+            return next;
+          });
+        }}
+        isMerging={isMerging}
+        focusId={duplicateFocusId}
+      />
+
+      {/* Refund Dialog */}
+      <RefundDialog
+        open={!!refundTarget}
+        onOpenChange={(open) => !open && setRefundTarget(null)}
+        transaction={refundTarget}
+        accounts={accounts}
+        categories={categories}
+      />
+
+      {/* Bulk Edit Dialog */}
+      <BulkEditDialog
+        open={showBulkEdit}
+        onOpenChange={setShowBulkEdit}
+        transactions={selectedTransactions}
+        accounts={accounts}
+        categories={categories}
+        goals={goals}
+        onApply={async (updates) => {
+          await bulkUpdateTransactions(updates);
+          setAllSelectedRows(new Set());
+        }}
+        isApplying={isBulkUpdating}
+      />
+
+      {/* Unlock Reconciled Transaction */}
+      <AlertDialog open={!!unlockTarget} onOpenChange={(open) => !open && setUnlockTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unlock Transaction?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{unlockTarget?.description || "Untitled"}" was reconciled against a bank statement. Unlocking marks it as
+              cleared so it can be edited, which may make the account disagree with that statement.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex gap-2 justify-end">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleUnlock} disabled={isSettingStatus}>
+              Unlock
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Transactions?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {allSelectedRows.size} transaction{allSelectedRows.size !== 1 ? "s" : ""}? This action cannot be undone.
+              {allSelectedRows.size} transaction{allSelectedRows.size !== 1 ? "s" : ""} will be moved to the trash. You can restore them for {TRASH_RETENTION_DAYS} days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <div className="flex gap-2 justify-end">
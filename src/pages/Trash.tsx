@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { TransactionsSkeleton } from "@/components/skeletons/PageSkeletons";
+import { useTransactionTrash, TRASH_RETENTION_DAYS } from "@/hooks/useTransactionTrash";
+import { useAccounts } from "@/hooks/useAccounts";
+import { formatCurrency } from "@/hooks/useProfile";
+import { TrashedTransaction } from "@/types/database";
+import { ArrowLeft, Loader2, Paperclip, RotateCcw, Trash2 } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, formatDistanceToNow } from "date-fns";
+
+export default function Trash() {
+  const navigate = useNavigate();
+  const { trash, isLoading, restoreTransaction, deleteForever, emptyTrash, isRestoring, isPurging } = useTransactionTrash();
+  const { accounts } = useAccounts();
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [deleteEntry, setDeleteEntry] = useState<TrashedTransaction | null>(null);
+  const [emptyOpen, setEmptyOpen] = useState(false);
+
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name || "Deleted account";
+
+  const daysLeft = (entry: TrashedTransaction) =>
+    Math.max(0, differenceInCalendarDays(addDays(new Date(entry.deleted_at), TRASH_RETENTION_DAYS), new Date()));
+
+  const attachmentCount = (entry: TrashedTransaction) =>
+    entry.transactions.reduce((count, t) => count + (t.transaction_attachments?.length || 0), 0);
+
+  const handleRestore = async (id: string) => {
+    setPendingId(id);
+    try {
+      await restoreTransaction(id);
+    } catch (error) {
+      // Error handled by mutation
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!deleteEntry) return;
+    try {
+      await deleteForever(deleteEntry.id);
+      setDeleteEntry(null);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await emptyTrash();
+      setEmptyOpen(false);
+    } catch (error) {
+      // Error handled by mutation
+    }
+  };
+
+  if (isLoading) return <TransactionsSkeleton />;
+
+  return (
+    <div className="space-y-6 pb-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/transactions")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-foreground md:text-3xl">Trash</h1>
+            <p className="text-muted-foreground">
+              Deleted transactions are kept for {TRASH_RETENTION_DAYS} days
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => setEmptyOpen(true)} disabled={trash.length === 0 || isPurging}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {trash.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Trash2 className="h-10 w-10 text-muted-foreground" />
+            <p className="text-muted-foreground">The trash is empty</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {trash.map((entry) => {
+              const [main, ...otherLegs] = entry.transactions;
+              const receiver = otherLegs.find((t) => t.type === "transfer-receiver");
+              const attachments = attachmentCount(entry);
+              const isIncome = main.type === "income" || main.type === "transfer-receiver";
+              return (
+                <div key={entry.id} className="flex flex-col gap-3 px-4 py-3 sm:flex-row sm:items-center">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-foreground">{main.description || "Untitled"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(main.transaction_date), "MMM dd, yyyy")}
+                      {" · "}
+                      {receiver ? `${accountName(main.account_id)} → ${accountName(receiver.account_id)}` : accountName(main.account_id)}
+                      {attachments > 0 && (
+                        <span className="ml-2 inline-flex items-center gap-0.5">
+                          <Paperclip className="h-3 w-3" />
+                          {attachments}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {formatDistanceToNow(new Date(entry.deleted_at), { addSuffix: true })}
+                      {" · "}
+                      {daysLeft(entry) === 0 ? "Deleted permanently today" : `${daysLeft(entry)} days left`}
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 sm:justify-end">
+                    <span className={`whitespace-nowrap font-semibold ${isIncome ? "text-accent" : "text-destructive"}`}>
+                      {receiver ? "" : isIncome ? "+" : "-"}{formatCurrency(Number(main.amount), main.currency)}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(entry.id)}
+                        disabled={isRestoring}
+                      >
+                        {pendingId === entry.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                        )}
+                        Restore
+                      </Button>
+                      <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setDeleteEntry(entry)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!deleteEntry} onOpenChange={(open) => !open && setDeleteEntry(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteEntry?.transactions[0]?.description || "Untitled"}" and its attachments will be deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex justify-end gap-2">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteForever}
+              disabled={isPurging}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={emptyOpen} onOpenChange={setEmptyOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {trash.length} transaction{trash.length !== 1 ? "s" : ""} and their attachments will be deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex justify-end gap-2">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmptyTrash}
+              disabled={isPurging}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Empty Trash
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
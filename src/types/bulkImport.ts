@@ -11,6 +11,7 @@ export type HeaderField =
   | "goal_name"
   | "exchange_from_goal"
   | "frequency"
+  | "tags"
   | "skip";
 
 export interface HeaderMapping {
@@ -43,6 +44,8 @@ export interface BulkImportRow {
     goal_name: string;
     exchange_from_goal: number;
     frequency: string;
+    // Split from the tags cell by extractMappedData
+    tags: string[];
   }>;
   errors: ValidationError[];
   isSelected: boolean;
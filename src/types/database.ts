@@ -1,3 +1,8 @@
+// Where an uploaded file is stored
+export type StorageProvider = "cloudinary" | "supabase";
+
+export type ImageQuality = "high" | "medium" | "low";
+
 export interface Profile {
   id: string;
   user_id: string;
@@ -9,6 +14,9 @@ export interface Profile {
   default_account_id: string | null;
   profile_photo_url: string | null;
   profile_photo_cloudinary_public_id: string | null;
+  profile_photo_storage_provider: StorageProvider | null;
+  // Compression of attachment photos before upload
+  attachment_image_quality: ImageQuality;
   created_at: string;
   updated_at: string;
 }
@@ -48,10 +56,136 @@ export interface Transaction {
   description: string | null;
   notes: string | null;
   transaction_date: string;
-  frequency: "none" | "daily" | "weekly" | "monthly" | "yearly";
+  frequency: RecurrenceFrequency;
   goal_id: string | null;
   goal_amount: number | null;
   goal_allocation_type: string | null;
+  next_occurrence_date?: string | null;
+  recurrence_status?: RecurrenceStatus;
+  recurrence_end_date?: string | null;
+  recurrence_parent_id?: string | null;
+  transfer_group_id?: string | null;
+  exchange_rate?: number | null;
+  payee_id?: string | null;
+  status?: TransactionStatus;
+  // The expense this income refunds; refunds lower spending instead of counting as income
+  refund_of_id?: string | null;
+  transaction_splits?: TransactionSplit[];
+  transaction_tags?: { tag_id: string }[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TransactionSplit {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  category_id: string | null;
+  amount: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export type TransactionSplitInput = Pick<TransactionSplit, "category_id" | "amount" | "notes">;
+
+export interface Payee {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  // URL query parameters of the Transactions page
+  filters: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+export type RecurrenceFrequency = "none" | "daily" | "every-2-days" | "weekly" | "monthly" | "yearly";
+
+export type RecurrenceStatus = "active" | "paused" | "ended";
+
+// pending: not on a statement yet, cleared: seen on the statement, reconciled: locked by a reconciliation
+export type TransactionStatus = "pending" | "cleared" | "reconciled";
+
+export interface AccountReconciliation {
+  id: string;
+  user_id: string;
+  account_id: string;
+  statement_date: string;
+  statement_balance: number;
+  // Transactions marked reconciled by this reconciliation
+  transaction_count: number;
+  created_at: string;
+}
+
+export type BillFrequency = Exclude<RecurrenceFrequency, "none">;
+
+export interface Bill {
+  id: string;
+  user_id: string;
+  name: string;
+  payee_id: string | null;
+  // Expected amount, in the currency of the account it's paid from
+  amount: number;
+  frequency: BillFrequency;
+  // Anchors the schedule, e.g. the day of the month a monthly bill is due
+  first_due_date: string;
+  next_due_date: string;
+  account_id: string | null;
+  category_id: string | null;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BillPayment {
+  id: string;
+  user_id: string;
+  bill_id: string;
+  transaction_id: string | null;
+  due_date: string;
+  // null when the occurrence was skipped
+  amount: number | null;
+  paid_date: string | null;
+  created_at: string;
+}
+
+export type TransactionRuleField = "description" | "payee" | "notes";
+
+export type TransactionRuleOperator = "contains" | "equals" | "starts_with" | "ends_with";
+
+// Auto-categorization rule, applied server-side to new transactions in priority order
+export interface TransactionRule {
+  id: string;
+  user_id: string;
+  // Lower runs first
+  priority: number;
+  is_active: boolean;
+  match_field: TransactionRuleField;
+  match_operator: TransactionRuleOperator;
+  match_value: string;
+  // Optional conditions; null matches anything
+  transaction_type: "income" | "expense" | null;
+  account_id: string | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  set_category_id: string | null;
+  set_payee_id: string | null;
+  add_tags: string[];
   created_at: string;
   updated_at: string;
 }
@@ -60,13 +194,42 @@ export interface TransactionAttachment {
   id: string;
   transaction_id: string;
   user_id: string;
+  // Cloudinary public ID or Supabase Storage object path, depending on storage_provider
   cloudinary_public_id: string;
   cloudinary_url: string;
-  original_filename: string;
+  file_name: string;
   file_size: number;
+  // One of ALLOWED_ATTACHMENT_FORMATS
+  file_type: string;
+  storage_provider: StorageProvider;
   created_at: string;
 }
 
+export type TransactionLogAction = "create" | "update" | "delete" | "restore";
+
+export interface TransactionLog {
+  id: string;
+  transaction_id: string;
+  user_id: string;
+  action: TransactionLogAction;
+  // Before and after value of each field that changed
+  details: Record<string, { old: unknown; new: unknown }>;
+  created_at: string;
+}
+
+// A deleted transaction as kept in the trash, with its relations at the time of deletion
+export type TrashedTransactionRow = Transaction & {
+  transaction_attachments?: TransactionAttachment[];
+};
+
+export interface TrashedTransaction {
+  id: string;
+  user_id: string;
+  // Sending leg first for a linked transfer
+  transactions: TrashedTransactionRow[];
+  deleted_at: string;
+}
+
 export type AccountType = "bank" | "cash" | "wallet" | "credit" | "investment" | "crypto" | "other";
 
 export const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
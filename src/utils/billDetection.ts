@@ -0,0 +1,192 @@
+/**
+ * Bill schedules and spotting subscriptions in past spending.
+ * A run of expenses to the same payee (or with the same title) is a likely subscription when the
+ * gaps between them fit one of the transaction frequencies and the amount barely changes.
+ */
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  format,
+  parseISO,
+  subDays,
+} from "date-fns";
+import type { Bill, BillFrequency } from "@/types/database";
+
+export interface BillCandidateTransaction {
+  id: string;
+  payee_id: string | null;
+  description: string | null;
+  amount: number;
+  currency: string;
+  account_id: string;
+  category_id: string | null;
+  transaction_date: string;
+}
+
+export interface BillCandidate {
+  // Stable id of the group, for React keys and dismissing
+  key: string;
+  name: string;
+  payeeId: string | null;
+  amount: number;
+  currency: string;
+  accountId: string;
+  categoryId: string | null;
+  frequency: BillFrequency;
+  lastDate: string;
+  nextDueDate: string;
+  transactionIds: string[];
+}
+
+export interface BillDetectionOptions {
+  // Allowed amount difference from the typical amount, as a fraction of it
+  amountTolerance: number;
+  // Share of gaps that must fit the frequency
+  minMatchingGaps: number;
+}
+
+export const DEFAULT_BILL_DETECTION_OPTIONS: BillDetectionOptions = {
+  amountTolerance: 0.1,
+  minMatchingGaps: 0.8,
+};
+
+// Day ranges a gap between two payments can fall in for each frequency. Daily spending is
+// rarely a bill, so only weekly and longer schedules are detected.
+const DETECTABLE_FREQUENCIES: { frequency: BillFrequency; minDays: number; maxDays: number; minPayments: number }[] = [
+  { frequency: "weekly", minDays: 6, maxDays: 8, minPayments: 4 },
+  { frequency: "monthly", minDays: 26, maxDays: 35, minPayments: 3 },
+  { frequency: "yearly", minDays: 350, maxDays: 380, minPayments: 2 },
+];
+
+const FREQUENCY_DAYS: Record<BillFrequency, number> = {
+  daily: 1,
+  "every-2-days": 2,
+  weekly: 7,
+  monthly: 30,
+  yearly: 365,
+};
+
+export const normalizeBillName = (name: string | null) =>
+  (name || "")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * First occurrence after `after` of a schedule anchored at `anchor`, as get_next_occurrence_date
+ * computes it in the database
+ */
+export function getNextOccurrenceDate(anchor: string, frequency: BillFrequency, after: string): string {
+  const anchorDate = parseISO(anchor);
+  const afterDate = parseISO(after);
+  switch (frequency) {
+    case "daily":
+      return toDateString(addDays(anchorDate, Math.max(differenceInCalendarDays(afterDate, anchorDate) + 1, 1)));
+    case "every-2-days":
+    case "weekly": {
+      const step = frequency === "weekly" ? 7 : 2;
+      const steps = Math.max(Math.floor(differenceInCalendarDays(afterDate, anchorDate) / step) + 1, 1);
+      return toDateString(addDays(anchorDate, steps * step));
+    }
+    case "monthly": {
+      const steps = Math.max(differenceInCalendarMonths(afterDate, anchorDate), 1);
+      const candidate = addMonths(anchorDate, steps);
+      return toDateString(candidate <= afterDate ? addMonths(anchorDate, steps + 1) : candidate);
+    }
+    case "yearly": {
+      const steps = Math.max(differenceInCalendarYears(afterDate, anchorDate), 1);
+      const candidate = addYears(anchorDate, steps);
+      return toDateString(candidate <= afterDate ? addYears(anchorDate, steps + 1) : candidate);
+    }
+  }
+}
+
+// Due dates of a bill from its next one up to and including `until`
+export function getDueDatesUntil(bill: Pick<Bill, "first_due_date" | "next_due_date" | "frequency">, until: string): string[] {
+  const dates: string[] = [];
+  let due = bill.next_due_date;
+  while (due <= until) {
+    dates.push(due);
+    due = getNextOccurrenceDate(bill.first_due_date, bill.frequency, due);
+  }
+  return dates;
+}
+
+// The frequency the gaps between payment dates fit, if any
+const inferFrequency = (dates: string[], options: BillDetectionOptions): BillFrequency | null => {
+  const gaps = dates.slice(1).map((date, i) => differenceInCalendarDays(parseISO(date), parseISO(dates[i])));
+  const match = DETECTABLE_FREQUENCIES.find(({ minDays, maxDays, minPayments }) => {
+    if (dates.length < minPayments) return false;
+    const fitting = gaps.filter((gap) => gap >= minDays && gap <= maxDays).length;
+    return fitting / gaps.length >= options.minMatchingGaps;
+  });
+  return match?.frequency ?? null;
+};
+
+/**
+ * Groups past expenses that look like a subscription. Expenses already covered by a bill
+ * (same payee or same name) are left out.
+ */
+export function detectBillCandidates(
+  transactions: BillCandidateTransaction[],
+  bills: Pick<Bill, "name" | "payee_id">[],
+  today: string,
+  options: BillDetectionOptions = DEFAULT_BILL_DETECTION_OPTIONS
+): BillCandidate[] {
+  const billPayees = new Set(bills.map((b) => b.payee_id).filter(Boolean));
+  const billNames = new Set(bills.map((b) => normalizeBillName(b.name)));
+
+  const groups = new Map<string, BillCandidateTransaction[]>();
+  transactions.forEach((t) => {
+    const name = normalizeBillName(t.description);
+    const key = t.payee_id ? `payee:${t.payee_id}` : name ? `name:${name}` : null;
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const candidates: BillCandidate[] = [];
+  groups.forEach((rows, key) => {
+    const sorted = [...rows].sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+    const latest = sorted[sorted.length - 1];
+    if (latest.payee_id ? billPayees.has(latest.payee_id) : billNames.has(normalizeBillName(latest.description))) return;
+
+    // Several payments on one day count once
+    const dates = [...new Set(sorted.map((t) => t.transaction_date))];
+    const frequency = inferFrequency(dates, options);
+    if (!frequency) return;
+
+    const typical = median(sorted.map((t) => t.amount));
+    if (sorted.some((t) => Math.abs(t.amount - typical) > typical * options.amountTolerance)) return;
+
+    // A subscription that hasn't been paid for two periods has probably been cancelled
+    if (differenceInCalendarDays(parseISO(today), parseISO(latest.transaction_date)) > FREQUENCY_DAYS[frequency] * 2) return;
+
+    candidates.push({
+      key,
+      name: latest.description || "Subscription",
+      payeeId: latest.payee_id,
+      amount: latest.amount,
+      currency: latest.currency,
+      accountId: latest.account_id,
+      categoryId: latest.category_id,
+      frequency,
+      lastDate: latest.transaction_date,
+      nextDueDate: getNextOccurrenceDate(latest.transaction_date, frequency, toDateString(subDays(parseISO(today), 1))),
+      transactionIds: sorted.map((t) => t.id),
+    });
+  });
+
+  return candidates.sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+}
@@ -11,6 +11,41 @@ export interface ImportResult {
   summary?: string;
 }
 
+// Rows sent per import_transactions call; progress is reported after each
+export const IMPORT_CHUNK_SIZE = 100;
+
+// The create_transaction arguments for a transaction row
+type TransactionImportData = {
+  account_id: string;
+  category_id: string | null;
+  type: string;
+  amount: number;
+  currency: string;
+  description: string | null;
+  notes: string | null;
+  transaction_date: string;
+  frequency: string;
+  goal_id: string | null;
+  goal_amount: number | null;
+  goal_allocation_type: string | null;
+  tags: string[];
+  payee_name: string | null;
+};
+
+// The create_transfer arguments for a transfer row
+type TransferImportData = {
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+};
+
+// One row in the shape import_transactions takes
+type ImportItem =
+  | { kind: "transaction"; data: TransactionImportData }
+  | { kind: "transfer"; data: TransferImportData };
+
 /**
  * Import bulk transactions into the database
  */
@@ -35,71 +70,66 @@ export async function importBulkTransactions(
   };
 
   try {
-    // Extract mapped values for selected rows
-    const rowsToImport = Array.from(selectedRowIndices).map((idx) => {
-      const originalRow = csvData[idx];
-      const mappedData = extractMappedData(originalRow, headerMapping);
-      return { rowIndex: idx, originalRow, mappedData };
-    });
+    // Validate the selected rows and turn the valid ones into import items
+    const items: { rowIndex: number; item: ImportItem }[] = [];
+    Array.from(selectedRowIndices)
+      .sort((a, b) => a - b)
+      .forEach((idx) => {
+        const originalRow = csvData[idx];
+        const rowErrors = validateRow(originalRow, headerMapping, validationContext);
+        if (rowErrors.length > 0) {
+          failedImports++;
+          rowErrors.forEach((err) => {
+            errors.push({
+              rowIndex: idx + 1,
+              message: `${err.field}: ${err.message}`,
+            });
+          });
+          return;
+        }
 
-    // Validate each row
-    const validatedRows = rowsToImport.filter((item) => {
-      const errors = validateRow(item.originalRow, headerMapping, validationContext);
-      if (errors.length > 0) {
-        failedImports++;
-        errors.forEach((err) => {
-          item.rowIndex++;
+        try {
+          const mappedData = extractMappedData(originalRow, headerMapping);
+          const transactionType = String(mappedData.type || "");
+          const item = transactionType.startsWith("transfer")
+            ? buildTransferItem(mappedData, accounts)
+            : buildTransactionItem(mappedData, accounts, categories, goals);
+          items.push({ rowIndex: idx, item });
+        } catch (err) {
+          failedImports++;
           errors.push({
-            rowIndex: item.rowIndex,
-            message: `${err.field}: ${err.message}`,
+            rowIndex: idx + 1,
+            message: `Failed to import: ${err instanceof Error ? err.message : "Unknown error"}`,
           });
-        });
-        return false;
-      }
-      return true;
-    });
-
-    // Import valid rows
-    for (let i = 0; i < validatedRows.length; i++) {
-      const item = validatedRows[i];
-      try {
-        const mappedData = item.mappedData;
-        const transactionType = mappedData.type as
-          | "income"
-          | "expense"
-          | "transfer-sender"
-          | "transfer-receiver";
-
-        if (transactionType && transactionType.startsWith("transfer")) {
-          // Handle transfer transactions
-          await importTransferTransaction(
-            userId,
-            mappedData,
-            accounts,
-            categories
-          );
-        } else {
-          // Handle regular transactions (income/expense)
-          await importRegularTransaction(
-            userId,
-            mappedData,
-            accounts,
-            categories,
-            goals
-          );
         }
-        successfulImports++;
-      } catch (err) {
-        failedImports++;
-        errors.push({
-          rowIndex: item.rowIndex + 1,
-          message: `Failed to import: ${err instanceof Error ? err.message : "Unknown error"}`,
+      });
+
+    // Import valid rows in chunks; a failing row doesn't stop the rest of its chunk
+    for (let start = 0; start < items.length; start += IMPORT_CHUNK_SIZE) {
+      const chunk = items.slice(start, start + IMPORT_CHUNK_SIZE);
+      const { data: failures, error } = await supabase.rpc("import_transactions", {
+        p_items: chunk.map(({ item }) => item),
+      });
+
+      if (error) {
+        failedImports += chunk.length;
+        chunk.forEach(({ rowIndex }) => {
+          errors.push({ rowIndex: rowIndex + 1, message: `Failed to import: ${error.message}` });
+        });
+      } else {
+        (failures || []).forEach((failure) => {
+          errors.push({
+            rowIndex: chunk[failure.item_index].rowIndex + 1,
+            message: `Failed to import: ${failure.message}`,
+          });
         });
+        failedImports += failures?.length || 0;
+        successfulImports += chunk.length - (failures?.length || 0);
       }
 
       // Update progress
       if (onProgress) {
-        const progress = Math.round(((i + 1) / validatedRows.length) * 100);
+        const progress = Math.round((Math.min(start + IMPORT_CHUNK_SIZE, items.length) / items.length) * 100);
         onProgress(progress);
       }
     }
@@ -129,15 +159,14 @@ export async function importBulkTransactions(
 }
 
 /**
- * Import a regular transaction (income/expense)
+ * Build a regular transaction (income/expense) for import
  */
-async function importRegularTransaction(
-  userId: string,
+function buildTransactionItem(
   mappedData: Partial<Record<string, any>>,
   accounts: Account[],
   categories: any[],
   goals: Goal[]
-) {
+): ImportItem {
   // Find account by exact name match (case-insensitive)
   const accountInput = String(mappedData.account_id || "").trim();
   const account = accounts.find((a) => 
@@ -182,76 +211,37 @@ async function importRegularTransaction(
   // Normalize transaction type
   const normalizedType = normalizeTransactionType(String(mappedData.type || "expense")) || "expense";
 
-  // Insert transaction
-  const { error: txError } = await supabase.from("transactions").insert({
-    user_id: userId,
-    account_id: account.id,
-    category_id: category?.id || null,
-    type: normalizedType,
-    amount: parseFloat(String(mappedData.amount)),
-    currency: account.currency || "USD",
-    description: mappedData.description || null,
-    notes: mappedData.notes || null,
-    transaction_date: formattedDate,
-    frequency: mappedData.frequency || "none",
-    goal_id: goal?.id || null,
-    goal_amount: goalAmount,
-    goal_allocation_type: goalAllocationMode || mappedData.deduction_type || null,
-  });
-
-  if (txError) throw txError;
-
-  // Update account balance
-  let balanceChange: number;
-  if (mappedData.type === "income") {
-    balanceChange = parseFloat(String(mappedData.amount));
-  } else {
-    balanceChange = -parseFloat(String(mappedData.amount));
-  }
-
-  const { error: balError } = await supabase.rpc("update_account_balance", {
-    account_id: account.id,
-    amount_change: balanceChange,
-  });
-
-  if (balError) throw balError;
-
-  // Update goal if linked
-  if (goal && goalAmount) {
-    const { data: currentGoal } = await supabase
-      .from("goals")
-      .select("current_amount")
-      .eq("id", goal.id)
-      .single();
-
-    if (currentGoal) {
-      let newAmount;
-      if (goalAllocationMode === "contribute") {
-        // Add to goal
-        newAmount = currentGoal.current_amount + goalAmount;
-      } else {
-        // Deduct from goal (default)
-        newAmount = Math.max(0, currentGoal.current_amount - goalAmount);
-      }
-      
-      await supabase
-        .from("goals")
-        .update({ current_amount: newAmount })
-        .eq("id", goal.id);
-    }
-  }
+  // create_transaction inserts it, updates the account balance and linked goal atomically
+  return {
+    kind: "transaction",
+    data: {
+      account_id: account.id,
+      category_id: category?.id || null,
+      type: normalizedType,
+      amount: parseFloat(String(mappedData.amount)),
+      currency: account.currency || "USD",
+      description: mappedData.description || null,
+      notes: mappedData.notes || null,
+      transaction_date: formattedDate,
+      frequency: mappedData.frequency || "none",
+      goal_id: goal?.id || null,
+      goal_amount: goalAmount,
+      goal_allocation_type: goalAllocationMode || mappedData.deduction_type || null,
+      tags: mappedData.tags || [],
+      // The description doubles as the payee; new names become new payees
+      payee_name: mappedData.description || null,
+    },
+  };
 }
 
 /**
- * Import a transfer transaction
- * Creates two transaction records (sender and receiver)
+ * Build a transfer for import
+ * create_transfer makes two linked transaction records (sender and receiver)
  */
-async function importTransferTransaction(
-  userId: string,
+function buildTransferItem(
   mappedData: Partial<Record<string, any>>,
-  accounts: Account[],
-  categories: any[]
-) {
+  accounts: Account[]
+): ImportItem {
   // Find accounts by exact name match (case-insensitive)
   const fromInput = String(mappedData.from_account || "").trim();
   const toInput = String(mappedData.to_account || "").trim();
@@ -268,71 +258,38 @@ async function importTransferTransaction(
   }
 
   const amount = parseFloat(String(mappedData.amount));
-  const date = mappedData.date;
   const description = mappedData.description || "Transfer";
 
   // Parse date from various formats
   const dateObj = parseCustomDate(String(mappedData.date));
   const formattedDate = dateObj ? dateObj.toISOString().split("T")[0] : new Date().toISOString().split("T")[0];
 
-  // Create sender transaction
-  const { data: senderTx, error: senderError } = await supabase
-    .from("transactions")
-    .insert({
-      user_id: userId,
-      account_id: fromAccount.id, // Use the actual account ID found from lookup
-      type: "transfer-sender",
+  return {
+    kind: "transfer",
+    data: {
+      from_account_id: fromAccount.id, // Use the actual account ID found from lookup
+      to_account_id: toAccount.id,
       amount,
-      currency: fromAccount.currency || "USD",
       description,
       transaction_date: formattedDate,
-      frequency: "none",
-    })
-    .select()
-    .single();
-
-  if (senderError) throw senderError;
-
-  // Create receiver transaction
-  const { data: receiverTx, error: receiverError } = await supabase
-    .from("transactions")
-    .insert({
-      user_id: userId,
-      account_id: toAccount.id, // Use the actual account ID found from lookup
-      type: "transfer-receiver",
-      amount,
-      currency: toAccount.currency || "USD",
-      description,
-      transaction_date: formattedDate,
-      frequency: "none",
-    })
-    .select()
-    .single();
-
-  if (receiverError) throw receiverError;
-
-  // No need to link transfers in separate table - they're tracked by sender/receiver types
-
-  // Update both account balances
-  const { error: senderBalError } = await supabase.rpc("update_account_balance", {
-    account_id: fromAccount.id, // Use the actual account ID found from lookup
-    amount_change: -amount,
-  });
-
-  if (senderBalError) throw senderBalError;
-
-  const { error: receiverBalError } = await supabase.rpc("update_account_balance", {
-    account_id: toAccount.id, // Use the actual account ID found from lookup
-    amount_change: amount,
-  });
+    },
+  };
+}
 
-  if (receiverBalError) throw receiverBalError;
+/**
+ * Split a tags cell into names. Commas are accepted too, but need the cell to be quoted in the CSV.
+ */
+function parseTagList(value: string): string[] {
+  return value
+    .split(/[;|,]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
 }
 
 /**
  * Extract mapped data from CSV row based on header mapping
  */
-function extractMappedData(row: ParsedCSVRow, mapping: HeaderMapping) {
+export function extractMappedData(row: ParsedCSVRow, mapping: HeaderMapping) {
   const mapped: Partial<Record<string, any>> = {};
 
   Object.entries(mapping).forEach(([csvColumn, field]) => {
@@ -361,6 +318,9 @@ function extractMappedData(row: ParsedCSVRow, mapping: HeaderMapping) {
           // Keep account names as-is (exact match case-insensitive in validation)
           mapped[field] = String(value).trim();
           break;
+        case "tags":
+          mapped[field] = parseTagList(String(value));
+          break;
         case "category":
         case "goal_name":
           // Normalize field names (spaces to underscores)
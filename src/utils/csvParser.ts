@@ -6,87 +6,238 @@ export interface ParseResult {
   error?: string;
 }
 
+export type CSVDelimiter = "," | ";" | "\t";
+
+const DELIMITERS: CSVDelimiter[] = [",", ";", "\t"];
+
+export const MAX_CSV_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Bytes of a file decoded and tokenized at a time
+const READ_CHUNK_SIZE = 1024 * 1024; // 1MB
+
 /**
- * Parse CSV text and return headers and data rows
- * Handles both comma and semicolon delimiters
+ * Picks the delimiter that appears most often in the first line, ignoring quoted text.
+ * Falls back to a comma.
  */
-export function parseCSV(csvText: string): ParseResult {
-  try {
-    if (!csvText.trim()) {
-      return {
-        headers: [],
-        data: [],
-        error: "CSV file is empty",
-      };
+export function detectDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes) counts.set(ch, (counts.get(ch) || 0) + 1);
+  }
+  return DELIMITERS.reduce((best, delimiter) =>
+    (counts.get(delimiter) || 0) > (counts.get(best) || 0) ? delimiter : best
+  );
+}
+
+/**
+ * RFC 4180 tokenizer that takes text in pieces, so large files never need to be split into lines.
+ * Fields may be quoted, contain delimiters and line breaks, and escape quotes by doubling them.
+ * Records end with LF, CRLF or CR, a leading byte order mark is dropped, and blank lines are skipped.
+ * A quote inside an unquoted field is kept as text.
+ */
+export class CSVTokenizer {
+  private delimiter: CSVDelimiter | undefined;
+  private field = "";
+  private record: string[] = [];
+  private quoted = false;
+  private inQuotes = false;
+  // A quote inside a quoted field: either the closing one or the first of an escaped pair
+  private quotePending = false;
+  // The CR of a CRLF was just read
+  private skipLineFeed = false;
+  private started = false;
+  private recordCount = 0;
+
+  // Without a delimiter, it's detected from the first line of the first piece
+  constructor(delimiter?: CSVDelimiter) {
+    this.delimiter = delimiter;
+  }
+
+  /**
+   * Reads the next piece of text and returns the records it completed
+   */
+  push(text: string): string[][] {
+    const records: string[][] = [];
+    let start = 0;
+    if (!this.started) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+      if (!this.delimiter) this.delimiter = detectDelimiter(text.slice(start));
+    }
+
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (ch === "\n") continue;
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (ch === '"') {
+            this.field += '"';
+            continue;
+          }
+          // That was the closing quote; this character is read as unquoted text
+          this.inQuotes = false;
+        } else {
+          if (ch === '"') this.quotePending = true;
+          else this.field += ch;
+          continue;
+        }
+      }
+
+      if (ch === '"' && this.field === "" && !this.quoted) {
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === "\n" || ch === "\r") {
+        this.endField();
+        this.endRecord(records);
+        this.skipLineFeed = ch === "\r";
+      } else {
+        this.field += ch;
+      }
     }
 
-    // Detect delimiter (comma or semicolon)
-    const firstLine = csvText.split("\n")[0];
-    const delimiter = firstLine.includes(";") && !firstLine.includes(",") ? ";" : ",";
-
-    const lines = csvText
-      .trim()
-      .split("\n")
-      .filter((line) => line.trim());
-
-    if (lines.length < 1) {
-      return {
-        headers: [],
-        data: [],
-        error: "CSV file has no data",
-      };
+    return records;
+  }
+
+  /**
+   * Finishes the text and returns the last record, if it had no line break after it
+   */
+  end(): string[][] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new Error(`Record ${this.recordCount + 1} has a quoted field that is never closed`);
     }
 
-    // Parse headers
-    const headers = lines[0]
-      .split(delimiter)
-      .map((h) => h.trim())
-      .filter((h) => h.length > 0);
-
-    if (headers.length === 0) {
-      return {
-        headers: [],
-        data: [],
-        error: "No headers found in CSV",
-      };
+    const records: string[][] = [];
+    if (this.field !== "" || this.quoted || this.record.length > 0) {
+      this.endField();
+      this.endRecord(records);
     }
+    return records;
+  }
+
+  private endField() {
+    this.record.push(this.field);
+    this.field = "";
+    this.quoted = false;
+  }
+
+  private endRecord(records: string[][]) {
+    const record = this.record;
+    this.record = [];
+    // A blank line is a single empty field
+    if (record.length === 1 && record[0] === "") return;
+    records.push(record);
+    this.recordCount++;
+  }
+}
 
-    // Parse data rows
-    const data: ParsedCSVRow[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i]
-        .split(delimiter)
-        .map((v) => v.trim());
-
-      if (values.length > 0 && values.some((v) => v.length > 0)) {
-        const row: ParsedCSVRow = {};
-        headers.forEach((header, idx) => {
-          row[header] = values[idx] || "";
-        });
-        data.push(row);
+// Turns records into rows keyed by the first record, the header
+class RowCollector {
+  headers: string[] | null = null;
+  // Position of each header, since columns with a blank header are left out
+  private columns: { header: string; index: number }[] = [];
+  data: ParsedCSVRow[] = [];
+
+  add(records: string[][]) {
+    for (const record of records) {
+      if (!this.headers) {
+        this.columns = record
+          .map((header, index) => ({ header: header.trim(), index }))
+          .filter((column) => column.header.length > 0);
+        this.headers = this.columns.map((column) => column.header);
+        continue;
       }
+
+      const values = record.map((v) => v.trim());
+      if (!values.some((v) => v.length > 0)) continue;
+
+      const row: ParsedCSVRow = {};
+      this.columns.forEach(({ header, index }) => {
+        row[header] = values[index] || "";
+      });
+      this.data.push(row);
     }
+  }
 
-    // Validate row count
-    if (data.length > 500) {
-      return {
-        headers,
-        data: data.slice(0, 500),
-        error: `CSV has ${data.length} rows, but maximum allowed is 500. Imported first 500 rows.`,
-      };
+  result(): ParseResult {
+    if (!this.headers) {
+      return { headers: [], data: [], error: "CSV file is empty" };
+    }
+    if (this.headers.length === 0) {
+      return { headers: [], data: [], error: "No headers found in CSV" };
     }
+    return { headers: this.headers, data: this.data };
+  }
+}
 
-    return {
-      headers,
-      data,
-    };
-  } catch (error) {
+const parseFailure = (error: unknown): ParseResult => ({
+  headers: [],
+  data: [],
+  error: `Failed to parse CSV: ${error instanceof Error ? error.message : "Unknown error"}`,
+});
+
+/**
+ * Parse CSV text and return headers and data rows
+ * Comma, semicolon and tab delimiters are detected from the header line
+ */
+export function parseCSV(csvText: string): ParseResult {
+  if (!csvText.trim()) {
     return {
       headers: [],
       data: [],
-      error: `Failed to parse CSV: ${error instanceof Error ? error.message : "Unknown error"}`,
+      error: "CSV file is empty",
     };
   }
+
+  try {
+    const tokenizer = new CSVTokenizer();
+    const collector = new RowCollector();
+    collector.add(tokenizer.push(csvText));
+    collector.add(tokenizer.end());
+    return collector.result();
+  } catch (error) {
+    return parseFailure(error);
+  }
+}
+
+/**
+ * Parse a CSV file a chunk at a time, reporting progress (0-100) and letting the page repaint
+ * between chunks
+ */
+export async function parseCSVFile(file: File, onProgress?: (progress: number) => void): Promise<ParseResult> {
+  try {
+    const tokenizer = new CSVTokenizer();
+    const collector = new RowCollector();
+    // Keeps characters split across chunks intact, and drops a byte order mark
+    const decoder = new TextDecoder("utf-8");
+
+    for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+      const chunk = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+      collector.add(tokenizer.push(decoder.decode(chunk, { stream: true })));
+      onProgress?.(Math.round((Math.min(offset + READ_CHUNK_SIZE, file.size) / file.size) * 100));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    collector.add(tokenizer.push(decoder.decode()));
+    collector.add(tokenizer.end());
+
+    return collector.result();
+  } catch (error) {
+    return parseFailure(error);
+  }
 }
 
 /**
@@ -94,38 +245,27 @@ export function parseCSV(csvText: string): ParseResult {
  */
 export function validateCSVFile(file: File): { valid: boolean; error?: string } {
   // Check file type
-  if (!file.name.endsWith(".csv") && file.type !== "text/csv" && file.type !== "application/vnd.ms-excel") {
+  const name = file.name.toLowerCase();
+  if (
+    !name.endsWith(".csv") &&
+    !name.endsWith(".tsv") &&
+    file.type !== "text/csv" &&
+    file.type !== "text/tab-separated-values" &&
+    file.type !== "application/vnd.ms-excel"
+  ) {
     return {
       valid: false,
-      error: "File must be a CSV file (.csv)",
+      error: "File must be a CSV file (.csv or .tsv)",
     };
   }
 
-  // Check file size (5MB max)
-  const maxSize = 5 * 1024 * 1024; // 5MB in bytes
-  if (file.size > maxSize) {
+  // Check file size
+  if (file.size > MAX_CSV_FILE_SIZE) {
     return {
       valid: false,
-      error: `File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum of 5MB`,
+      error: `File size (${(file.size / 1024 / 1024).toFixed(2)}MB) exceeds maximum of ${MAX_CSV_FILE_SIZE / 1024 / 1024}MB`,
     };
   }
 
   return { valid: true };
 }
-
-/**
- * Read file as text
- */
-export async function readFileAsText(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      resolve(text);
-    };
-    reader.onerror = () => {
-      reject(new Error("Failed to read file"));
-    };
-    reader.readAsText(file);
-  });
-}
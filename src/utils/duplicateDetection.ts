@@ -0,0 +1,166 @@
+/**
+ * Helpers for spotting the same purchase recorded more than once.
+ * Two transactions are likely duplicates when they are on the same account, have the same type,
+ * nearly the same amount, dates a few days apart and similar descriptions.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export interface DuplicateCandidate {
+  id: string;
+  account_id: string;
+  type: string;
+  amount: number;
+  transaction_date: string;
+  description: string | null;
+}
+
+export interface DuplicateOptions {
+  // Maximum number of days between the two dates
+  dayWindow: number;
+  // Allowed amount difference, as a fraction of the larger amount
+  amountTolerance: number;
+  // Minimum description similarity between 0 and 1
+  descriptionThreshold: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  dayWindow: 3,
+  amountTolerance: 0.01,
+  descriptionThreshold: 0.6,
+};
+
+const normalizeDescription = (description: string | null) =>
+  (description || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/ /g, "");
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+/**
+ * Similarity of two descriptions from 0 to 1, ignoring case and punctuation
+ * (Dice coefficient over character pairs, so "STARBUCKS #123" matches "Starbucks")
+ */
+export function descriptionSimilarity(a: string | null, b: string | null): number {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+  if (left.includes(right) || right.includes(left)) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  rightPairs.forEach((pair) => remaining.set(pair, (remaining.get(pair) || 0) + 1));
+  let shared = 0;
+  leftPairs.forEach((pair) => {
+    const count = remaining.get(pair) || 0;
+    if (count > 0) {
+      shared += 1;
+      remaining.set(pair, count - 1);
+    }
+  });
+  return (2 * shared) / (leftPairs.length + rightPairs.length);
+}
+
+/**
+ * Whether two transactions look like the same purchase
+ */
+export function isLikelyDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): boolean {
+  if (a.id === b.id || a.account_id !== b.account_id || a.type !== b.type) return false;
+
+  const largest = Math.max(Math.abs(a.amount), Math.abs(b.amount));
+  if (Math.abs(a.amount - b.amount) > largest * options.amountTolerance) return false;
+
+  const days = Math.abs(differenceInCalendarDays(parseISO(a.transaction_date), parseISO(b.transaction_date)));
+  if (days > options.dayWindow) return false;
+
+  return descriptionSimilarity(a.description, b.description) >= options.descriptionThreshold;
+}
+
+/**
+ * Groups of likely duplicates among the given transactions, each sorted by date.
+ * Transactions that match nothing are left out.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(
+  transactions: T[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): T[][] {
+  const sorted = [...transactions].sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+  // Union-find over matching pairs, so A~B and B~C end up in one group
+  const parent = sorted.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = parseISO(sorted[i].transaction_date);
+    for (let j = i + 1; j < sorted.length; j++) {
+      // Sorted by date, so nothing further along can be within the window
+      if (differenceInCalendarDays(parseISO(sorted[j].transaction_date), start) > options.dayWindow) break;
+      if (isLikelyDuplicate(sorted[i], sorted[j], options)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  sorted.forEach((transaction, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), transaction]);
+  });
+  return Array.from(groups.values()).filter((group) => group.length > 1);
+}
+
+/**
+ * Existing transactions that look like the same purchase as the candidate
+ */
+export function findDuplicatesOf<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+): T[] {
+  return existing.filter((transaction) => isLikelyDuplicate(candidate, transaction, options));
+}
+
+/**
+ * Transactions grouped by account, type and date, for checking many candidates against many
+ * transactions, e.g. a large import file, without comparing every pair
+ */
+export function createDuplicateIndex<T extends DuplicateCandidate>(
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS
+) {
+  const buckets = new Map<string, T[]>();
+  const key = (transaction: DuplicateCandidate, date: string) => `${transaction.account_id}|${transaction.type}|${date}`;
+
+  return {
+    add(transaction: T) {
+      const bucketKey = key(transaction, transaction.transaction_date);
+      const bucket = buckets.get(bucketKey);
+      if (bucket) bucket.push(transaction);
+      else buckets.set(bucketKey, [transaction]);
+    },
+    // Same result as findDuplicatesOf over everything added, ordered by date
+    find(candidate: DuplicateCandidate): T[] {
+      const date = parseISO(candidate.transaction_date);
+      const matches: T[] = [];
+      for (let offset = -options.dayWindow; offset <= options.dayWindow; offset++) {
+        const bucket = buckets.get(key(candidate, format(addDays(date, offset), "yyyy-MM-dd"))) || [];
+        matches.push(...findDuplicatesOf(candidate, bucket, options));
+      }
+      return matches;
+    },
+  };
+}
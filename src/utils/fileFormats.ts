@@ -0,0 +1,82 @@
+/**
+ * File types and sizes accepted for uploads, whichever storage provider they go to
+ * Attachments can be images (jpg, jpeg, png, webp, and heic converted to jpg) or PDF documents up to 6MB per file.
+ */
+import type { TransactionAttachment } from "@/types/database";
+
+// Allowed file types and max file size
+export const ALLOWED_IMAGE_FORMATS = ["image/jpeg", "image/png", "image/webp"];
+export const ALLOWED_IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+export const MAX_FILE_SIZE = 6 * 1024 * 1024; // 6MB
+
+// Stored attachment types; HEIC photos are accepted too and stored as JPEG
+export const ALLOWED_ATTACHMENT_FORMATS = [...ALLOWED_IMAGE_FORMATS, "application/pdf"];
+export const HEIC_FORMATS = ["image/heic", "image/heif"];
+// For the accept attribute of file inputs
+export const ATTACHMENT_ACCEPT = [...ALLOWED_IMAGE_EXTENSIONS, ".heic", ".heif", ".pdf"].join(",");
+
+// File extension of each stored type
+export const FORMAT_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+// Some browsers leave the type of HEIC files empty, so the extension is checked too
+export const isHeicFile = (file: File) => HEIC_FORMATS.includes(file.type) || /\.hei[cf]$/i.test(file.name);
+
+export const isPdfAttachment = (attachment: Pick<TransactionAttachment, "file_type">) =>
+  attachment.file_type === "application/pdf";
+
+// The file name with its extension swapped for the stored type's
+export const withExtension = (fileName: string, fileType: string) =>
+  fileName.replace(/\.[^.]+$/, "") + "." + FORMAT_EXTENSIONS[fileType];
+
+/**
+ * Validates a file for upload
+ * @param file - File to validate
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateImageFile(file: File): { isValid: boolean; error?: string } {
+  // Validate file type
+  if (!ALLOWED_IMAGE_FORMATS.includes(file.type)) {
+    return {
+      isValid: false,
+      error: `Invalid file type. Only JPG, JPEG, PNG, and WebP images are allowed. Received: ${file.type}`,
+    };
+  }
+
+  // Validate file size
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `File size exceeds 6MB limit. File size: ${(file.size / 1024 / 1024).toFixed(2)}MB`,
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Validates a transaction attachment: an image (HEIC included) or a PDF
+ * @param file - File to validate
+ * @returns Object with isValid boolean and error message if invalid
+ */
+export function validateAttachmentFile(file: File): { isValid: boolean; error?: string } {
+  if (!ALLOWED_ATTACHMENT_FORMATS.includes(file.type) && !isHeicFile(file)) {
+    return {
+      isValid: false,
+      error: `Invalid file type. Only JPG, PNG, WebP and HEIC images and PDF documents are allowed. Received: ${file.type || file.name}`,
+    };
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      error: `File size exceeds 6MB limit. File size: ${(file.size / 1024 / 1024).toFixed(2)}MB`,
+    };
+  }
+
+  return { isValid: true };
+}
@@ -0,0 +1,90 @@
+/**
+ * Storage for uploaded files (transaction attachments and profile photos)
+ * The provider is chosen with VITE_STORAGE_PROVIDER: "cloudinary" (the default) or "supabase" for
+ * Supabase Storage, which also works against a local Supabase stack. Each stored file records its
+ * provider, so files uploaded before a switch keep working.
+ *
+ * Files are never deleted from the browser: removing a row queues its file, and the purge-trash
+ * edge function deletes it server-side.
+ */
+import type { StorageProvider, TransactionAttachment } from "@/types/database";
+import { cloudinaryStorage } from "./cloudinary";
+import { supabaseStorage } from "./supabaseStorage";
+import { validateAttachmentFile } from "./fileFormats";
+
+// Kind of file, used to organize each provider's folders
+export type StorageFolder = "transactions" | "profile";
+
+export interface StoredFile {
+  provider: StorageProvider;
+  // Cloudinary public ID or Supabase Storage object path
+  path: string;
+  url: string;
+  bytes: number;
+  file_name: string;
+  // MIME type of the stored file, which differs from the upload for converted HEIC photos
+  file_type: string;
+}
+
+export type StoredFileRef = Pick<StoredFile, "path" | "url" | "file_name" | "file_type">;
+
+export interface FileStorage {
+  provider: StorageProvider;
+  // HEIC photos are stored as JPEG
+  upload(file: File, folder: StorageFolder): Promise<StoredFile>;
+  // Square preview, or null when the provider can't render one
+  getThumbnailUrl(file: StoredFileRef, size: number): string | null;
+  // URL that downloads the file instead of opening it
+  getDownloadUrl(file: StoredFileRef): string;
+}
+
+const providers: Record<StorageProvider, FileStorage> = {
+  cloudinary: cloudinaryStorage,
+  supabase: supabaseStorage,
+};
+
+export const STORAGE_PROVIDER: StorageProvider =
+  import.meta.env.VITE_STORAGE_PROVIDER === "supabase" ? "supabase" : "cloudinary";
+
+// Where new uploads go
+export const fileStorage = providers[STORAGE_PROVIDER];
+
+// The provider holding an existing file
+export const storageFor = (provider: string | null | undefined): FileStorage =>
+  providers[provider as StorageProvider] || cloudinaryStorage;
+
+const attachmentFileRef = (attachment: TransactionAttachment): StoredFileRef => ({
+  path: attachment.cloudinary_public_id,
+  url: attachment.cloudinary_url,
+  file_name: attachment.file_name,
+  file_type: attachment.file_type,
+});
+
+export async function uploadTransactionAttachment(file: File): Promise<StoredFile> {
+  // Validate file
+  const validation = validateAttachmentFile(file);
+  if (!validation.isValid) {
+    console.error("[v0] ATTACHMENT ERROR: File validation failed", {
+      fileName: file.name,
+      error: validation.error,
+    });
+    throw new Error(validation.error);
+  }
+
+  return fileStorage.upload(file, "transactions");
+}
+
+/**
+ * Square preview of an attachment: the image itself, or the first page of a PDF where the provider
+ * can render one. Null when there is no preview.
+ */
+export function getAttachmentThumbnailUrl(attachment: TransactionAttachment, size = 160): string | null {
+  return storageFor(attachment.storage_provider).getThumbnailUrl(attachmentFileRef(attachment), size);
+}
+
+/**
+ * URL that downloads the attachment in its stored format instead of opening it
+ */
+export function getAttachmentDownloadUrl(attachment: TransactionAttachment): string {
+  return storageFor(attachment.storage_provider).getDownloadUrl(attachmentFileRef(attachment));
+}
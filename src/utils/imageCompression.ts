@@ -0,0 +1,63 @@
+/**
+ * Resizes and re-encodes attachment photos in the browser before upload, so phone photos fit
+ * under MAX_FILE_SIZE. How hard photos are compressed is the user's attachment quality setting.
+ */
+import type { ImageQuality } from "@/types/database";
+import { ALLOWED_IMAGE_FORMATS, isHeicFile, withExtension } from "./fileFormats";
+
+export const IMAGE_QUALITY_OPTIONS: Record<
+  ImageQuality,
+  { label: string; description: string; maxDimension: number; quality: number }
+> = {
+  high: { label: "High", description: "Up to 3000px, largest files", maxDimension: 3000, quality: 0.9 },
+  medium: { label: "Medium", description: "Up to 2000px, readable receipts", maxDimension: 2000, quality: 0.8 },
+  low: { label: "Low", description: "Up to 1400px, smallest files", maxDimension: 1400, quality: 0.7 },
+};
+
+export const DEFAULT_IMAGE_QUALITY: ImageQuality = "medium";
+
+// Larger photos aren't decoded at all, to keep the browser from running out of memory
+export const MAX_SOURCE_IMAGE_SIZE = 40 * 1024 * 1024; // 40MB
+
+export const isCompressibleImage = (file: File) => ALLOWED_IMAGE_FORMATS.includes(file.type) || isHeicFile(file);
+
+// Null when the browser can't decode the file, e.g. HEIC outside Safari
+async function decodeImage(file: File): Promise<ImageBitmap | null> {
+  try {
+    return await createImageBitmap(file);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shrinks an image so its longest side fits the quality's maximum and re-encodes it as JPEG.
+ * The original is kept when it is already a JPEG that small, or when the browser can't decode it;
+ * HEIC photos are then converted by the storage provider instead.
+ */
+export async function compressImage(file: File, quality: ImageQuality = DEFAULT_IMAGE_QUALITY): Promise<File> {
+  if (!isCompressibleImage(file) || file.size > MAX_SOURCE_IMAGE_SIZE) return file;
+
+  const bitmap = await decodeImage(file);
+  if (!bitmap) return file;
+
+  const options = IMAGE_QUALITY_OPTIONS[quality] || IMAGE_QUALITY_OPTIONS[DEFAULT_IMAGE_QUALITY];
+  const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d")!;
+  // JPEG has no transparency; transparent screenshots would otherwise turn black
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", options.quality));
+  if (!blob) return file;
+
+  if (file.type === "image/jpeg" && scale === 1 && file.size <= blob.size) return file;
+
+  return new File([blob], withExtension(file.name, "image/jpeg"), { type: "image/jpeg", lastModified: file.lastModified });
+}
@@ -0,0 +1,87 @@
+/**
+ * Combines photographed receipt pages into one PDF, a page per photo. The JPEG data is embedded
+ * as it is, so no re-encoding happens and no PDF library is needed.
+ */
+
+// PDF page width in points (A4); each page's height follows its photo
+const PAGE_WIDTH = 595;
+
+interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+async function readJpeg(file: File): Promise<PdfImage> {
+  if (file.type !== "image/jpeg") {
+    throw new Error(`${file.name} is not a JPEG image`);
+  }
+  const bitmap = await createImageBitmap(file);
+  const image = { data: new Uint8Array(await file.arrayBuffer()), width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return image;
+}
+
+/**
+ * Builds a PDF from JPEG images, in order
+ */
+export async function buildReceiptPdf(pages: File[], fileName: string): Promise<File> {
+  const images = await Promise.all(pages.map(readJpeg));
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then a page, image and content stream per photo
+  const pageIds = images.map((_, i) => 3 + i * 3);
+
+  write("%PDF-1.4\n");
+  // Marks the file as binary for tools that sniff it
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+  startObject(2);
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${images.length} >>\nendobj\n`);
+
+  images.forEach((image, i) => {
+    const pageId = pageIds[i];
+    const width = PAGE_WIDTH;
+    const height = Math.round((PAGE_WIDTH * image.height) / image.width);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+    startObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 1} 0 R >> >> /Contents ${pageId + 2} 0 R >>\nendobj\n`
+    );
+    startObject(pageId + 1);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`
+    );
+    write(image.data);
+    write("\nendstream\nendobj\n");
+    startObject(pageId + 2);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new File(chunks as BlobPart[], fileName, { type: "application/pdf" });
+}
@@ -0,0 +1,40 @@
+/**
+ * Helpers for reporting on refunds.
+ * A refund is stored as income linked to the expense it pays back (refund_of_id). Reports don't
+ * count it as income: it takes its amount off the spending of its category instead.
+ */
+import { getCategoryAmount, getCategoryLines, CategoryLine, SplittableTransaction } from "@/utils/transactionSplits";
+
+interface ReportedTransaction {
+  type: string;
+  refund_of_id?: string | null;
+}
+
+// PostgREST filter for the rows that make up spending: expenses and refunds
+export const SPENDING_FILTER = "type.eq.expense,refund_of_id.not.is.null";
+
+export const isRefund = (t: ReportedTransaction) => t.type === "income" && !!t.refund_of_id;
+
+// Income that reports count as income, i.e. anything but a refund
+export const isReportedIncome = (t: ReportedTransaction) => t.type === "income" && !t.refund_of_id;
+
+/**
+ * Sign a transaction's amount takes in spending totals: 1 for an expense, -1 for a refund,
+ * 0 for everything else
+ */
+export const spendingSign = (t: ReportedTransaction) => (t.type === "expense" ? 1 : isRefund(t) ? -1 : 0);
+
+/**
+ * Category lines a transaction adds to spending, negative for a refund
+ */
+export function getSpendingLines(transaction: ReportedTransaction & SplittableTransaction): CategoryLine[] {
+  const sign = spendingSign(transaction);
+  return getCategoryLines(transaction).map((line) => ({ ...line, amount: line.amount * sign }));
+}
+
+/**
+ * Spending of one category from a transaction, negative for a refund
+ */
+export function getCategorySpending(transaction: ReportedTransaction & SplittableTransaction, categoryId: string | null): number {
+  return getCategoryAmount(transaction, categoryId) * spendingSign(transaction);
+}
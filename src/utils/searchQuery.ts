@@ -0,0 +1,332 @@
+/**
+ * Search query language of the Transactions page, e.g.
+ *   amount>100 category:food account:"HDFC Card" after:2026-01-01 -tag:reimbursed "uber"
+ *
+ * - field:value narrows by a field; quote values that contain spaces
+ * - amount also takes >, >=, <, <= and =
+ * - after:, before: and on: take a YYYY-MM-DD date and include that day
+ * - a leading - excludes matches of category, account, tag, payee, type or text
+ * - other words and "quoted phrases" must each appear in the title, notes, category, tag,
+ *   payee or an attachment file name
+ *
+ * Every term must match. The query is turned into the list filters the server understands.
+ */
+import { isValid, parseISO } from "date-fns";
+import type { TransactionListFilters } from "@/hooks/useTransactions";
+
+export type SearchField = "amount" | "category" | "account" | "tag" | "payee" | "type" | "repeat" | "after" | "before" | "on";
+export type SearchOperator = ":" | "=" | ">" | ">=" | "<" | "<=";
+
+export interface SearchToken {
+  // null for free text
+  field: SearchField | null;
+  operator: SearchOperator | null;
+  value: string;
+  negated: boolean;
+  // Position of the whole token in the query, end exclusive
+  start: number;
+  end: number;
+  // Position where the value begins
+  valueStart: number;
+}
+
+export interface SearchLookups {
+  accounts: { id: string; name: string }[];
+  categories: { id: string; name: string }[];
+  tags: { id: string; name: string }[];
+  payees: { id: string; name: string }[];
+}
+
+export interface ParsedSearchQuery {
+  filters: TransactionListFilters;
+  // Terms that couldn't be applied, e.g. an unknown category
+  errors: string[];
+}
+
+export interface SearchSuggestion {
+  label: string;
+  hint?: string;
+  // Replaces query[start, end)
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+export const SEARCH_FIELDS: { field: SearchField; hint: string }[] = [
+  { field: "amount", hint: "amount>100, amount<=50" },
+  { field: "category", hint: "category:food" },
+  { field: "account", hint: 'account:"HDFC Card"' },
+  { field: "tag", hint: "tag:reimbursed" },
+  { field: "payee", hint: "payee:uber" },
+  { field: "type", hint: "income, expense or transfer" },
+  { field: "repeat", hint: "repeat:monthly" },
+  { field: "after", hint: "on or after a date, after:2026-01-01" },
+  { field: "before", hint: "on or before a date, before:2026-01-31" },
+  { field: "on", hint: "on:2026-01-15" },
+];
+
+const TYPE_VALUES = ["income", "expense", "transfer"] as const;
+const REPEAT_VALUES = ["none", "daily", "every-2-days", "weekly", "monthly", "yearly"];
+const EXCLUDABLE_FIELDS: SearchField[] = ["category", "account", "tag", "payee", "type"];
+const FIELD_NAMES = SEARCH_FIELDS.map((f) => f.field);
+const LOOKUP_KEYS: Record<"category" | "account" | "tag" | "payee", keyof SearchLookups> = {
+  category: "categories",
+  account: "accounts",
+  tag: "tags",
+  payee: "payees",
+};
+
+type ListKey =
+  | "account_ids"
+  | "category_ids"
+  | "tag_ids"
+  | "payee_ids"
+  | "search_terms"
+  | "exclude_types"
+  | "exclude_account_ids"
+  | "exclude_category_ids"
+  | "exclude_tag_ids"
+  | "exclude_payee_ids"
+  | "exclude_search_terms";
+
+const LIST_KEYS: ListKey[] = [
+  "account_ids",
+  "category_ids",
+  "tag_ids",
+  "payee_ids",
+  "search_terms",
+  "exclude_types",
+  "exclude_account_ids",
+  "exclude_category_ids",
+  "exclude_tag_ids",
+  "exclude_payee_ids",
+  "exclude_search_terms",
+];
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[_\s]+/g, " ").trim();
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Splits a query into terms, keeping their positions for autocomplete.
+ * An unknown field name is treated as text, so "foo:bar" searches for "foo:bar".
+ */
+export function tokenizeSearchQuery(query: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = query[i] === "-" && i + 1 < query.length && !/\s/.test(query[i + 1]);
+    if (negated) i++;
+
+    let field: SearchField | null = null;
+    let operator: SearchOperator | null = null;
+    const match = /^([a-z]+)(>=|<=|>|<|=|:)/i.exec(query.slice(i));
+    if (match && FIELD_NAMES.includes(match[1].toLowerCase() as SearchField)) {
+      field = match[1].toLowerCase() as SearchField;
+      operator = match[2] as SearchOperator;
+      i += match[0].length;
+    }
+
+    const valueStart = i;
+    let value: string;
+    if (query[i] === '"') {
+      // An unclosed quote runs to the end of the query
+      const close = query.indexOf('"', i + 1);
+      value = query.slice(i + 1, close === -1 ? query.length : close);
+      i = close === -1 ? query.length : close + 1;
+    } else {
+      let end = i;
+      while (end < query.length && !/\s/.test(query[end])) end++;
+      value = query.slice(i, end);
+      i = end;
+    }
+
+    tokens.push({ field, operator, value, negated, start, end: i, valueStart });
+  }
+
+  return tokens;
+}
+
+// Bounds only ever narrow, so combining filters keeps whichever bound is stricter
+const applyAmountMin = (filters: TransactionListFilters, amount: number, exclusive: boolean) => {
+  const current = filters.amount_min;
+  if (current === undefined || amount > current || (amount === current && exclusive)) {
+    filters.amount_min = amount;
+    if (exclusive) filters.amount_min_exclusive = true;
+    else delete filters.amount_min_exclusive;
+  }
+};
+
+const applyAmountMax = (filters: TransactionListFilters, amount: number, exclusive: boolean) => {
+  const current = filters.amount_max;
+  if (current === undefined || amount < current || (amount === current && exclusive)) {
+    filters.amount_max = amount;
+    if (exclusive) filters.amount_max_exclusive = true;
+    else delete filters.amount_max_exclusive;
+  }
+};
+
+const applyDateFrom = (filters: TransactionListFilters, date: string) => {
+  if (!filters.date_from || date > filters.date_from) filters.date_from = date;
+};
+
+const applyDateTo = (filters: TransactionListFilters, date: string) => {
+  if (!filters.date_to || date < filters.date_to) filters.date_to = date;
+};
+
+const pushValue = (filters: TransactionListFilters, key: ListKey, value: string) => {
+  filters[key] = [...(filters[key] || []), value];
+};
+
+/**
+ * Turns a query into list filters, resolving names to ids. Terms still being typed
+ * (a field without a value) are ignored; terms that can't be applied are reported.
+ */
+export function parseSearchQuery(query: string, lookups: SearchLookups): ParsedSearchQuery {
+  const filters: TransactionListFilters = {};
+  const errors: string[] = [];
+
+  tokenizeSearchQuery(query).forEach(({ field, operator, value, negated }) => {
+    const text = value.trim();
+    if (!text) return;
+
+    if (!field) {
+      pushValue(filters, negated ? "exclude_search_terms" : "search_terms", text);
+      return;
+    }
+    if (negated && !EXCLUDABLE_FIELDS.includes(field)) {
+      errors.push(`${field}: can't be excluded`);
+      return;
+    }
+    if (field !== "amount" && operator !== ":") {
+      errors.push(`Use ${field}:${quote(text)}`);
+      return;
+    }
+
+    switch (field) {
+      case "amount": {
+        const amount = parseFloat(text.replace(/,/g, ""));
+        if (isNaN(amount)) {
+          errors.push(`"${text}" is not an amount`);
+          return;
+        }
+        if (operator === ">" || operator === ">=" || operator === ":" || operator === "=") {
+          applyAmountMin(filters, amount, operator === ">");
+        }
+        if (operator === "<" || operator === "<=" || operator === ":" || operator === "=") {
+          applyAmountMax(filters, amount, operator === "<");
+        }
+        return;
+      }
+      case "category":
+      case "account":
+      case "tag":
+      case "payee": {
+        const item = lookups[LOOKUP_KEYS[field]].find((i) => normalizeName(i.name) === normalizeName(text));
+        if (!item) {
+          errors.push(`No ${field} named "${text}"`);
+          return;
+        }
+        pushValue(filters, (negated ? `exclude_${field}_ids` : `${field}_ids`) as ListKey, item.id);
+        return;
+      }
+      case "type": {
+        const type = TYPE_VALUES.find((t) => t === text.toLowerCase());
+        if (!type) {
+          errors.push(`type: must be ${TYPE_VALUES.join(", ")}`);
+          return;
+        }
+        if (negated) pushValue(filters, "exclude_types", type);
+        else filters.type = type;
+        return;
+      }
+      case "repeat": {
+        const frequency = REPEAT_VALUES.find((f) => f === text.toLowerCase());
+        if (!frequency) {
+          errors.push(`repeat: must be ${REPEAT_VALUES.join(", ")}`);
+          return;
+        }
+        filters.frequency = frequency;
+        return;
+      }
+      case "after":
+      case "before":
+      case "on": {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || !isValid(parseISO(text))) {
+          errors.push(`${field}: needs a date like 2026-01-31`);
+          return;
+        }
+        if (field !== "before") applyDateFrom(filters, text);
+        if (field !== "after") applyDateTo(filters, text);
+        return;
+      }
+    }
+  });
+
+  return { filters, errors };
+}
+
+/**
+ * Filters matching only what both inputs match: lists are joined, the stricter amount and
+ * date bounds win, and a type from the query replaces the type filter
+ */
+export function combineListFilters(base: TransactionListFilters, query: TransactionListFilters): TransactionListFilters {
+  const combined: TransactionListFilters = { ...base };
+  if (query.type) combined.type = query.type;
+  if (query.frequency) combined.frequency = query.frequency;
+  if (query.amount_min !== undefined) applyAmountMin(combined, query.amount_min, !!query.amount_min_exclusive);
+  if (query.amount_max !== undefined) applyAmountMax(combined, query.amount_max, !!query.amount_max_exclusive);
+  if (query.date_from) applyDateFrom(combined, query.date_from);
+  if (query.date_to) applyDateTo(combined, query.date_to);
+  LIST_KEYS.forEach((key) => (query[key] || []).forEach((value) => pushValue(combined, key, value)));
+  return combined;
+}
+
+/**
+ * Completions for the term under the cursor: field names while typing a word,
+ * then the known values of that field
+ */
+export function getSearchSuggestions(query: string, cursor: number, lookups: SearchLookups): SearchSuggestion[] {
+  const token = tokenizeSearchQuery(query).find((t) => t.start <= cursor && cursor <= t.end);
+  const start = token?.start ?? cursor;
+  const end = token?.end ?? cursor;
+  const prefix = token?.negated ? "-" : "";
+
+  if (token?.field && cursor >= token.valueStart) {
+    const typed = normalizeName(token.value);
+    const field = token.field;
+    let values: string[] = [];
+    if (field === "category" || field === "account" || field === "tag" || field === "payee") {
+      values = lookups[LOOKUP_KEYS[field]].map((item) => item.name);
+    } else if (field === "type") values = [...TYPE_VALUES];
+    else if (field === "repeat") values = REPEAT_VALUES;
+
+    return [...new Set(values)]
+      .filter((v) => normalizeName(v).includes(typed) && normalizeName(v) !== typed)
+      .slice(0, 8)
+      .map((v) => ({
+        label: v,
+        replacement: `${prefix}${field}${token.operator}${quote(v)} `,
+        start,
+        end,
+      }));
+  }
+
+  // Free text: offer the fields whose name starts with what has been typed, or all of them in an empty box
+  const typed = (token?.value || "").toLowerCase();
+  if (token ? query[token.valueStart] === '"' || !typed : query.trim() !== "") return [];
+  return SEARCH_FIELDS.filter(({ field }) => field.startsWith(typed) && field !== typed).map(({ field, hint }) => ({
+    label: `${field}:`,
+    hint,
+    replacement: `${prefix}${field}:`,
+    start,
+    end,
+  }));
+}
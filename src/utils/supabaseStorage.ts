@@ -0,0 +1,80 @@
+/**
+ * Supabase Storage provider, uploading to the public "ezfinance" bucket under the user's id
+ * Works against hosted projects and a local Supabase stack alike. Previews are the stored images
+ * themselves, since image transformations aren't available on every plan; PDFs have none.
+ */
+import { supabase } from "@/integrations/supabase/client";
+import type { FileStorage, StorageFolder, StoredFile, StoredFileRef } from "./fileStorage";
+import { FORMAT_EXTENSIONS, isHeicFile, isPdfAttachment, withExtension } from "./fileFormats";
+
+// Must match the bucket created in supabase/migrations/20260301_file_storage.sql
+export const STORAGE_BUCKET = "ezfinance";
+
+/**
+ * Converts a HEIC photo to JPEG in the browser. Only browsers that can decode HEIC themselves
+ * (Safari) manage it; elsewhere the user is asked for a JPEG.
+ */
+async function convertHeicToJpeg(file: File): Promise<File> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error("This browser can't convert HEIC photos. Please upload a JPEG or PNG instead.");
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.9));
+  if (!blob) {
+    throw new Error("Failed to convert HEIC photo");
+  }
+  return new File([blob], withExtension(file.name, "image/jpeg"), { type: "image/jpeg" });
+}
+
+async function uploadToSupabaseStorage(file: File, folder: StorageFolder): Promise<StoredFile> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("User not authenticated");
+
+  const stored = isHeicFile(file) ? await convertHeicToJpeg(file) : file;
+  // The bucket policy only lets users upload under their own id
+  const path = `${session.user.id}/${folder}/${crypto.randomUUID()}.${FORMAT_EXTENSIONS[stored.type]}`;
+
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, stored, { contentType: stored.type, upsert: false });
+
+  if (error) {
+    console.error("[v0] SUPABASE STORAGE ERROR: Upload failed", {
+      path,
+      message: error.message,
+    });
+    throw error;
+  }
+
+  return {
+    provider: "supabase",
+    path,
+    url: supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path).data.publicUrl,
+    file_name: stored.name,
+    bytes: stored.size,
+    file_type: stored.type,
+  };
+}
+
+export const supabaseStorage: FileStorage = {
+  provider: "supabase",
+
+  upload: uploadToSupabaseStorage,
+
+  getThumbnailUrl(file: StoredFileRef) {
+    return isPdfAttachment(file) ? null : file.url;
+  },
+
+  getDownloadUrl(file: StoredFileRef) {
+    return supabase.storage.from(STORAGE_BUCKET).getPublicUrl(file.path, { download: file.file_name }).data.publicUrl;
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Helpers for reporting on split transactions.
+ * Reports count a split transaction's lines, each under its own category, instead of the parent.
+ */
+
+export interface CategoryLine {
+  category_id: string | null;
+  amount: number;
+}
+
+export interface SplittableTransaction {
+  category_id: string | null;
+  amount: number;
+  transaction_splits?: CategoryLine[] | null;
+}
+
+/**
+ * Category lines a transaction contributes to reports:
+ * its split lines when it has any, otherwise the transaction itself
+ */
+export function getCategoryLines(transaction: SplittableTransaction): CategoryLine[] {
+  if (transaction.transaction_splits && transaction.transaction_splits.length > 0) {
+    return transaction.transaction_splits.map((split) => ({
+      category_id: split.category_id,
+      amount: Number(split.amount),
+    }));
+  }
+  return [{ category_id: transaction.category_id, amount: Number(transaction.amount) }];
+}
+
+/**
+ * Amount of a transaction attributed to one category
+ */
+export function getCategoryAmount(transaction: SplittableTransaction, categoryId: string | null): number {
+  return getCategoryLines(transaction)
+    .filter((line) => line.category_id === categoryId)
+    .reduce((sum, line) => sum + line.amount, 0);
+}
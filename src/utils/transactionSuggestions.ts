@@ -0,0 +1,120 @@
+/**
+ * Suggestions for a new transaction learned from past ones: the category, account and payee most
+ * often used with similar descriptions. Everything is computed locally from the user's own history.
+ */
+import { descriptionSimilarity } from "./duplicateDetection";
+
+export interface SuggestionHistoryTransaction {
+  description: string | null;
+  type: string;
+  category_id: string | null;
+  account_id: string;
+  payee_id: string | null;
+}
+
+export interface TransactionSuggestion {
+  category_id: string | null;
+  account_id: string | null;
+  payee_id: string | null;
+  // Past transactions the suggestion is based on
+  matchCount: number;
+}
+
+export interface SuggestionOptions {
+  // Minimum description similarity between 0 and 1
+  minSimilarity: number;
+  // Shorter descriptions match too much to be useful
+  minDescriptionLength: number;
+}
+
+export const DEFAULT_SUGGESTION_OPTIONS: SuggestionOptions = {
+  minSimilarity: 0.6,
+  minDescriptionLength: 3,
+};
+
+// Past transactions with the same type and description, counted per value
+interface SuggestionEntry {
+  type: string;
+  description: string;
+  count: number;
+  categories: Map<string, number>;
+  accounts: Map<string, number>;
+  payees: Map<string, number>;
+}
+
+export type SuggestionIndex = SuggestionEntry[];
+
+const increment = (counts: Map<string, number>, key: string | null, by = 1) => {
+  if (key) counts.set(key, (counts.get(key) || 0) + by);
+};
+
+const mostCommon = (counts: Map<string, number>) => {
+  let best: string | null = null;
+  let bestWeight = 0;
+  for (const [key, weight] of counts) {
+    if (weight > bestWeight) {
+      best = key;
+      bestWeight = weight;
+    }
+  }
+  return best;
+};
+
+/**
+ * Group past transactions by type and description so each distinct description is compared once
+ */
+export function buildSuggestionIndex(transactions: SuggestionHistoryTransaction[]): SuggestionIndex {
+  const entries = new Map<string, SuggestionEntry>();
+  transactions.forEach((t) => {
+    const description = (t.description || "").trim();
+    if (!description) return;
+    const key = `${t.type}:${description.toLowerCase()}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { type: t.type, description, count: 0, categories: new Map(), accounts: new Map(), payees: new Map() };
+      entries.set(key, entry);
+    }
+    entry.count += 1;
+    increment(entry.categories, t.category_id);
+    increment(entry.accounts, t.account_id);
+    increment(entry.payees, t.payee_id);
+  });
+  return Array.from(entries.values());
+}
+
+/**
+ * The category, account and payee most used by past transactions of this type with a similar
+ * description, each vote weighted by how similar the description is. Null when nothing matches.
+ */
+export function suggestFromHistory(
+  index: SuggestionIndex,
+  description: string,
+  type: string,
+  options: SuggestionOptions = DEFAULT_SUGGESTION_OPTIONS
+): TransactionSuggestion | null {
+  if (description.trim().length < options.minDescriptionLength) return null;
+
+  const categories = new Map<string, number>();
+  const accounts = new Map<string, number>();
+  const payees = new Map<string, number>();
+  let matchCount = 0;
+
+  index.forEach((entry) => {
+    if (entry.type !== type) return;
+    const similarity = descriptionSimilarity(description, entry.description);
+    if (similarity < options.minSimilarity) return;
+    matchCount += entry.count;
+    entry.categories.forEach((count, id) => increment(categories, id, count * similarity));
+    entry.accounts.forEach((count, id) => increment(accounts, id, count * similarity));
+    entry.payees.forEach((count, id) => increment(payees, id, count * similarity));
+  });
+
+  if (matchCount === 0) return null;
+
+  return {
+    category_id: mostCommon(categories),
+    account_id: mostCommon(accounts),
+    payee_id: mostCommon(payees),
+    matchCount,
+  };
+}
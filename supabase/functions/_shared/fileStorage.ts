@@ -0,0 +1,71 @@
+/**
+ * Server-side deletion of stored files, for both storage providers the app can upload to.
+ *
+ * - Cloudinary needs CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET secrets.
+ * - Supabase Storage uses the service role, since users may only upload to the bucket.
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type StorageProvider = "cloudinary" | "supabase";
+
+// Must match STORAGE_BUCKET in src/utils/supabaseStorage.ts
+export const STORAGE_BUCKET = "ezfinance";
+
+export interface StoredFileRef {
+  // Files stored before providers were configurable have none and are on Cloudinary
+  provider?: StorageProvider | null;
+  path: string;
+}
+
+async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Signed Cloudinary destroy call; an asset that is already gone counts as deleted
+async function deleteCloudinaryAsset(publicId: string): Promise<void> {
+  const cloudName = Deno.env.get("CLOUDINARY_CLOUD_NAME");
+  const apiKey = Deno.env.get("CLOUDINARY_API_KEY");
+  const apiSecret = Deno.env.get("CLOUDINARY_API_SECRET");
+  if (!cloudName || !apiKey || !apiSecret) {
+    throw new Error("Cloudinary configuration is missing");
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = await sha1Hex(`public_id=${publicId}&timestamp=${timestamp}${apiSecret}`);
+
+  const body = new FormData();
+  body.append("public_id", publicId);
+  body.append("timestamp", timestamp);
+  body.append("api_key", apiKey);
+  body.append("signature", signature);
+
+  const response = await fetch(`https://api.cloudinary.com/v1_1/${cloudName}/image/destroy`, {
+    method: "POST",
+    body,
+  });
+  const result = await response.json();
+  if (!response.ok || (result.result !== "ok" && result.result !== "not found")) {
+    throw new Error(result.error?.message || `Failed to delete file ${publicId}`);
+  }
+}
+
+/**
+ * Deletes files from whichever provider holds each of them. Missing files are not an error.
+ */
+export async function deleteStoredFiles(files: StoredFileRef[]): Promise<void> {
+  const storagePaths = files.filter((file) => file.provider === "supabase").map((file) => file.path);
+  if (storagePaths.length > 0) {
+    const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { error } = await admin.storage.from(STORAGE_BUCKET).remove(storagePaths);
+    if (error) throw error;
+  }
+
+  for (const file of files) {
+    if (file.provider !== "supabase") {
+      await deleteCloudinaryAsset(file.path);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Permanently deletes entries from the transaction trash together with their attachment files,
+ * and deletes the files queued in storage_deletions by removed attachments and profile photos.
+ * Files are removed first, so a failed purge leaves the entry in the trash (or the file in the
+ * queue) to retry instead of orphaning files.
+ *
+ * Called two ways:
+ * - By the app with the user's session: { ids?: string[] } purges those entries, or the whole
+ *   trash when ids is omitted. Row level security limits it to the user's own entries and queued
+ *   files.
+ * - Daily by a scheduled invocation with the service role key: { expired: true } purges every
+ *   user's entries that have been in the trash for more than 30 days, and every queued file.
+ *
+ * Cloudinary files require CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET
+ * secrets.
+ */
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { deleteStoredFiles, type StorageProvider, type StoredFileRef } from "../_shared/fileStorage.ts";
+
+const RETENTION_DAYS = 30;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface TrashEntry {
+  id: string;
+  transactions: {
+    id: string;
+    transaction_attachments?: { cloudinary_public_id: string; storage_provider?: StorageProvider }[];
+  }[];
+}
+
+interface StorageDeletion {
+  id: string;
+  storage_provider: StorageProvider;
+  path: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { ids, expired } = (await req.json().catch(() => ({}))) as { ids?: string[]; expired?: boolean };
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authorization = req.headers.get("Authorization") || "";
+
+    let supabase;
+    let query;
+    let deletionsQuery;
+    if (expired) {
+      // Cross-user cleanup is reserved for the scheduled job
+      if (authorization !== `Bearer ${serviceRoleKey}`) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+      supabase = createClient(supabaseUrl, serviceRoleKey);
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      query = supabase.from("transaction_trash").select("id, transactions").lt("deleted_at", cutoff);
+      deletionsQuery = supabase.from("storage_deletions").select("id, storage_provider, path");
+    } else {
+      supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authorization } },
+      });
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return json({ error: "Unauthorized" }, 401);
+      }
+      query = supabase.from("transaction_trash").select("id, transactions");
+      if (ids) query = query.in("id", ids);
+      deletionsQuery = supabase.from("storage_deletions").select("id, storage_provider, path");
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const entries = (data || []) as TrashEntry[];
+
+    const { data: deletionsData, error: deletionsError } = await deletionsQuery;
+    if (deletionsError) throw deletionsError;
+    const deletions = (deletionsData || []) as StorageDeletion[];
+
+    const files: StoredFileRef[] = [
+      ...entries.flatMap((entry) =>
+        entry.transactions.flatMap((t) =>
+          (t.transaction_attachments || []).map((a) => ({ provider: a.storage_provider, path: a.cloudinary_public_id }))
+        )
+      ),
+      ...deletions.map((deletion) => ({ provider: deletion.storage_provider, path: deletion.path })),
+    ];
+    await deleteStoredFiles(files);
+
+    if (deletions.length > 0) {
+      const { error: queueError } = await supabase
+        .from("storage_deletions")
+        .delete()
+        .in("id", deletions.map((deletion) => deletion.id));
+      if (queueError) throw queueError;
+    }
+
+    if (entries.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("transaction_trash")
+        .delete()
+        .in("id", entries.map((entry) => entry.id));
+      if (deleteError) throw deleteError;
+
+      // The history is kept while a transaction can still be restored
+      const { error: logsError } = await supabase
+        .from("transaction_logs")
+        .delete()
+        .in("transaction_id", entries.flatMap((entry) => entry.transactions.map((t) => t.id)));
+      if (logsError) throw logsError;
+    }
+
+    return json({ purged: entries.length, files: files.length });
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,226 @@
+-- Recurring transaction series state
+-- A transaction with frequency <> 'none' is the template of a series; generated
+-- occurrences are plain rows (frequency 'none') pointing back at it.
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS recurrence_status TEXT NOT NULL DEFAULT 'active' CHECK (recurrence_status IN ('active', 'paused', 'ended')),
+ADD COLUMN IF NOT EXISTS recurrence_end_date DATE,
+ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.transactions.recurrence_status IS 'State of a recurring series: active, paused or ended';
+COMMENT ON COLUMN public.transactions.recurrence_end_date IS 'Last date on which the series may produce an occurrence';
+COMMENT ON COLUMN public.transactions.recurrence_parent_id IS 'Template transaction this occurrence was generated from';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_recurring_due
+  ON public.transactions(next_occurrence_date)
+  WHERE frequency <> 'none' AND recurrence_status = 'active';
+CREATE INDEX IF NOT EXISTS idx_transactions_recurrence_parent ON public.transactions(recurrence_parent_id);
+
+-- First date of the series anchored at anchor_date that falls strictly after after_date.
+-- Month/year steps are always counted from the anchor so the 31st doesn't drift to the 28th.
+CREATE OR REPLACE FUNCTION public.get_next_occurrence_date(anchor_date DATE, frequency TEXT, after_date DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  step_count INTEGER;
+  candidate DATE;
+BEGIN
+  CASE frequency
+    WHEN 'daily' THEN
+      step_count := GREATEST((after_date - anchor_date) + 1, 1);
+      RETURN anchor_date + step_count;
+    WHEN 'every-2-days' THEN
+      step_count := GREATEST(floor((after_date - anchor_date) / 2.0)::integer + 1, 1);
+      RETURN anchor_date + step_count * 2;
+    WHEN 'weekly' THEN
+      step_count := GREATEST(floor((after_date - anchor_date) / 7.0)::integer + 1, 1);
+      RETURN anchor_date + step_count * 7;
+    WHEN 'monthly' THEN
+      step_count := GREATEST(
+        (EXTRACT(YEAR FROM after_date) - EXTRACT(YEAR FROM anchor_date))::integer * 12
+          + (EXTRACT(MONTH FROM after_date) - EXTRACT(MONTH FROM anchor_date))::integer,
+        1
+      );
+      candidate := (anchor_date + make_interval(months => step_count))::date;
+      IF candidate <= after_date THEN
+        candidate := (anchor_date + make_interval(months => step_count + 1))::date;
+      END IF;
+      RETURN candidate;
+    WHEN 'yearly' THEN
+      step_count := GREATEST((EXTRACT(YEAR FROM after_date) - EXTRACT(YEAR FROM anchor_date))::integer, 1);
+      candidate := (anchor_date + make_interval(years => step_count))::date;
+      IF candidate <= after_date THEN
+        candidate := (anchor_date + make_interval(years => step_count + 1))::date;
+      END IF;
+      RETURN candidate;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+-- Keep next_occurrence_date in sync when a series is created or its schedule is edited
+CREATE OR REPLACE FUNCTION public.set_next_occurrence_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  last_generated DATE;
+BEGIN
+  IF NEW.frequency IS NULL OR NEW.frequency = 'none' THEN
+    NEW.next_occurrence_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.next_occurrence_date := public.get_next_occurrence_date(NEW.transaction_date, NEW.frequency, NEW.transaction_date);
+  ELSIF NEW.frequency IS DISTINCT FROM OLD.frequency OR NEW.transaction_date IS DISTINCT FROM OLD.transaction_date THEN
+    -- Never re-create occurrences that were already generated for this series
+    SELECT MAX(transaction_date) INTO last_generated
+    FROM public.transactions
+    WHERE recurrence_parent_id = NEW.id;
+
+    NEW.next_occurrence_date := public.get_next_occurrence_date(
+      NEW.transaction_date,
+      NEW.frequency,
+      GREATEST(NEW.transaction_date, COALESCE(last_generated, NEW.transaction_date))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_next_occurrence_date_trigger ON public.transactions;
+CREATE TRIGGER set_next_occurrence_date_trigger
+BEFORE INSERT OR UPDATE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_next_occurrence_date();
+
+-- Backfill existing series. Past occurrences were entered by hand until now,
+-- so start each series at its first occurrence on or after today.
+UPDATE public.transactions
+SET next_occurrence_date = public.get_next_occurrence_date(
+  transaction_date,
+  frequency,
+  GREATEST(transaction_date, CURRENT_DATE - 1)
+)
+WHERE frequency <> 'none'
+  AND next_occurrence_date IS NULL;
+
+-- Materialize every due occurrence, apply its balance and goal effect, and advance the series
+CREATE OR REPLACE FUNCTION public.create_recurring_transactions()
+RETURNS INTEGER AS $$
+DECLARE
+  template RECORD;
+  occurrence_date DATE;
+  balance_change NUMERIC;
+  goal_change NUMERIC;
+  created_count INTEGER := 0;
+BEGIN
+  FOR template IN
+    SELECT * FROM public.transactions
+    WHERE frequency <> 'none'
+      AND recurrence_status = 'active'
+      AND next_occurrence_date <= CURRENT_DATE
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence_date := template.next_occurrence_date;
+
+    WHILE occurrence_date <= CURRENT_DATE
+      AND (template.recurrence_end_date IS NULL OR occurrence_date <= template.recurrence_end_date)
+    LOOP
+      INSERT INTO public.transactions (
+        user_id, account_id, category_id, type, amount, currency, description, notes,
+        transaction_date, frequency, goal_id, goal_amount, goal_allocation_type, recurrence_parent_id
+      ) VALUES (
+        template.user_id, template.account_id, template.category_id, template.type, template.amount,
+        template.currency, template.description, template.notes,
+        occurrence_date, 'none', template.goal_id, template.goal_amount, template.goal_allocation_type, template.id
+      );
+
+      balance_change := CASE
+        WHEN template.type IN ('income', 'transfer-receiver') THEN template.amount
+        ELSE -template.amount
+      END;
+      PERFORM public.update_account_balance(template.account_id, balance_change);
+
+      IF template.goal_id IS NOT NULL AND template.goal_amount IS NOT NULL THEN
+        goal_change := CASE WHEN template.type = 'income' THEN template.goal_amount ELSE -template.goal_amount END;
+        UPDATE public.goals
+        SET current_amount = GREATEST(0, current_amount + goal_change)
+        WHERE id = template.goal_id;
+      END IF;
+
+      created_count := created_count + 1;
+      occurrence_date := public.get_next_occurrence_date(template.transaction_date, template.frequency, occurrence_date);
+    END LOOP;
+
+    UPDATE public.transactions
+    SET next_occurrence_date = occurrence_date,
+        recurrence_status = CASE
+          WHEN template.recurrence_end_date IS NOT NULL AND occurrence_date > template.recurrence_end_date THEN 'ended'
+          ELSE recurrence_status
+        END
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Skip the next occurrence of a series without creating it
+CREATE OR REPLACE FUNCTION public.skip_recurring_occurrence(p_transaction_id UUID)
+RETURNS DATE AS $$
+DECLARE
+  new_next_date DATE;
+BEGIN
+  UPDATE public.transactions
+  SET next_occurrence_date = public.get_next_occurrence_date(transaction_date, frequency, next_occurrence_date)
+  WHERE id = p_transaction_id
+    AND frequency <> 'none'
+    AND recurrence_status <> 'ended'
+  RETURNING next_occurrence_date INTO new_next_date;
+
+  IF new_next_date IS NULL THEN
+    RAISE EXCEPTION 'Recurring transaction not found or already ended';
+  END IF;
+
+  UPDATE public.transactions
+  SET recurrence_status = 'ended'
+  WHERE id = p_transaction_id
+    AND recurrence_end_date IS NOT NULL
+    AND new_next_date > recurrence_end_date;
+
+  RETURN new_next_date;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Resume a paused series; occurrences that fell due while paused are not created
+CREATE OR REPLACE FUNCTION public.resume_recurring_transaction(p_transaction_id UUID)
+RETURNS DATE AS $$
+DECLARE
+  new_next_date DATE;
+BEGIN
+  UPDATE public.transactions
+  SET recurrence_status = 'active',
+      next_occurrence_date = CASE
+        WHEN next_occurrence_date < CURRENT_DATE
+          THEN public.get_next_occurrence_date(transaction_date, frequency, CURRENT_DATE - 1)
+        ELSE next_occurrence_date
+      END
+  WHERE id = p_transaction_id
+    AND frequency <> 'none'
+    AND recurrence_status = 'paused'
+  RETURNING next_occurrence_date INTO new_next_date;
+
+  IF new_next_date IS NULL THEN
+    RAISE EXCEPTION 'Paused recurring transaction not found';
+  END IF;
+
+  RETURN new_next_date;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,158 @@
+-- Atomic transaction writes
+-- Each function changes the transaction row, the account balance and the linked goal
+-- inside a single database transaction, so a failure can't leave the ledger half-updated.
+
+-- Signed change a transaction applies to its account balance
+CREATE OR REPLACE FUNCTION public.transaction_balance_change(t public.transactions)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE WHEN t.type IN ('income', 'transfer-receiver') THEN t.amount ELSE -t.amount END;
+$$;
+
+-- Signed change a transaction applies to its linked goal (income adds, anything else deducts)
+CREATE OR REPLACE FUNCTION public.transaction_goal_change(t public.transactions)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN t.goal_id IS NULL OR t.goal_amount IS NULL THEN 0
+    WHEN t.type = 'income' THEN t.goal_amount
+    ELSE -t.goal_amount
+  END;
+$$;
+
+-- Single UPDATE so concurrent writers serialize on the goal row instead of racing
+CREATE OR REPLACE FUNCTION public.adjust_goal_amount(p_goal_id UUID, p_change NUMERIC)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_goal_id IS NULL OR p_change = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.goals
+  SET current_amount = GREATEST(0, current_amount + p_change)
+  WHERE id = p_goal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_transaction(p_transaction JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created public.transactions;
+BEGIN
+  INSERT INTO public.transactions (
+    user_id, account_id, category_id, type, amount, currency, description, notes,
+    transaction_date, frequency, recurrence_end_date, goal_id, goal_amount, goal_allocation_type
+  ) VALUES (
+    auth.uid(),
+    (p_transaction->>'account_id')::uuid,
+    (p_transaction->>'category_id')::uuid,
+    p_transaction->>'type',
+    (p_transaction->>'amount')::numeric,
+    COALESCE(p_transaction->>'currency', 'USD'),
+    p_transaction->>'description',
+    p_transaction->>'notes',
+    COALESCE((p_transaction->>'transaction_date')::date, CURRENT_DATE),
+    COALESCE(p_transaction->>'frequency', 'none'),
+    (p_transaction->>'recurrence_end_date')::date,
+    (p_transaction->>'goal_id')::uuid,
+    (p_transaction->>'goal_amount')::numeric,
+    p_transaction->>'goal_allocation_type'
+  )
+  RETURNING * INTO created;
+
+  PERFORM public.update_account_balance(created.account_id, public.transaction_balance_change(created));
+  PERFORM public.adjust_goal_amount(created.goal_id, public.transaction_goal_change(created));
+
+  RETURN created;
+END;
+$$;
+
+-- Only keys present in p_changes are written; pass an explicit null to clear a field
+CREATE OR REPLACE FUNCTION public.update_transaction(p_id UUID, p_changes JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  previous public.transactions;
+  updated public.transactions;
+BEGIN
+  SELECT * INTO previous FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  UPDATE public.transactions SET
+    account_id = CASE WHEN p_changes ? 'account_id' THEN (p_changes->>'account_id')::uuid ELSE account_id END,
+    category_id = CASE WHEN p_changes ? 'category_id' THEN (p_changes->>'category_id')::uuid ELSE category_id END,
+    type = CASE WHEN p_changes ? 'type' THEN p_changes->>'type' ELSE type END,
+    amount = CASE WHEN p_changes ? 'amount' THEN (p_changes->>'amount')::numeric ELSE amount END,
+    currency = CASE WHEN p_changes ? 'currency' THEN p_changes->>'currency' ELSE currency END,
+    description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+    notes = CASE WHEN p_changes ? 'notes' THEN p_changes->>'notes' ELSE notes END,
+    transaction_date = CASE WHEN p_changes ? 'transaction_date' THEN (p_changes->>'transaction_date')::date ELSE transaction_date END,
+    frequency = CASE WHEN p_changes ? 'frequency' THEN COALESCE(p_changes->>'frequency', 'none') ELSE frequency END,
+    recurrence_end_date = CASE WHEN p_changes ? 'recurrence_end_date' THEN (p_changes->>'recurrence_end_date')::date ELSE recurrence_end_date END,
+    goal_id = CASE WHEN p_changes ? 'goal_id' THEN (p_changes->>'goal_id')::uuid ELSE goal_id END,
+    goal_amount = CASE WHEN p_changes ? 'goal_amount' THEN (p_changes->>'goal_amount')::numeric ELSE goal_amount END,
+    goal_allocation_type = CASE WHEN p_changes ? 'goal_allocation_type' THEN p_changes->>'goal_allocation_type' ELSE goal_allocation_type END
+  WHERE id = p_id
+  RETURNING * INTO updated;
+
+  -- Reverse the old effect and apply the new one, netted per account and goal so a
+  -- goal floored at zero isn't clipped between the two steps
+  IF previous.account_id = updated.account_id THEN
+    PERFORM public.update_account_balance(
+      updated.account_id,
+      public.transaction_balance_change(updated) - public.transaction_balance_change(previous)
+    );
+  ELSE
+    PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+    PERFORM public.update_account_balance(updated.account_id, public.transaction_balance_change(updated));
+  END IF;
+
+  IF previous.goal_id IS NOT DISTINCT FROM updated.goal_id THEN
+    PERFORM public.adjust_goal_amount(
+      updated.goal_id,
+      public.transaction_goal_change(updated) - public.transaction_goal_change(previous)
+    );
+  ELSE
+    PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+    PERFORM public.adjust_goal_amount(updated.goal_id, public.transaction_goal_change(updated));
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  previous public.transactions;
+BEGIN
+  SELECT * INTO previous FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  DELETE FROM public.transactions WHERE id = p_id;
+
+  PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+  PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+END;
+$$;
@@ -0,0 +1,204 @@
+-- Link the two legs of a transfer together
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS transfer_group_id UUID;
+
+COMMENT ON COLUMN public.transactions.transfer_group_id IS 'Shared by the transfer-sender and transfer-receiver legs of one transfer';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_group ON public.transactions(transfer_group_id);
+
+-- Backfill: pair each unlinked sender with the closest unlinked receiver of the same user,
+-- date and amount whose description matches (same text, or the "Transfer to/from" pair
+-- written by the Accounts page)
+DO $$
+DECLARE
+  sender RECORD;
+  receiver_id UUID;
+  group_id UUID;
+BEGIN
+  FOR sender IN
+    SELECT t.*, a.name AS account_name
+    FROM public.transactions t
+    JOIN public.accounts a ON a.id = t.account_id
+    WHERE t.type = 'transfer-sender' AND t.transfer_group_id IS NULL
+    ORDER BY t.created_at
+  LOOP
+    SELECT r.id INTO receiver_id
+    FROM public.transactions r
+    JOIN public.accounts ra ON ra.id = r.account_id
+    WHERE r.type = 'transfer-receiver'
+      AND r.transfer_group_id IS NULL
+      AND r.user_id = sender.user_id
+      AND r.transaction_date = sender.transaction_date
+      AND r.amount = sender.amount
+      AND r.account_id <> sender.account_id
+      AND (
+        r.description IS NOT DISTINCT FROM sender.description
+        OR (sender.description = 'Transfer to ' || ra.name AND r.description = 'Transfer from ' || sender.account_name)
+      )
+    ORDER BY abs(extract(epoch FROM r.created_at - sender.created_at))
+    LIMIT 1;
+
+    IF receiver_id IS NOT NULL THEN
+      group_id := gen_random_uuid();
+      UPDATE public.transactions SET transfer_group_id = group_id WHERE id IN (sender.id, receiver_id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Accept transfer_group_id when creating a single leg
+CREATE OR REPLACE FUNCTION public.create_transaction(p_transaction JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created public.transactions;
+BEGIN
+  INSERT INTO public.transactions (
+    user_id, account_id, category_id, type, amount, currency, description, notes,
+    transaction_date, frequency, recurrence_end_date, goal_id, goal_amount, goal_allocation_type,
+    transfer_group_id
+  ) VALUES (
+    auth.uid(),
+    (p_transaction->>'account_id')::uuid,
+    (p_transaction->>'category_id')::uuid,
+    p_transaction->>'type',
+    (p_transaction->>'amount')::numeric,
+    COALESCE(p_transaction->>'currency', 'USD'),
+    p_transaction->>'description',
+    p_transaction->>'notes',
+    COALESCE((p_transaction->>'transaction_date')::date, CURRENT_DATE),
+    COALESCE(p_transaction->>'frequency', 'none'),
+    (p_transaction->>'recurrence_end_date')::date,
+    (p_transaction->>'goal_id')::uuid,
+    (p_transaction->>'goal_amount')::numeric,
+    p_transaction->>'goal_allocation_type',
+    (p_transaction->>'transfer_group_id')::uuid
+  )
+  RETURNING * INTO created;
+
+  PERFORM public.update_account_balance(created.account_id, public.transaction_balance_change(created));
+  PERFORM public.adjust_goal_amount(created.goal_id, public.transaction_goal_change(created));
+
+  RETURN created;
+END;
+$$;
+
+-- Create both legs of a transfer in one database transaction and return their shared id
+CREATE OR REPLACE FUNCTION public.create_transfer(p_transfer JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  from_account public.accounts;
+  to_account public.accounts;
+  group_id UUID := gen_random_uuid();
+BEGIN
+  SELECT * INTO from_account FROM public.accounts WHERE id = (p_transfer->>'from_account_id')::uuid;
+  SELECT * INTO to_account FROM public.accounts WHERE id = (p_transfer->>'to_account_id')::uuid;
+
+  IF from_account.id IS NULL OR to_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF from_account.id = to_account.id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  PERFORM public.create_transaction(jsonb_build_object(
+    'account_id', from_account.id,
+    'type', 'transfer-sender',
+    'amount', p_transfer->'amount',
+    'currency', from_account.currency,
+    'description', COALESCE(p_transfer->>'description', 'Transfer to ' || to_account.name),
+    'notes', p_transfer->'notes',
+    'transaction_date', p_transfer->'transaction_date',
+    'transfer_group_id', group_id
+  ));
+
+  PERFORM public.create_transaction(jsonb_build_object(
+    'account_id', to_account.id,
+    'type', 'transfer-receiver',
+    'amount', p_transfer->'amount',
+    'currency', to_account.currency,
+    'description', COALESCE(p_transfer->>'description', 'Transfer from ' || from_account.name),
+    'notes', p_transfer->'notes',
+    'transaction_date', p_transfer->'transaction_date',
+    'transfer_group_id', group_id
+  ));
+
+  RETURN group_id;
+END;
+$$;
+
+-- Edit both legs of a transfer together. Recognised keys: from_account_id, to_account_id,
+-- amount, transaction_date, description, notes.
+CREATE OR REPLACE FUNCTION public.update_transfer(p_transfer_group_id UUID, p_changes JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  leg public.transactions;
+  leg_changes JSONB;
+  account_key TEXT;
+  new_account public.accounts;
+BEGIN
+  FOR leg IN
+    SELECT * FROM public.transactions
+    WHERE transfer_group_id = p_transfer_group_id
+    FOR UPDATE
+  LOOP
+    leg_changes := p_changes - 'from_account_id' - 'to_account_id';
+    account_key := CASE WHEN leg.type = 'transfer-sender' THEN 'from_account_id' ELSE 'to_account_id' END;
+
+    IF p_changes ? account_key AND (p_changes->>account_key)::uuid <> leg.account_id THEN
+      SELECT * INTO new_account FROM public.accounts WHERE id = (p_changes->>account_key)::uuid;
+      IF new_account.id IS NULL THEN
+        RAISE EXCEPTION 'Account not found';
+      END IF;
+      leg_changes := leg_changes || jsonb_build_object('account_id', new_account.id, 'currency', new_account.currency);
+    END IF;
+
+    PERFORM public.update_transaction(leg.id, leg_changes);
+  END LOOP;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT account_id) FROM public.transactions WHERE transfer_group_id = p_transfer_group_id) < 2 THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+END;
+$$;
+
+-- Deleting either leg of a transfer removes the whole transfer
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.transactions;
+  previous public.transactions;
+BEGIN
+  SELECT * INTO target FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  FOR previous IN
+    SELECT * FROM public.transactions
+    WHERE id = p_id
+       OR (target.transfer_group_id IS NOT NULL AND transfer_group_id = target.transfer_group_id)
+    FOR UPDATE
+  LOOP
+    DELETE FROM public.transactions WHERE id = previous.id;
+
+    PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+    PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+  END LOOP;
+END;
+$$;
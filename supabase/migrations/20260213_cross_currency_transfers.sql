@@ -0,0 +1,246 @@
+-- Cross-currency transfers
+-- Each leg is recorded in its own account's currency; the receiving leg keeps the rate used.
+-- An optional fee is booked as an expense on the source account inside the same transfer group.
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC;
+
+COMMENT ON COLUMN public.transactions.exchange_rate IS 'Units of this leg''s currency per unit of the sending leg''s currency';
+
+-- Received amount for a transfer: explicit amount, else sent amount at the given rate,
+-- else the sent amount when both accounts share a currency
+CREATE OR REPLACE FUNCTION public.resolve_transfer_received_amount(
+  p_sent NUMERIC,
+  p_received NUMERIC,
+  p_rate NUMERIC,
+  p_from_currency TEXT,
+  p_to_currency TEXT
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_received IS NOT NULL THEN
+    RETURN p_received;
+  ELSIF p_rate IS NOT NULL THEN
+    RETURN round(p_sent * p_rate, 2);
+  ELSIF p_from_currency = p_to_currency THEN
+    RETURN p_sent;
+  END IF;
+
+  RAISE EXCEPTION 'Received amount or exchange rate is required for a % to % transfer', p_from_currency, p_to_currency;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_transfer(p_transfer JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  from_account public.accounts;
+  to_account public.accounts;
+  group_id UUID := gen_random_uuid();
+  sent_amount NUMERIC := (p_transfer->>'amount')::numeric;
+  received_amount NUMERIC;
+  fee_amount NUMERIC := COALESCE((p_transfer->>'fee')::numeric, 0);
+BEGIN
+  SELECT * INTO from_account FROM public.accounts WHERE id = (p_transfer->>'from_account_id')::uuid;
+  SELECT * INTO to_account FROM public.accounts WHERE id = (p_transfer->>'to_account_id')::uuid;
+
+  IF from_account.id IS NULL OR to_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF from_account.id = to_account.id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  received_amount := public.resolve_transfer_received_amount(
+    sent_amount,
+    (p_transfer->>'received_amount')::numeric,
+    (p_transfer->>'exchange_rate')::numeric,
+    from_account.currency,
+    to_account.currency
+  );
+
+  PERFORM public.create_transaction(jsonb_build_object(
+    'account_id', from_account.id,
+    'type', 'transfer-sender',
+    'amount', sent_amount,
+    'currency', from_account.currency,
+    'description', COALESCE(p_transfer->>'description', 'Transfer to ' || to_account.name),
+    'notes', p_transfer->'notes',
+    'transaction_date', p_transfer->'transaction_date',
+    'transfer_group_id', group_id
+  ));
+
+  PERFORM public.create_transaction(jsonb_build_object(
+    'account_id', to_account.id,
+    'type', 'transfer-receiver',
+    'amount', received_amount,
+    'currency', to_account.currency,
+    'description', COALESCE(p_transfer->>'description', 'Transfer from ' || from_account.name),
+    'notes', p_transfer->'notes',
+    'transaction_date', p_transfer->'transaction_date',
+    'transfer_group_id', group_id
+  ));
+
+  UPDATE public.transactions
+  SET exchange_rate = CASE WHEN sent_amount <> 0 THEN received_amount / sent_amount END
+  WHERE transfer_group_id = group_id AND type = 'transfer-receiver';
+
+  IF fee_amount > 0 THEN
+    PERFORM public.create_transaction(jsonb_build_object(
+      'account_id', from_account.id,
+      'type', 'expense',
+      'amount', fee_amount,
+      'currency', from_account.currency,
+      'description', 'Transfer fee: ' || from_account.name || ' to ' || to_account.name,
+      'transaction_date', p_transfer->'transaction_date',
+      'transfer_group_id', group_id
+    ));
+  END IF;
+
+  RETURN group_id;
+END;
+$$;
+
+-- Edit a transfer as a whole. Recognised keys: from_account_id, to_account_id, amount,
+-- received_amount, exchange_rate, fee, transaction_date, description, notes.
+CREATE OR REPLACE FUNCTION public.update_transfer(p_transfer_group_id UUID, p_changes JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  sender public.transactions;
+  receiver public.transactions;
+  fee_leg public.transactions;
+  from_account public.accounts;
+  to_account public.accounts;
+  shared_changes JSONB;
+  sent_amount NUMERIC;
+  received_amount NUMERIC;
+  fee_amount NUMERIC;
+BEGIN
+  SELECT * INTO sender FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'transfer-sender' FOR UPDATE;
+  SELECT * INTO receiver FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'transfer-receiver' FOR UPDATE;
+  SELECT * INTO fee_leg FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'expense' FOR UPDATE;
+
+  IF sender.id IS NULL OR receiver.id IS NULL THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  SELECT * INTO from_account FROM public.accounts
+  WHERE id = COALESCE((p_changes->>'from_account_id')::uuid, sender.account_id);
+  SELECT * INTO to_account FROM public.accounts
+  WHERE id = COALESCE((p_changes->>'to_account_id')::uuid, receiver.account_id);
+
+  IF from_account.id IS NULL OR to_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF from_account.id = to_account.id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  sent_amount := COALESCE((p_changes->>'amount')::numeric, sender.amount);
+
+  -- Keep the stored rate unless the caller gives a new received amount or rate
+  received_amount := public.resolve_transfer_received_amount(
+    sent_amount,
+    (p_changes->>'received_amount')::numeric,
+    COALESCE(
+      (p_changes->>'exchange_rate')::numeric,
+      CASE WHEN from_account.currency <> to_account.currency THEN receiver.exchange_rate END
+    ),
+    from_account.currency,
+    to_account.currency
+  );
+
+  shared_changes := jsonb_strip_nulls(jsonb_build_object(
+    'transaction_date', p_changes->'transaction_date',
+    'description', p_changes->'description'
+  ));
+  IF p_changes ? 'notes' THEN
+    shared_changes := shared_changes || jsonb_build_object('notes', p_changes->'notes');
+  END IF;
+
+  PERFORM public.update_transaction(sender.id, shared_changes || jsonb_build_object(
+    'account_id', from_account.id,
+    'currency', from_account.currency,
+    'amount', sent_amount
+  ));
+
+  PERFORM public.update_transaction(receiver.id, shared_changes || jsonb_build_object(
+    'account_id', to_account.id,
+    'currency', to_account.currency,
+    'amount', received_amount
+  ));
+
+  UPDATE public.transactions
+  SET exchange_rate = CASE WHEN sent_amount <> 0 THEN received_amount / sent_amount END
+  WHERE id = receiver.id;
+
+  fee_amount := CASE WHEN p_changes ? 'fee' THEN COALESCE((p_changes->>'fee')::numeric, 0) ELSE COALESCE(fee_leg.amount, 0) END;
+
+  IF fee_amount > 0 AND fee_leg.id IS NOT NULL THEN
+    PERFORM public.update_transaction(fee_leg.id, jsonb_build_object(
+      'account_id', from_account.id,
+      'currency', from_account.currency,
+      'amount', fee_amount,
+      'transaction_date', COALESCE(p_changes->>'transaction_date', fee_leg.transaction_date::text)
+    ));
+  ELSIF fee_amount > 0 THEN
+    PERFORM public.create_transaction(jsonb_build_object(
+      'account_id', from_account.id,
+      'type', 'expense',
+      'amount', fee_amount,
+      'currency', from_account.currency,
+      'description', 'Transfer fee: ' || from_account.name || ' to ' || to_account.name,
+      'transaction_date', COALESCE(p_changes->>'transaction_date', sender.transaction_date::text),
+      'transfer_group_id', p_transfer_group_id
+    ));
+  ELSIF fee_leg.id IS NOT NULL THEN
+    DELETE FROM public.transactions WHERE id = fee_leg.id;
+    PERFORM public.update_account_balance(fee_leg.account_id, -public.transaction_balance_change(fee_leg));
+  END IF;
+END;
+$$;
+
+-- Deleting either leg of a transfer removes the whole transfer including its fee;
+-- deleting just the fee expense leaves the transfer itself in place
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.transactions;
+  previous public.transactions;
+BEGIN
+  SELECT * INTO target FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  FOR previous IN
+    SELECT * FROM public.transactions
+    WHERE id = p_id
+       OR (
+         target.transfer_group_id IS NOT NULL
+         AND target.type IN ('transfer-sender', 'transfer-receiver')
+         AND transfer_group_id = target.transfer_group_id
+       )
+    FOR UPDATE
+  LOOP
+    DELETE FROM public.transactions WHERE id = previous.id;
+
+    PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+    PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,266 @@
+-- Free-form tags on transactions (many-to-many), e.g. "vacation-2026" or "reimbursable"
+CREATE TABLE public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tag names are unique per user regardless of case
+CREATE UNIQUE INDEX idx_tags_user_name ON public.tags(user_id, lower(name));
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TABLE public.transaction_tags (
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (transaction_id, tag_id)
+);
+
+ALTER TABLE public.transaction_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction tags"
+  ON public.transaction_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transaction tags"
+  ON public.transaction_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction tags"
+  ON public.transaction_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transaction_tags_tag_id ON public.transaction_tags(tag_id);
+
+-- Replace the tags of a transaction with the given names, creating tags that don't exist yet
+CREATE OR REPLACE FUNCTION public.set_transaction_tags(p_transaction_id UUID, p_tags JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  tag_names TEXT[];
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT btrim(value)), '{}')
+  INTO tag_names
+  FROM jsonb_array_elements_text(COALESCE(p_tags, '[]'::jsonb))
+  WHERE btrim(value) <> '';
+
+  INSERT INTO public.tags (user_id, name)
+  SELECT auth.uid(), name FROM unnest(tag_names) AS name
+  ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+  DELETE FROM public.transaction_tags WHERE transaction_id = p_transaction_id;
+
+  INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+  SELECT DISTINCT p_transaction_id, t.id, auth.uid()
+  FROM public.tags t
+  WHERE t.user_id = auth.uid()
+    AND lower(t.name) IN (SELECT lower(name) FROM unnest(tag_names) AS name);
+END;
+$$;
+
+-- Accept an optional "tags" array of names when creating a transaction
+CREATE OR REPLACE FUNCTION public.create_transaction(p_transaction JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created public.transactions;
+BEGIN
+  INSERT INTO public.transactions (
+    user_id, account_id, category_id, type, amount, currency, description, notes,
+    transaction_date, frequency, recurrence_end_date, goal_id, goal_amount, goal_allocation_type,
+    transfer_group_id
+  ) VALUES (
+    auth.uid(),
+    (p_transaction->>'account_id')::uuid,
+    (p_transaction->>'category_id')::uuid,
+    p_transaction->>'type',
+    (p_transaction->>'amount')::numeric,
+    COALESCE(p_transaction->>'currency', 'USD'),
+    p_transaction->>'description',
+    p_transaction->>'notes',
+    COALESCE((p_transaction->>'transaction_date')::date, CURRENT_DATE),
+    COALESCE(p_transaction->>'frequency', 'none'),
+    (p_transaction->>'recurrence_end_date')::date,
+    (p_transaction->>'goal_id')::uuid,
+    (p_transaction->>'goal_amount')::numeric,
+    p_transaction->>'goal_allocation_type',
+    (p_transaction->>'transfer_group_id')::uuid
+  )
+  RETURNING * INTO created;
+
+  IF jsonb_typeof(p_transaction->'splits') = 'array' THEN
+    PERFORM public.replace_transaction_splits(created.id, p_transaction->'splits');
+  END IF;
+
+  IF jsonb_typeof(p_transaction->'tags') = 'array' THEN
+    PERFORM public.set_transaction_tags(created.id, p_transaction->'tags');
+  END IF;
+
+  PERFORM public.update_account_balance(created.account_id, public.transaction_balance_change(created));
+  PERFORM public.adjust_goal_amount(created.goal_id, public.transaction_goal_change(created));
+
+  RETURN created;
+END;
+$$;
+
+-- Accept an optional "tags" array when editing; omit the key to leave tags untouched
+CREATE OR REPLACE FUNCTION public.update_transaction(p_id UUID, p_changes JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  previous public.transactions;
+  updated public.transactions;
+BEGIN
+  SELECT * INTO previous FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  UPDATE public.transactions SET
+    account_id = CASE WHEN p_changes ? 'account_id' THEN (p_changes->>'account_id')::uuid ELSE account_id END,
+    category_id = CASE WHEN p_changes ? 'category_id' THEN (p_changes->>'category_id')::uuid ELSE category_id END,
+    type = CASE WHEN p_changes ? 'type' THEN p_changes->>'type' ELSE type END,
+    amount = CASE WHEN p_changes ? 'amount' THEN (p_changes->>'amount')::numeric ELSE amount END,
+    currency = CASE WHEN p_changes ? 'currency' THEN p_changes->>'currency' ELSE currency END,
+    description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+    notes = CASE WHEN p_changes ? 'notes' THEN p_changes->>'notes' ELSE notes END,
+    transaction_date = CASE WHEN p_changes ? 'transaction_date' THEN (p_changes->>'transaction_date')::date ELSE transaction_date END,
+    frequency = CASE WHEN p_changes ? 'frequency' THEN COALESCE(p_changes->>'frequency', 'none') ELSE frequency END,
+    recurrence_end_date = CASE WHEN p_changes ? 'recurrence_end_date' THEN (p_changes->>'recurrence_end_date')::date ELSE recurrence_end_date END,
+    goal_id = CASE WHEN p_changes ? 'goal_id' THEN (p_changes->>'goal_id')::uuid ELSE goal_id END,
+    goal_amount = CASE WHEN p_changes ? 'goal_amount' THEN (p_changes->>'goal_amount')::numeric ELSE goal_amount END,
+    goal_allocation_type = CASE WHEN p_changes ? 'goal_allocation_type' THEN p_changes->>'goal_allocation_type' ELSE goal_allocation_type END
+  WHERE id = p_id
+  RETURNING * INTO updated;
+
+  IF p_changes ? 'splits' THEN
+    PERFORM public.replace_transaction_splits(p_id, p_changes->'splits');
+  END IF;
+
+  IF p_changes ? 'tags' THEN
+    PERFORM public.set_transaction_tags(p_id, p_changes->'tags');
+  END IF;
+
+  -- Reverse the old effect and apply the new one, netted per account and goal so a
+  -- goal floored at zero isn't clipped between the two steps
+  IF previous.account_id = updated.account_id THEN
+    PERFORM public.update_account_balance(
+      updated.account_id,
+      public.transaction_balance_change(updated) - public.transaction_balance_change(previous)
+    );
+  ELSE
+    PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+    PERFORM public.update_account_balance(updated.account_id, public.transaction_balance_change(updated));
+  END IF;
+
+  IF previous.goal_id IS NOT DISTINCT FROM updated.goal_id THEN
+    PERFORM public.adjust_goal_amount(
+      updated.goal_id,
+      public.transaction_goal_change(updated) - public.transaction_goal_change(previous)
+    );
+  ELSE
+    PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+    PERFORM public.adjust_goal_amount(updated.goal_id, public.transaction_goal_change(updated));
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+-- Generated occurrences carry the template's split lines and tags
+CREATE OR REPLACE FUNCTION public.create_recurring_transactions()
+RETURNS INTEGER AS $$
+DECLARE
+  template RECORD;
+  occurrence_date DATE;
+  occurrence_id UUID;
+  balance_change NUMERIC;
+  goal_change NUMERIC;
+  created_count INTEGER := 0;
+BEGIN
+  FOR template IN
+    SELECT * FROM public.transactions
+    WHERE frequency <> 'none'
+      AND recurrence_status = 'active'
+      AND next_occurrence_date <= CURRENT_DATE
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence_date := template.next_occurrence_date;
+
+    WHILE occurrence_date <= CURRENT_DATE
+      AND (template.recurrence_end_date IS NULL OR occurrence_date <= template.recurrence_end_date)
+    LOOP
+      INSERT INTO public.transactions (
+        user_id, account_id, category_id, type, amount, currency, description, notes,
+        transaction_date, frequency, goal_id, goal_amount, goal_allocation_type, recurrence_parent_id
+      ) VALUES (
+        template.user_id, template.account_id, template.category_id, template.type, template.amount,
+        template.currency, template.description, template.notes,
+        occurrence_date, 'none', template.goal_id, template.goal_amount, template.goal_allocation_type, template.id
+      )
+      RETURNING id INTO occurrence_id;
+
+      INSERT INTO public.transaction_splits (transaction_id, user_id, category_id, amount, notes)
+      SELECT occurrence_id, user_id, category_id, amount, notes
+      FROM public.transaction_splits
+      WHERE transaction_id = template.id;
+
+      INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+      SELECT occurrence_id, tag_id, user_id
+      FROM public.transaction_tags
+      WHERE transaction_id = template.id;
+
+      balance_change := CASE
+        WHEN template.type IN ('income', 'transfer-receiver') THEN template.amount
+        ELSE -template.amount
+      END;
+      PERFORM public.update_account_balance(template.account_id, balance_change);
+
+      IF template.goal_id IS NOT NULL AND template.goal_amount IS NOT NULL THEN
+        goal_change := CASE WHEN template.type = 'income' THEN template.goal_amount ELSE -template.goal_amount END;
+        UPDATE public.goals
+        SET current_amount = GREATEST(0, current_amount + goal_change)
+        WHERE id = template.goal_id;
+      END IF;
+
+      created_count := created_count + 1;
+      occurrence_date := public.get_next_occurrence_date(template.transaction_date, template.frequency, occurrence_date);
+    END LOOP;
+
+    UPDATE public.transactions
+    SET next_occurrence_date = occurrence_date,
+        recurrence_status = CASE
+          WHEN template.recurrence_end_date IS NOT NULL AND occurrence_date > template.recurrence_end_date THEN 'ended'
+          ELSE recurrence_status
+        END
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
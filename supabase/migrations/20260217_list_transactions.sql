@@ -0,0 +1,171 @@
+-- Filtered, sorted and keyset-paginated transaction list for the Transactions page
+--
+-- p_filters keys (all optional):
+--   type          'income' | 'expense' | 'transfer' | 'transfer-sender' | 'transfer-receiver'
+--   account_ids   array of account ids; a transfer matches through either of its legs
+--   category_id   matches the transaction's category or any of its split lines
+--   tag_id, payee_id, frequency
+--   amount_min, amount_max, date_from, date_to (inclusive)
+--   search        text matched against description, notes, category, tag and payee names
+-- p_sort_field: 'created_at' | 'transaction_date' | 'amount'; p_sort_order: 'asc' | 'desc'
+-- p_cursor: the next_cursor of the previous page, NULL for the first page
+--
+-- Returns { rows, total_count, next_cursor }. Each linked transfer is listed once, by its sending leg.
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_at ON public.transactions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_transaction_date ON public.transactions(user_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_group_id ON public.transactions(transfer_group_id);
+
+CREATE OR REPLACE FUNCTION public.list_transactions(
+  p_filters JSONB DEFAULT '{}'::jsonb,
+  p_sort_field TEXT DEFAULT 'created_at',
+  p_sort_order TEXT DEFAULT 'desc',
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  f JSONB := COALESCE(p_filters, '{}'::jsonb);
+  search_pattern TEXT;
+  total INTEGER;
+  page JSONB;
+  next_cursor JSONB;
+BEGIN
+  IF p_sort_field NOT IN ('created_at', 'transaction_date', 'amount') THEN
+    RAISE EXCEPTION 'Unsupported sort field: %', p_sort_field;
+  END IF;
+
+  IF COALESCE(f->>'search', '') <> '' THEN
+    -- Match the text literally, not as a LIKE pattern
+    search_pattern := '%' || replace(replace(replace(f->>'search', '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  END IF;
+
+  WITH matching AS (
+    SELECT
+      t.id,
+      -- One numeric key per sort field, negated for descending order so the page query is always ascending
+      (CASE p_sort_field
+        WHEN 'amount' THEN t.amount
+        WHEN 'transaction_date' THEN (t.transaction_date - DATE '1970-01-01')::numeric
+        ELSE extract(epoch FROM t.created_at)
+      END) * CASE WHEN p_sort_order = 'asc' THEN 1 ELSE -1 END AS sort_key
+    FROM public.transactions t
+    WHERE
+      NOT (
+        t.type = 'transfer-receiver'
+        AND t.transfer_group_id IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM public.transactions s
+          WHERE s.transfer_group_id = t.transfer_group_id AND s.type = 'transfer-sender'
+        )
+      )
+      AND (
+        f->>'type' IS NULL
+        OR (f->>'type' = 'transfer' AND t.type IN ('transfer-sender', 'transfer-receiver'))
+        OR t.type = f->>'type'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'account_ids', '[]'::jsonb)) AS account(id)
+        WHERE t.account_id <> account.id::uuid
+          AND NOT (
+            t.type = 'transfer-sender'
+            AND t.transfer_group_id IS NOT NULL
+            AND EXISTS (
+              SELECT 1 FROM public.transactions r
+              WHERE r.transfer_group_id = t.transfer_group_id
+                AND r.type = 'transfer-receiver'
+                AND r.account_id = account.id::uuid
+            )
+          )
+      )
+      AND (
+        f->>'category_id' IS NULL
+        OR t.category_id = (f->>'category_id')::uuid
+        OR EXISTS (
+          SELECT 1 FROM public.transaction_splits s
+          WHERE s.transaction_id = t.id AND s.category_id = (f->>'category_id')::uuid
+        )
+      )
+      AND (
+        f->>'tag_id' IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.transaction_tags tt
+          WHERE tt.transaction_id = t.id AND tt.tag_id = (f->>'tag_id')::uuid
+        )
+      )
+      AND (f->>'payee_id' IS NULL OR t.payee_id = (f->>'payee_id')::uuid)
+      AND (f->>'frequency' IS NULL OR t.frequency = f->>'frequency')
+      AND (f->>'amount_min' IS NULL OR t.amount >= (f->>'amount_min')::numeric)
+      AND (f->>'amount_max' IS NULL OR t.amount <= (f->>'amount_max')::numeric)
+      AND (f->>'date_from' IS NULL OR t.transaction_date >= (f->>'date_from')::date)
+      AND (f->>'date_to' IS NULL OR t.transaction_date <= (f->>'date_to')::date)
+      AND (
+        search_pattern IS NULL
+        OR t.description ILIKE search_pattern
+        OR t.notes ILIKE search_pattern
+        OR EXISTS (
+          SELECT 1 FROM public.categories c
+          WHERE c.name ILIKE search_pattern
+            AND (
+              c.id = t.category_id
+              OR EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id AND s.category_id = c.id)
+            )
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.transaction_tags tt
+          JOIN public.tags tg ON tg.id = tt.tag_id
+          WHERE tt.transaction_id = t.id AND tg.name ILIKE search_pattern
+        )
+        OR EXISTS (
+          SELECT 1 FROM public.payees p
+          WHERE p.id = t.payee_id AND p.name ILIKE search_pattern
+        )
+      )
+  ),
+  page_ids AS (
+    SELECT m.id, m.sort_key, row_number() OVER (ORDER BY m.sort_key, m.id) AS rn
+    FROM (
+      SELECT * FROM matching
+      WHERE p_cursor IS NULL
+         OR (matching.sort_key, matching.id) > ((p_cursor->>'sort_key')::numeric, (p_cursor->>'id')::uuid)
+      ORDER BY matching.sort_key, matching.id
+      -- One extra row tells whether there is a next page
+      LIMIT p_limit + 1
+    ) m
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matching),
+    COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object(
+        'transaction_splits', COALESCE(
+          (SELECT jsonb_agg(to_jsonb(s)) FROM public.transaction_splits s WHERE s.transaction_id = t.id),
+          '[]'::jsonb
+        ),
+        'transaction_tags', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('tag_id', tt.tag_id)) FROM public.transaction_tags tt WHERE tt.transaction_id = t.id),
+          '[]'::jsonb
+        )
+      )
+      ORDER BY p.rn
+    ) FILTER (WHERE p.rn <= p_limit), '[]'::jsonb),
+    -- The key is passed as text so it survives a round trip through JavaScript numbers
+    CASE WHEN MAX(p.rn) > p_limit THEN (
+      SELECT jsonb_build_object('sort_key', last_row.sort_key::text, 'id', last_row.id)
+      FROM page_ids last_row
+      WHERE last_row.rn = p_limit
+    ) END
+  INTO total, page, next_cursor
+  FROM page_ids p
+  JOIN public.transactions t ON t.id = p.id;
+
+  RETURN jsonb_build_object(
+    'rows', page,
+    'total_count', total,
+    'next_cursor', next_cursor
+  );
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Named filter views for the Transactions page. filters holds the page's URL query parameters.
+CREATE TABLE public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One view per name per user, regardless of case
+CREATE UNIQUE INDEX idx_saved_views_user_name ON public.saved_views(user_id, lower(name));
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved views"
+  ON public.saved_views FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved views"
+  ON public.saved_views FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved views"
+  ON public.saved_views FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved views"
+  ON public.saved_views FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
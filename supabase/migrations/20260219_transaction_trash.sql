@@ -0,0 +1,164 @@
+-- Trash for deleted transactions
+-- Deleting a transaction moves a snapshot of it (with its splits, tags and attachments) here and
+-- reverts its balance and goal effects. Restoring puts it back and re-applies them. Entries are
+-- removed for good by the purge-trash edge function, which also deletes the attachment files;
+-- it runs daily for entries older than 30 days.
+
+CREATE TABLE public.transaction_trash (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The deleted rows, sending leg first for a linked transfer. Each row also carries
+  -- transaction_splits, transaction_tags, transaction_attachments and recurrence_child_ids.
+  transactions JSONB NOT NULL,
+  deleted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_transaction_trash_user_deleted_at ON public.transaction_trash(user_id, deleted_at);
+
+ALTER TABLE public.transaction_trash ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own trash"
+  ON public.transaction_trash FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own trash"
+  ON public.transaction_trash FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own trash"
+  ON public.transaction_trash FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Deleting either leg of a transfer moves the whole transfer to the trash
+CREATE OR REPLACE FUNCTION public.delete_transaction(p_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.transactions;
+  previous public.transactions;
+  snapshot JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO target FROM public.transactions WHERE id = p_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  FOR previous IN
+    SELECT * FROM public.transactions
+    WHERE id = p_id
+       OR (
+         target.transfer_group_id IS NOT NULL
+         AND target.type IN ('transfer-sender', 'transfer-receiver')
+         AND transfer_group_id = target.transfer_group_id
+       )
+    ORDER BY CASE type WHEN 'transfer-sender' THEN 0 WHEN 'transfer-receiver' THEN 1 ELSE 2 END
+    FOR UPDATE
+  LOOP
+    snapshot := snapshot || jsonb_build_array(
+      to_jsonb(previous) || jsonb_build_object(
+        'transaction_splits', COALESCE(
+          (SELECT jsonb_agg(to_jsonb(s)) FROM public.transaction_splits s WHERE s.transaction_id = previous.id),
+          '[]'::jsonb
+        ),
+        'transaction_tags', COALESCE(
+          (SELECT jsonb_agg(to_jsonb(tt)) FROM public.transaction_tags tt WHERE tt.transaction_id = previous.id),
+          '[]'::jsonb
+        ),
+        'transaction_attachments', COALESCE(
+          (SELECT jsonb_agg(to_jsonb(a)) FROM public.transaction_attachments a WHERE a.transaction_id = previous.id),
+          '[]'::jsonb
+        ),
+        -- Generated occurrences lose their link to a deleted series; kept so a restore can relink them
+        'recurrence_child_ids', COALESCE(
+          (SELECT jsonb_agg(c.id) FROM public.transactions c WHERE c.recurrence_parent_id = previous.id),
+          '[]'::jsonb
+        )
+      )
+    );
+
+    DELETE FROM public.transactions WHERE id = previous.id;
+
+    PERFORM public.update_account_balance(previous.account_id, -public.transaction_balance_change(previous));
+    PERFORM public.adjust_goal_amount(previous.goal_id, -public.transaction_goal_change(previous));
+  END LOOP;
+
+  INSERT INTO public.transaction_trash (user_id, transactions)
+  VALUES (target.user_id, snapshot);
+END;
+$$;
+
+-- Put a trashed transaction (or all legs of a trashed transfer) back and re-apply its effects
+CREATE OR REPLACE FUNCTION public.restore_transaction(p_trash_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  entry public.transaction_trash;
+  leg JSONB;
+  restored public.transactions;
+BEGIN
+  SELECT * INTO entry FROM public.transaction_trash WHERE id = p_trash_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted transaction not found';
+  END IF;
+
+  FOR leg IN SELECT value FROM jsonb_array_elements(entry.transactions)
+  LOOP
+    restored := jsonb_populate_record(NULL::public.transactions, leg);
+
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = restored.account_id) THEN
+      RAISE EXCEPTION 'The account of "%" no longer exists', COALESCE(restored.description, 'this transaction');
+    END IF;
+
+    -- Links to anything deleted in the meantime are dropped
+    IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = restored.category_id) THEN
+      restored.category_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.goals WHERE id = restored.goal_id) THEN
+      restored.goal_id := NULL;
+      restored.goal_amount := NULL;
+      restored.goal_allocation_type := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.payees WHERE id = restored.payee_id) THEN
+      restored.payee_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = restored.recurrence_parent_id) THEN
+      restored.recurrence_parent_id := NULL;
+    END IF;
+
+    INSERT INTO public.transactions SELECT (restored).*;
+
+    -- The insert trigger restarts the schedule; keep the series where it was so nothing is generated twice
+    UPDATE public.transactions
+    SET next_occurrence_date = restored.next_occurrence_date
+    WHERE id = restored.id;
+
+    UPDATE public.transactions
+    SET recurrence_parent_id = restored.id
+    WHERE recurrence_parent_id IS NULL
+      AND id IN (SELECT jsonb_array_elements_text(COALESCE(leg->'recurrence_child_ids', '[]'::jsonb))::uuid);
+
+    INSERT INTO public.transaction_splits (id, transaction_id, user_id, category_id, amount, notes, created_at)
+    SELECT s.id, restored.id, s.user_id, c.id, s.amount, s.notes, s.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_splits, COALESCE(leg->'transaction_splits', '[]'::jsonb)) s
+    LEFT JOIN public.categories c ON c.id = s.category_id;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id, created_at)
+    SELECT restored.id, tt.tag_id, tt.user_id, tt.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_tags, COALESCE(leg->'transaction_tags', '[]'::jsonb)) tt
+    WHERE EXISTS (SELECT 1 FROM public.tags WHERE id = tt.tag_id);
+
+    INSERT INTO public.transaction_attachments
+    SELECT *
+    FROM jsonb_populate_recordset(NULL::public.transaction_attachments, COALESCE(leg->'transaction_attachments', '[]'::jsonb));
+
+    PERFORM public.update_account_balance(restored.account_id, public.transaction_balance_change(restored));
+    PERFORM public.adjust_goal_amount(restored.goal_id, public.transaction_goal_change(restored));
+  END LOOP;
+
+  DELETE FROM public.transaction_trash WHERE id = entry.id;
+END;
+$$;
@@ -0,0 +1,168 @@
+-- Audit log of transaction changes
+-- A trigger records every insert, update and delete of a transaction with the before and after
+-- value of each changed field, so it covers the RPCs, recurring generation and the trash alike.
+-- transaction_id has no foreign key: the history outlives a delete so it is still there after a restore.
+
+CREATE TABLE public.transaction_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'create', 'update', 'delete' (moved to the trash) or 'restore'
+  action TEXT NOT NULL,
+  -- { field: { "old": value, "new": value } } for each field that changed
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transaction_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction logs"
+ON public.transaction_logs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transaction logs"
+ON public.transaction_logs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction logs"
+ON public.transaction_logs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transaction_logs_transaction_id ON public.transaction_logs(transaction_id, created_at DESC);
+CREATE INDEX idx_transaction_logs_user_id ON public.transaction_logs(user_id);
+
+CREATE OR REPLACE FUNCTION public.log_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := '{}'::jsonb;
+  new_row JSONB := '{}'::jsonb;
+  changes JSONB;
+  log_action TEXT;
+  target_id UUID;
+  owner_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    new_row := to_jsonb(NEW);
+    target_id := NEW.id;
+    owner_id := NEW.user_id;
+    log_action := COALESCE(NULLIF(current_setting('app.transaction_log_action', true), ''), 'create');
+  ELSIF TG_OP = 'UPDATE' THEN
+    old_row := to_jsonb(OLD);
+    new_row := to_jsonb(NEW);
+    target_id := NEW.id;
+    owner_id := NEW.user_id;
+    log_action := 'update';
+  ELSE
+    old_row := to_jsonb(OLD);
+    target_id := OLD.id;
+    owner_id := OLD.user_id;
+    log_action := 'delete';
+  END IF;
+
+  -- Bookkeeping columns maintained by the system are not part of the history
+  SELECT COALESCE(jsonb_object_agg(field, jsonb_build_object('old', old_row->field, 'new', new_row->field)), '{}'::jsonb)
+  INTO changes
+  FROM jsonb_object_keys(old_row || new_row) AS field
+  WHERE field NOT IN ('id', 'user_id', 'created_at', 'updated_at', 'next_occurrence_date', 'recurrence_parent_id')
+    AND COALESCE(old_row->field, 'null'::jsonb) IS DISTINCT FROM COALESCE(new_row->field, 'null'::jsonb);
+
+  IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.transaction_logs (transaction_id, user_id, action, details)
+  VALUES (target_id, owner_id, log_action, changes);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_transaction_change_trigger ON public.transactions;
+CREATE TRIGGER log_transaction_change_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.log_transaction_change();
+
+-- Unchanged from 20260219 apart from marking its inserts as restores for the log
+CREATE OR REPLACE FUNCTION public.restore_transaction(p_trash_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  entry public.transaction_trash;
+  leg JSONB;
+  restored public.transactions;
+BEGIN
+  SELECT * INTO entry FROM public.transaction_trash WHERE id = p_trash_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted transaction not found';
+  END IF;
+
+  -- Tells log_transaction_change that the inserts below are restores
+  PERFORM set_config('app.transaction_log_action', 'restore', true);
+
+  FOR leg IN SELECT value FROM jsonb_array_elements(entry.transactions)
+  LOOP
+    restored := jsonb_populate_record(NULL::public.transactions, leg);
+
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = restored.account_id) THEN
+      RAISE EXCEPTION 'The account of "%" no longer exists', COALESCE(restored.description, 'this transaction');
+    END IF;
+
+    -- Links to anything deleted in the meantime are dropped
+    IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = restored.category_id) THEN
+      restored.category_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.goals WHERE id = restored.goal_id) THEN
+      restored.goal_id := NULL;
+      restored.goal_amount := NULL;
+      restored.goal_allocation_type := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.payees WHERE id = restored.payee_id) THEN
+      restored.payee_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = restored.recurrence_parent_id) THEN
+      restored.recurrence_parent_id := NULL;
+    END IF;
+
+    INSERT INTO public.transactions SELECT (restored).*;
+
+    -- The insert trigger restarts the schedule; keep the series where it was so nothing is generated twice
+    UPDATE public.transactions
+    SET next_occurrence_date = restored.next_occurrence_date
+    WHERE id = restored.id;
+
+    UPDATE public.transactions
+    SET recurrence_parent_id = restored.id
+    WHERE recurrence_parent_id IS NULL
+      AND id IN (SELECT jsonb_array_elements_text(COALESCE(leg->'recurrence_child_ids', '[]'::jsonb))::uuid);
+
+    INSERT INTO public.transaction_splits (id, transaction_id, user_id, category_id, amount, notes, created_at)
+    SELECT s.id, restored.id, s.user_id, c.id, s.amount, s.notes, s.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_splits, COALESCE(leg->'transaction_splits', '[]'::jsonb)) s
+    LEFT JOIN public.categories c ON c.id = s.category_id;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id, created_at)
+    SELECT restored.id, tt.tag_id, tt.user_id, tt.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_tags, COALESCE(leg->'transaction_tags', '[]'::jsonb)) tt
+    WHERE EXISTS (SELECT 1 FROM public.tags WHERE id = tt.tag_id);
+
+    INSERT INTO public.transaction_attachments
+    SELECT *
+    FROM jsonb_populate_recordset(NULL::public.transaction_attachments, COALESCE(leg->'transaction_attachments', '[]'::jsonb));
+
+    PERFORM public.update_account_balance(restored.account_id, public.transaction_balance_change(restored));
+    PERFORM public.adjust_goal_amount(restored.goal_id, public.transaction_goal_change(restored));
+  END LOOP;
+
+  DELETE FROM public.transaction_trash WHERE id = entry.id;
+  PERFORM set_config('app.transaction_log_action', '', true);
+END;
+$$;
@@ -0,0 +1,32 @@
+-- Apply changes to many transactions in one database transaction: all of them are updated or none are.
+-- p_updates: [{ "id": uuid, "changes": { same keys as update_transaction } }, ...]
+-- Each row goes through update_transaction, so balances and goals are adjusted per row.
+CREATE OR REPLACE FUNCTION public.bulk_update_transactions(p_updates JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  item JSONB;
+  target public.transactions;
+  updated_count INTEGER := 0;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(COALESCE(p_updates, '[]'::jsonb))
+  LOOP
+    SELECT * INTO target FROM public.transactions WHERE id = (item->>'id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    -- The legs of a linked transfer (and its fee) only change together, through update_transfer
+    IF target.transfer_group_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Linked transfers can''t be bulk edited';
+    END IF;
+
+    PERFORM public.update_transaction(target.id, COALESCE(item->'changes', '{}'::jsonb));
+    updated_count := updated_count + 1;
+  END LOOP;
+
+  RETURN updated_count;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Merging moves attachments between transactions
+CREATE POLICY "Users can update their own transaction attachments"
+  ON public.transaction_attachments FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Collapse duplicates of the same purchase into one transaction.
+-- The kept row takes over the duplicates' attachments and tags; the duplicates go through
+-- delete_transaction, which reverses their balance and goal effects and puts them in the trash.
+CREATE OR REPLACE FUNCTION public.merge_transactions(p_keep_id UUID, p_duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  keep public.transactions;
+  duplicate public.transactions;
+  merged_count INTEGER := 0;
+BEGIN
+  SELECT * INTO keep FROM public.transactions WHERE id = p_keep_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+  IF keep.transfer_group_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Linked transfers can''t be merged';
+  END IF;
+
+  FOR duplicate IN
+    SELECT * FROM public.transactions
+    WHERE id = ANY(p_duplicate_ids) AND id <> p_keep_id
+    FOR UPDATE
+  LOOP
+    IF duplicate.transfer_group_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Linked transfers can''t be merged';
+    END IF;
+    IF duplicate.account_id <> keep.account_id OR duplicate.type <> keep.type THEN
+      RAISE EXCEPTION 'Only transactions of the same type on the same account can be merged';
+    END IF;
+
+    UPDATE public.transaction_attachments
+    SET transaction_id = keep.id
+    WHERE transaction_id = duplicate.id;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+    SELECT keep.id, tt.tag_id, tt.user_id
+    FROM public.transaction_tags tt
+    WHERE tt.transaction_id = duplicate.id
+    ON CONFLICT (transaction_id, tag_id) DO NOTHING;
+
+    PERFORM public.delete_transaction(duplicate.id);
+    merged_count := merged_count + 1;
+  END LOOP;
+
+  IF merged_count <> COALESCE(array_length(array_remove(p_duplicate_ids, p_keep_id), 1), 0) THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  RETURN merged_count;
+END;
+$$;
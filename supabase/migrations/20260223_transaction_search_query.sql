@@ -0,0 +1,247 @@
+-- Filter keys for the structured search on the Transactions page (see src/utils/searchQuery.ts)
+--
+-- New p_filters keys for list_transactions (all optional):
+--   category_ids, tag_ids, payee_ids   every listed one must match
+--   exclude_account_ids, exclude_category_ids, exclude_tag_ids, exclude_payee_ids, exclude_types
+--                                      none of the listed ones may match
+--   amount_min_exclusive, amount_max_exclusive   make amount_min / amount_max strict
+--   search_terms                       every term must match, like search
+--   exclude_search_terms               no term may match
+-- Text search now also covers attachment file names.
+
+-- Whether the text appears in a transaction's description, notes, category, tag, payee or
+-- attachment file names. The text is matched literally, not as a LIKE pattern.
+CREATE OR REPLACE FUNCTION public.transaction_matches_search(t public.transactions, p_text TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    t.description ILIKE pattern.value
+    OR t.notes ILIKE pattern.value
+    OR EXISTS (
+      SELECT 1 FROM public.categories c
+      WHERE c.name ILIKE pattern.value
+        AND (
+          c.id = t.category_id
+          OR EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id AND s.category_id = c.id)
+        )
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.transaction_tags tt
+      JOIN public.tags tg ON tg.id = tt.tag_id
+      WHERE tt.transaction_id = t.id AND tg.name ILIKE pattern.value
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.payees p
+      WHERE p.id = t.payee_id AND p.name ILIKE pattern.value
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.transaction_attachments a
+      WHERE a.transaction_id = t.id AND a.file_name ILIKE pattern.value
+    ),
+    false
+  )
+  FROM (
+    SELECT '%' || replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  ) pattern;
+$$;
+
+CREATE OR REPLACE FUNCTION public.list_transactions(
+  p_filters JSONB DEFAULT '{}'::jsonb,
+  p_sort_field TEXT DEFAULT 'created_at',
+  p_sort_order TEXT DEFAULT 'desc',
+  p_cursor JSONB DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  f JSONB := COALESCE(p_filters, '{}'::jsonb);
+  total INTEGER;
+  page JSONB;
+  next_cursor JSONB;
+BEGIN
+  IF p_sort_field NOT IN ('created_at', 'transaction_date', 'amount') THEN
+    RAISE EXCEPTION 'Unsupported sort field: %', p_sort_field;
+  END IF;
+
+  WITH matching AS (
+    SELECT
+      t.id,
+      -- One numeric key per sort field, negated for descending order so the page query is always ascending
+      (CASE p_sort_field
+        WHEN 'amount' THEN t.amount
+        WHEN 'transaction_date' THEN (t.transaction_date - DATE '1970-01-01')::numeric
+        ELSE extract(epoch FROM t.created_at)
+      END) * CASE WHEN p_sort_order = 'asc' THEN 1 ELSE -1 END AS sort_key
+    FROM public.transactions t
+    WHERE
+      NOT (
+        t.type = 'transfer-receiver'
+        AND t.transfer_group_id IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM public.transactions s
+          WHERE s.transfer_group_id = t.transfer_group_id AND s.type = 'transfer-sender'
+        )
+      )
+      AND (
+        f->>'type' IS NULL
+        OR (f->>'type' = 'transfer' AND t.type IN ('transfer-sender', 'transfer-receiver'))
+        OR t.type = f->>'type'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_types', '[]'::jsonb)) AS excluded(type)
+        WHERE t.type = excluded.type
+           OR (excluded.type = 'transfer' AND t.type IN ('transfer-sender', 'transfer-receiver'))
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'account_ids', '[]'::jsonb)) AS account(id)
+        WHERE t.account_id <> account.id::uuid
+          AND NOT (
+            t.type = 'transfer-sender'
+            AND t.transfer_group_id IS NOT NULL
+            AND EXISTS (
+              SELECT 1 FROM public.transactions r
+              WHERE r.transfer_group_id = t.transfer_group_id
+                AND r.type = 'transfer-receiver'
+                AND r.account_id = account.id::uuid
+            )
+          )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_account_ids', '[]'::jsonb)) AS account(id)
+        WHERE t.account_id = account.id::uuid
+           OR (
+             t.type = 'transfer-sender'
+             AND t.transfer_group_id IS NOT NULL
+             AND EXISTS (
+               SELECT 1 FROM public.transactions r
+               WHERE r.transfer_group_id = t.transfer_group_id
+                 AND r.type = 'transfer-receiver'
+                 AND r.account_id = account.id::uuid
+             )
+           )
+      )
+      AND (
+        f->>'category_id' IS NULL
+        OR t.category_id = (f->>'category_id')::uuid
+        OR EXISTS (
+          SELECT 1 FROM public.transaction_splits s
+          WHERE s.transaction_id = t.id AND s.category_id = (f->>'category_id')::uuid
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'category_ids', '[]'::jsonb)) AS category(id)
+        WHERE t.category_id IS DISTINCT FROM category.id::uuid
+          AND NOT EXISTS (
+            SELECT 1 FROM public.transaction_splits s
+            WHERE s.transaction_id = t.id AND s.category_id = category.id::uuid
+          )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_category_ids', '[]'::jsonb)) AS category(id)
+        WHERE t.category_id = category.id::uuid
+           OR EXISTS (
+             SELECT 1 FROM public.transaction_splits s
+             WHERE s.transaction_id = t.id AND s.category_id = category.id::uuid
+           )
+      )
+      AND (
+        f->>'tag_id' IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.transaction_tags tt
+          WHERE tt.transaction_id = t.id AND tt.tag_id = (f->>'tag_id')::uuid
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'tag_ids', '[]'::jsonb)) AS tag(id)
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.transaction_tags tt
+          WHERE tt.transaction_id = t.id AND tt.tag_id = tag.id::uuid
+        )
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_tag_ids', '[]'::jsonb)) AS tag(id)
+        JOIN public.transaction_tags tt ON tt.tag_id = tag.id::uuid
+        WHERE tt.transaction_id = t.id
+      )
+      AND (f->>'payee_id' IS NULL OR t.payee_id = (f->>'payee_id')::uuid)
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'payee_ids', '[]'::jsonb)) AS payee(id)
+        WHERE t.payee_id IS DISTINCT FROM payee.id::uuid
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_payee_ids', '[]'::jsonb)) AS payee(id)
+        WHERE t.payee_id = payee.id::uuid
+      )
+      AND (f->>'frequency' IS NULL OR t.frequency = f->>'frequency')
+      AND (
+        f->>'amount_min' IS NULL
+        OR t.amount > (f->>'amount_min')::numeric
+        OR (t.amount = (f->>'amount_min')::numeric AND NOT COALESCE((f->>'amount_min_exclusive')::boolean, false))
+      )
+      AND (
+        f->>'amount_max' IS NULL
+        OR t.amount < (f->>'amount_max')::numeric
+        OR (t.amount = (f->>'amount_max')::numeric AND NOT COALESCE((f->>'amount_max_exclusive')::boolean, false))
+      )
+      AND (f->>'date_from' IS NULL OR t.transaction_date >= (f->>'date_from')::date)
+      AND (f->>'date_to' IS NULL OR t.transaction_date <= (f->>'date_to')::date)
+      AND (COALESCE(f->>'search', '') = '' OR public.transaction_matches_search(t, f->>'search'))
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'search_terms', '[]'::jsonb)) AS term(text)
+        WHERE NOT public.transaction_matches_search(t, term.text)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(COALESCE(f->'exclude_search_terms', '[]'::jsonb)) AS term(text)
+        WHERE public.transaction_matches_search(t, term.text)
+      )
+  ),
+  page_ids AS (
+    SELECT m.id, m.sort_key, row_number() OVER (ORDER BY m.sort_key, m.id) AS rn
+    FROM (
+      SELECT * FROM matching
+      WHERE p_cursor IS NULL
+         OR (matching.sort_key, matching.id) > ((p_cursor->>'sort_key')::numeric, (p_cursor->>'id')::uuid)
+      ORDER BY matching.sort_key, matching.id
+      -- One extra row tells whether there is a next page
+      LIMIT p_limit + 1
+    ) m
+  )
+  SELECT
+    (SELECT COUNT(*) FROM matching),
+    COALESCE(jsonb_agg(
+      to_jsonb(t) || jsonb_build_object(
+        'transaction_splits', COALESCE(
+          (SELECT jsonb_agg(to_jsonb(s)) FROM public.transaction_splits s WHERE s.transaction_id = t.id),
+          '[]'::jsonb
+        ),
+        'transaction_tags', COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('tag_id', tt.tag_id)) FROM public.transaction_tags tt WHERE tt.transaction_id = t.id),
+          '[]'::jsonb
+        )
+      )
+      ORDER BY p.rn
+    ) FILTER (WHERE p.rn <= p_limit), '[]'::jsonb),
+    -- The key is passed as text so it survives a round trip through JavaScript numbers
+    CASE WHEN MAX(p.rn) > p_limit THEN (
+      SELECT jsonb_build_object('sort_key', last_row.sort_key::text, 'id', last_row.id)
+      FROM page_ids last_row
+      WHERE last_row.rn = p_limit
+    ) END
+  INTO total, page, next_cursor
+  FROM page_ids p
+  JOIN public.transactions t ON t.id = p.id;
+
+  RETURN jsonb_build_object(
+    'rows', page,
+    'total_count', total,
+    'next_cursor', next_cursor
+  );
+END;
+$$;
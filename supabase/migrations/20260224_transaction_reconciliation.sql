@@ -0,0 +1,134 @@
+-- Whether a transaction has shown up on the bank statement:
+-- pending (not yet), cleared (seen on the statement) or reconciled (part of a finished reconciliation)
+ALTER TABLE public.transactions
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (status IN ('pending', 'cleared', 'reconciled'));
+
+CREATE INDEX idx_transactions_account_status ON public.transactions(account_id, status);
+
+-- Entries trashed before statuses existed are restored as pending
+UPDATE public.transaction_trash
+SET transactions = (
+  SELECT jsonb_agg(jsonb_build_object('status', 'pending') || legs.leg ORDER BY legs.position)
+  FROM jsonb_array_elements(transactions) WITH ORDINALITY AS legs(leg, position)
+);
+
+-- One row per finished statement reconciliation
+CREATE TABLE public.account_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL,
+  statement_balance NUMERIC NOT NULL,
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reconciliations"
+  ON public.account_reconciliations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reconciliations"
+  ON public.account_reconciliations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_account_reconciliations_account_id ON public.account_reconciliations(account_id, statement_date);
+
+-- Reconciled rows are locked: the fields that make up the account balance can't change and the
+-- row can't be deleted until its status is set back to cleared. Notes, title, payee and the
+-- recurrence schedule stay editable.
+CREATE OR REPLACE FUNCTION public.prevent_reconciled_transaction_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'reconciled' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting the account removes its transactions, reconciled or not
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = OLD.account_id) THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'Reconciled transactions are locked. Unlock it before deleting.';
+  END IF;
+
+  IF NEW.status = 'reconciled' AND (
+    NEW.account_id IS DISTINCT FROM OLD.account_id
+    OR NEW.type IS DISTINCT FROM OLD.type
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.currency IS DISTINCT FROM OLD.currency
+    OR NEW.transaction_date IS DISTINCT FROM OLD.transaction_date
+    OR NEW.transfer_group_id IS DISTINCT FROM OLD.transfer_group_id
+  ) THEN
+    RAISE EXCEPTION 'Reconciled transactions are locked. Unlock it before changing the amount, date or account.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_reconciled_transaction_change
+  BEFORE UPDATE OR DELETE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_reconciled_transaction_change();
+
+-- Finish a statement reconciliation: the given transactions become reconciled, every other
+-- unreconciled transaction of the account is left pending or cleared.
+-- The account balance minus the outstanding transactions must equal the statement balance.
+CREATE OR REPLACE FUNCTION public.reconcile_account(
+  p_account_id UUID,
+  p_statement_date DATE,
+  p_statement_balance NUMERIC,
+  p_transaction_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.accounts;
+  outstanding NUMERIC;
+  reconciliation_id UUID;
+  marked_count INTEGER;
+BEGIN
+  SELECT * INTO target FROM public.accounts WHERE id = p_account_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.transactions
+    WHERE id = ANY(p_transaction_ids)
+      AND (account_id <> p_account_id OR transaction_date > p_statement_date)
+  ) THEN
+    RAISE EXCEPTION 'Only transactions of this account dated on or before the statement date can be reconciled';
+  END IF;
+
+  SELECT COALESCE(SUM(public.transaction_balance_change(t)), 0) INTO outstanding
+  FROM public.transactions t
+  WHERE t.account_id = p_account_id
+    AND t.status <> 'reconciled'
+    AND NOT (t.id = ANY(p_transaction_ids));
+
+  IF round(target.balance - outstanding, 2) <> round(p_statement_balance, 2) THEN
+    RAISE EXCEPTION 'Cleared balance % doesn''t match the statement balance %',
+      round(target.balance - outstanding, 2), round(p_statement_balance, 2);
+  END IF;
+
+  UPDATE public.transactions
+  SET status = 'reconciled'
+  WHERE id = ANY(p_transaction_ids) AND status <> 'reconciled';
+  GET DIAGNOSTICS marked_count = ROW_COUNT;
+
+  INSERT INTO public.account_reconciliations (user_id, account_id, statement_date, statement_balance, transaction_count)
+  VALUES (target.user_id, p_account_id, p_statement_date, p_statement_balance, marked_count)
+  RETURNING id INTO reconciliation_id;
+
+  RETURN reconciliation_id;
+END;
+$$;
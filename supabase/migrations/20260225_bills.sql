@@ -0,0 +1,140 @@
+-- Bills and subscriptions: an expected payment to a payee that comes due on a schedule.
+-- The schedule reuses the transaction frequencies; first_due_date anchors it so monthly
+-- bills keep their day of the month, and next_due_date is the next unpaid occurrence.
+CREATE TABLE public.bills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  payee_id UUID REFERENCES public.payees(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  frequency TEXT NOT NULL DEFAULT 'monthly'
+    CHECK (frequency IN ('daily', 'every-2-days', 'weekly', 'monthly', 'yearly')),
+  first_due_date DATE NOT NULL,
+  next_due_date DATE NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bills"
+  ON public.bills FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bills"
+  ON public.bills FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bills"
+  ON public.bills FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bills"
+  ON public.bills FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bills_updated_at
+  BEFORE UPDATE ON public.bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_bills_user_next_due ON public.bills(user_id, next_due_date);
+
+-- One row per occurrence that was paid or skipped. The transaction is kept as a link only:
+-- deleting it later leaves the payment history intact.
+CREATE TABLE public.bill_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  due_date DATE NOT NULL,
+  -- NULL for a skipped occurrence
+  amount NUMERIC,
+  paid_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.bill_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bill payments"
+  ON public.bill_payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bill payments"
+  ON public.bill_payments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_bill_payments_bill_id ON public.bill_payments(bill_id, due_date);
+
+-- Pay the next occurrence of a bill: records the expense on the bill's account and moves the
+-- bill to its following due date. The amount and date default to the expected amount and today.
+CREATE OR REPLACE FUNCTION public.pay_bill(p_bill_id UUID, p_amount NUMERIC DEFAULT NULL, p_date DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.bills;
+  account_currency TEXT;
+  created public.transactions;
+BEGIN
+  SELECT * INTO target FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  SELECT currency INTO account_currency FROM public.accounts WHERE id = target.account_id;
+  IF account_currency IS NULL THEN
+    RAISE EXCEPTION 'Choose the account this bill is paid from first';
+  END IF;
+
+  created := public.create_transaction(jsonb_build_object(
+    'account_id', target.account_id,
+    'category_id', target.category_id,
+    'type', 'expense',
+    'amount', COALESCE(p_amount, target.amount),
+    'currency', account_currency,
+    'description', target.name,
+    'transaction_date', COALESCE(p_date, CURRENT_DATE),
+    'payee_id', target.payee_id
+  ));
+
+  INSERT INTO public.bill_payments (user_id, bill_id, transaction_id, due_date, amount, paid_date)
+  VALUES (target.user_id, target.id, created.id, target.next_due_date, created.amount, created.transaction_date);
+
+  UPDATE public.bills
+  SET next_due_date = public.get_next_occurrence_date(first_due_date, frequency, next_due_date)
+  WHERE id = target.id;
+
+  RETURN created.id;
+END;
+$$;
+
+-- Skip the next occurrence of a bill without paying it
+CREATE OR REPLACE FUNCTION public.skip_bill(p_bill_id UUID)
+RETURNS DATE
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target public.bills;
+  new_due_date DATE;
+BEGIN
+  SELECT * INTO target FROM public.bills WHERE id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  INSERT INTO public.bill_payments (user_id, bill_id, due_date)
+  VALUES (target.user_id, target.id, target.next_due_date);
+
+  new_due_date := public.get_next_occurrence_date(target.first_due_date, target.frequency, target.next_due_date);
+  UPDATE public.bills SET next_due_date = new_due_date WHERE id = target.id;
+
+  RETURN new_due_date;
+END;
+$$;
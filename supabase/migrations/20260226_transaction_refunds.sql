@@ -0,0 +1,246 @@
+-- Refunds: money paid back for an expense. A refund is stored as income on the same account,
+-- linked to the expense it refunds, so it credits the account like any income. Reports and
+-- budgets don't count it as income: it lowers the spending of its category instead.
+ALTER TABLE public.transactions
+  ADD COLUMN refund_of_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  ADD CONSTRAINT transactions_refund_type_check CHECK (refund_of_id IS NULL OR type = 'income');
+
+CREATE INDEX idx_transactions_refund_of_id ON public.transactions(refund_of_id) WHERE refund_of_id IS NOT NULL;
+
+-- A refund goes back to the account and currency of its expense and, together with the other
+-- refunds of that expense, can't exceed it. The expense can't drop below what was refunded.
+CREATE OR REPLACE FUNCTION public.validate_transaction_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  original public.transactions;
+  refunded NUMERIC;
+BEGIN
+  IF NEW.refund_of_id IS NOT NULL THEN
+    SELECT * INTO original FROM public.transactions WHERE id = NEW.refund_of_id;
+    IF NOT FOUND OR original.type <> 'expense' OR original.transfer_group_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Only expenses can be refunded';
+    END IF;
+    IF NEW.account_id <> original.account_id OR NEW.currency <> original.currency THEN
+      RAISE EXCEPTION 'A refund goes back to the account and currency of the original expense';
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO refunded
+    FROM public.transactions
+    WHERE refund_of_id = NEW.refund_of_id AND id <> NEW.id;
+    IF refunded + NEW.amount > original.amount THEN
+      RAISE EXCEPTION 'Refunds can''t exceed the original expense of % % (% already refunded)',
+        original.amount, original.currency, refunded;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.type = 'expense'
+    AND (NEW.type <> 'expense' OR NEW.amount < OLD.amount OR NEW.account_id <> OLD.account_id OR NEW.currency <> OLD.currency)
+  THEN
+    SELECT SUM(amount) INTO refunded FROM public.transactions WHERE refund_of_id = NEW.id;
+    IF refunded IS NOT NULL AND (
+      NEW.type <> 'expense' OR NEW.amount < refunded OR NEW.account_id <> OLD.account_id OR NEW.currency <> OLD.currency
+    ) THEN
+      RAISE EXCEPTION 'This expense has % % refunded. Change or delete the refunds first.', refunded, OLD.currency;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_transaction_refund
+  BEFORE INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_transaction_refund();
+
+-- Accepts refund_of_id
+CREATE OR REPLACE FUNCTION public.create_transaction(p_transaction JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created public.transactions;
+BEGIN
+  INSERT INTO public.transactions (
+    user_id, account_id, category_id, type, amount, currency, description, notes,
+    transaction_date, frequency, recurrence_end_date, goal_id, goal_amount, goal_allocation_type,
+    transfer_group_id, payee_id, refund_of_id
+  ) VALUES (
+    auth.uid(),
+    (p_transaction->>'account_id')::uuid,
+    (p_transaction->>'category_id')::uuid,
+    p_transaction->>'type',
+    (p_transaction->>'amount')::numeric,
+    COALESCE(p_transaction->>'currency', 'USD'),
+    p_transaction->>'description',
+    p_transaction->>'notes',
+    COALESCE((p_transaction->>'transaction_date')::date, CURRENT_DATE),
+    COALESCE(p_transaction->>'frequency', 'none'),
+    (p_transaction->>'recurrence_end_date')::date,
+    (p_transaction->>'goal_id')::uuid,
+    (p_transaction->>'goal_amount')::numeric,
+    p_transaction->>'goal_allocation_type',
+    (p_transaction->>'transfer_group_id')::uuid,
+    COALESCE((p_transaction->>'payee_id')::uuid, public.resolve_payee(p_transaction->>'payee_name')),
+    (p_transaction->>'refund_of_id')::uuid
+  )
+  RETURNING * INTO created;
+
+  IF jsonb_typeof(p_transaction->'splits') = 'array' THEN
+    PERFORM public.replace_transaction_splits(created.id, p_transaction->'splits');
+  END IF;
+
+  IF jsonb_typeof(p_transaction->'tags') = 'array' THEN
+    PERFORM public.set_transaction_tags(created.id, p_transaction->'tags');
+  END IF;
+
+  PERFORM public.update_account_balance(created.account_id, public.transaction_balance_change(created));
+  PERFORM public.adjust_goal_amount(created.goal_id, public.transaction_goal_change(created));
+
+  RETURN created;
+END;
+$$;
+
+-- A restored refund whose expense is gone is kept as plain income
+CREATE OR REPLACE FUNCTION public.restore_transaction(p_trash_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  entry public.transaction_trash;
+  leg JSONB;
+  restored public.transactions;
+BEGIN
+  SELECT * INTO entry FROM public.transaction_trash WHERE id = p_trash_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deleted transaction not found';
+  END IF;
+
+  -- Tells log_transaction_change that the inserts below are restores
+  PERFORM set_config('app.transaction_log_action', 'restore', true);
+
+  FOR leg IN SELECT value FROM jsonb_array_elements(entry.transactions)
+  LOOP
+    restored := jsonb_populate_record(NULL::public.transactions, leg);
+
+    IF NOT EXISTS (SELECT 1 FROM public.accounts WHERE id = restored.account_id) THEN
+      RAISE EXCEPTION 'The account of "%" no longer exists', COALESCE(restored.description, 'this transaction');
+    END IF;
+
+    -- Links to anything deleted in the meantime are dropped
+    IF NOT EXISTS (SELECT 1 FROM public.categories WHERE id = restored.category_id) THEN
+      restored.category_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.goals WHERE id = restored.goal_id) THEN
+      restored.goal_id := NULL;
+      restored.goal_amount := NULL;
+      restored.goal_allocation_type := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.payees WHERE id = restored.payee_id) THEN
+      restored.payee_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = restored.recurrence_parent_id) THEN
+      restored.recurrence_parent_id := NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.transactions WHERE id = restored.refund_of_id) THEN
+      restored.refund_of_id := NULL;
+    END IF;
+
+    INSERT INTO public.transactions SELECT (restored).*;
+
+    -- The insert trigger restarts the schedule; keep the series where it was so nothing is generated twice
+    UPDATE public.transactions
+    SET next_occurrence_date = restored.next_occurrence_date
+    WHERE id = restored.id;
+
+    UPDATE public.transactions
+    SET recurrence_parent_id = restored.id
+    WHERE recurrence_parent_id IS NULL
+      AND id IN (SELECT jsonb_array_elements_text(COALESCE(leg->'recurrence_child_ids', '[]'::jsonb))::uuid);
+
+    INSERT INTO public.transaction_splits (id, transaction_id, user_id, category_id, amount, notes, created_at)
+    SELECT s.id, restored.id, s.user_id, c.id, s.amount, s.notes, s.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_splits, COALESCE(leg->'transaction_splits', '[]'::jsonb)) s
+    LEFT JOIN public.categories c ON c.id = s.category_id;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id, created_at)
+    SELECT restored.id, tt.tag_id, tt.user_id, tt.created_at
+    FROM jsonb_populate_recordset(NULL::public.transaction_tags, COALESCE(leg->'transaction_tags', '[]'::jsonb)) tt
+    WHERE EXISTS (SELECT 1 FROM public.tags WHERE id = tt.tag_id);
+
+    INSERT INTO public.transaction_attachments
+    SELECT *
+    FROM jsonb_populate_recordset(NULL::public.transaction_attachments, COALESCE(leg->'transaction_attachments', '[]'::jsonb));
+
+    PERFORM public.update_account_balance(restored.account_id, public.transaction_balance_change(restored));
+    PERFORM public.adjust_goal_amount(restored.goal_id, public.transaction_goal_change(restored));
+  END LOOP;
+
+  DELETE FROM public.transaction_trash WHERE id = entry.id;
+  PERFORM set_config('app.transaction_log_action', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_recurring_budgets()
+RETURNS void AS $$
+DECLARE
+  budget_record RECORD;
+  new_start_date DATE;
+  new_end_date DATE;
+  unused_amount NUMERIC;
+  rollover NUMERIC;
+BEGIN
+  FOR budget_record IN 
+    SELECT * FROM public.budgets 
+    WHERE is_recurring = true 
+    AND period IN ('weekly', 'monthly')
+    AND end_date < CURRENT_DATE
+  LOOP
+    -- Calculate new period dates
+    IF budget_record.period = 'weekly' THEN
+      new_start_date := budget_record.end_date + INTERVAL '1 day';
+      new_end_date := new_start_date + INTERVAL '6 days';
+    ELSE -- monthly
+      new_start_date := date_trunc('month', budget_record.end_date + INTERVAL '1 month')::date;
+      new_end_date := (new_start_date + INTERVAL '1 month - 1 day')::date;
+    END IF;
+    
+    -- Calculate rollover (capped at original amount); refunds give back what they refunded
+    SELECT COALESCE(SUM(CASE WHEN type = 'expense' THEN amount ELSE -amount END), 0) INTO unused_amount
+    FROM public.transactions
+    WHERE user_id = budget_record.user_id
+      AND category_id = budget_record.category_id
+      AND (type = 'expense' OR refund_of_id IS NOT NULL)
+      AND transaction_date BETWEEN budget_record.start_date AND budget_record.end_date;
+    
+    unused_amount := budget_record.amount + budget_record.rollover_amount - unused_amount;
+    rollover := LEAST(GREATEST(unused_amount, 0), budget_record.amount);
+    
+    -- Check if new budget already exists
+    IF NOT EXISTS (
+      SELECT 1 FROM public.budgets 
+      WHERE user_id = budget_record.user_id 
+      AND category_id = budget_record.category_id
+      AND start_date = new_start_date
+    ) THEN
+      -- Create new recurring budget
+      INSERT INTO public.budgets (
+        user_id, category_id, amount, period, start_date, end_date, 
+        is_recurring, rollover_amount
+      ) VALUES (
+        budget_record.user_id, budget_record.category_id, budget_record.amount,
+        budget_record.period, new_start_date, new_end_date,
+        true, rollover
+      );
+      
+      -- Mark old budget as non-recurring (it's now historical)
+      UPDATE public.budgets SET is_recurring = false WHERE id = budget_record.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
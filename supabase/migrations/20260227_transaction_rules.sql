@@ -0,0 +1,349 @@
+-- Auto-categorization rules: "description contains 'SWIGGY' -> category Food, payee Swiggy,
+-- tag delivery". Rules run on every new transaction, whether entered by hand, imported or
+-- generated from a recurring series, and can be re-run over existing transactions.
+CREATE TABLE public.transaction_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Lower runs first
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  match_field TEXT NOT NULL DEFAULT 'description'
+    CHECK (match_field IN ('description', 'payee', 'notes')),
+  match_operator TEXT NOT NULL DEFAULT 'contains'
+    CHECK (match_operator IN ('contains', 'equals', 'starts_with', 'ends_with')),
+  match_value TEXT NOT NULL CHECK (btrim(match_value) <> ''),
+  -- Optional narrowing; NULL matches anything
+  transaction_type TEXT CHECK (transaction_type IN ('income', 'expense')),
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE,
+  amount_min NUMERIC,
+  amount_max NUMERIC,
+  set_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  set_payee_id UUID REFERENCES public.payees(id) ON DELETE SET NULL,
+  add_tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transaction_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own transaction rules"
+  ON public.transaction_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own transaction rules"
+  ON public.transaction_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own transaction rules"
+  ON public.transaction_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own transaction rules"
+  ON public.transaction_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_transaction_rules_updated_at
+  BEFORE UPDATE ON public.transaction_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_transaction_rules_user_priority ON public.transaction_rules(user_id, priority);
+
+-- Whether a transaction meets a rule's conditions. Text comparisons ignore case.
+CREATE OR REPLACE FUNCTION public.transaction_rule_matches(rule public.transaction_rules, t public.transactions)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  needle TEXT := lower(btrim(rule.match_value));
+  subject TEXT;
+BEGIN
+  IF (rule.transaction_type IS NOT NULL AND rule.transaction_type <> t.type)
+    OR (rule.account_id IS NOT NULL AND rule.account_id <> t.account_id)
+    OR (rule.amount_min IS NOT NULL AND t.amount < rule.amount_min)
+    OR (rule.amount_max IS NOT NULL AND t.amount > rule.amount_max)
+  THEN
+    RETURN false;
+  END IF;
+
+  subject := lower(btrim(CASE rule.match_field
+    WHEN 'payee' THEN (SELECT name FROM public.payees WHERE id = t.payee_id)
+    WHEN 'notes' THEN t.notes
+    ELSE t.description
+  END));
+
+  IF subject IS NULL OR needle = '' THEN
+    RETURN false;
+  END IF;
+
+  RETURN CASE rule.match_operator
+    WHEN 'equals' THEN subject = needle
+    WHEN 'starts_with' THEN left(subject, length(needle)) = needle
+    WHEN 'ends_with' THEN right(subject, length(needle)) = needle
+    ELSE strpos(subject, needle) > 0
+  END;
+END;
+$$;
+
+-- Run the owner's active rules over one transaction. Rules go in priority order: the first
+-- matching rule with a category or payee sets it, and the tags of every matching rule are added.
+-- Returns whether anything changed.
+CREATE OR REPLACE FUNCTION public.apply_transaction_rules(p_transaction_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  t public.transactions;
+  rule public.transaction_rules;
+  has_splits BOOLEAN;
+  new_category_id UUID;
+  new_payee_id UUID;
+  tag_names TEXT[] := '{}';
+  tags_added INTEGER := 0;
+  changed BOOLEAN := false;
+BEGIN
+  SELECT * INTO t FROM public.transactions WHERE id = p_transaction_id;
+
+  -- Transfers have no category, and a refund keeps the category of the expense it refunds
+  IF NOT FOUND OR t.transfer_group_id IS NOT NULL OR t.refund_of_id IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Split lines carry their own categories
+  has_splits := EXISTS (SELECT 1 FROM public.transaction_splits WHERE transaction_id = t.id);
+
+  FOR rule IN
+    SELECT * FROM public.transaction_rules
+    WHERE user_id = t.user_id AND is_active
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN NOT public.transaction_rule_matches(rule, t);
+
+    IF new_category_id IS NULL AND NOT has_splits AND EXISTS (
+      SELECT 1 FROM public.categories WHERE id = rule.set_category_id AND type = t.type
+    ) THEN
+      new_category_id := rule.set_category_id;
+    END IF;
+    new_payee_id := COALESCE(new_payee_id, rule.set_payee_id);
+    tag_names := tag_names || rule.add_tags;
+  END LOOP;
+
+  IF (new_category_id IS NOT NULL AND new_category_id IS DISTINCT FROM t.category_id)
+    OR (new_payee_id IS NOT NULL AND new_payee_id IS DISTINCT FROM t.payee_id)
+  THEN
+    UPDATE public.transactions
+    SET category_id = COALESCE(new_category_id, category_id),
+        payee_id = COALESCE(new_payee_id, payee_id)
+    WHERE id = t.id;
+    changed := true;
+  END IF;
+
+  IF cardinality(tag_names) > 0 THEN
+    INSERT INTO public.tags (user_id, name)
+    SELECT t.user_id, name FROM unnest(tag_names) AS name
+    ON CONFLICT (user_id, lower(name)) DO NOTHING;
+
+    INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+    SELECT DISTINCT t.id, tg.id, t.user_id
+    FROM public.tags tg
+    WHERE tg.user_id = t.user_id
+      AND lower(tg.name) IN (SELECT lower(name) FROM unnest(tag_names) AS name)
+    ON CONFLICT DO NOTHING;
+    GET DIAGNOSTICS tags_added = ROW_COUNT;
+  END IF;
+
+  RETURN changed OR tags_added > 0;
+END;
+$$;
+
+-- Test a rule, saved or not, against past transactions: the most recent matches, each with
+-- the total number of matches
+CREATE OR REPLACE FUNCTION public.preview_transaction_rule(p_rule JSONB, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  id UUID,
+  description TEXT,
+  transaction_date DATE,
+  type TEXT,
+  amount NUMERIC,
+  currency TEXT,
+  category_id UUID,
+  payee_id UUID,
+  match_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  rule public.transaction_rules := jsonb_populate_record(NULL::public.transaction_rules, p_rule);
+BEGIN
+  RETURN QUERY
+  SELECT t.id, t.description, t.transaction_date, t.type, t.amount, t.currency, t.category_id, t.payee_id,
+    count(*) OVER ()
+  FROM public.transactions t
+  WHERE t.user_id = auth.uid()
+    AND t.transfer_group_id IS NULL
+    AND t.refund_of_id IS NULL
+    AND public.transaction_rule_matches(rule, t)
+  ORDER BY t.transaction_date DESC, t.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Run the current rules over all existing transactions; returns how many changed
+CREATE OR REPLACE FUNCTION public.reapply_transaction_rules()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  transaction_id UUID;
+  changed_count INTEGER := 0;
+BEGIN
+  FOR transaction_id IN
+    SELECT t.id FROM public.transactions t
+    WHERE t.user_id = auth.uid()
+      AND t.transfer_group_id IS NULL
+      AND t.refund_of_id IS NULL
+  LOOP
+    IF public.apply_transaction_rules(transaction_id) THEN
+      changed_count := changed_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN changed_count;
+END;
+$$;
+
+-- Applies the rules once the transaction, its splits and its tags are in place
+CREATE OR REPLACE FUNCTION public.create_transaction(p_transaction JSONB)
+RETURNS public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created public.transactions;
+BEGIN
+  INSERT INTO public.transactions (
+    user_id, account_id, category_id, type, amount, currency, description, notes,
+    transaction_date, frequency, recurrence_end_date, goal_id, goal_amount, goal_allocation_type,
+    transfer_group_id, payee_id, refund_of_id
+  ) VALUES (
+    auth.uid(),
+    (p_transaction->>'account_id')::uuid,
+    (p_transaction->>'category_id')::uuid,
+    p_transaction->>'type',
+    (p_transaction->>'amount')::numeric,
+    COALESCE(p_transaction->>'currency', 'USD'),
+    p_transaction->>'description',
+    p_transaction->>'notes',
+    COALESCE((p_transaction->>'transaction_date')::date, CURRENT_DATE),
+    COALESCE(p_transaction->>'frequency', 'none'),
+    (p_transaction->>'recurrence_end_date')::date,
+    (p_transaction->>'goal_id')::uuid,
+    (p_transaction->>'goal_amount')::numeric,
+    p_transaction->>'goal_allocation_type',
+    (p_transaction->>'transfer_group_id')::uuid,
+    COALESCE((p_transaction->>'payee_id')::uuid, public.resolve_payee(p_transaction->>'payee_name')),
+    (p_transaction->>'refund_of_id')::uuid
+  )
+  RETURNING * INTO created;
+
+  IF jsonb_typeof(p_transaction->'splits') = 'array' THEN
+    PERFORM public.replace_transaction_splits(created.id, p_transaction->'splits');
+  END IF;
+
+  IF jsonb_typeof(p_transaction->'tags') = 'array' THEN
+    PERFORM public.set_transaction_tags(created.id, p_transaction->'tags');
+  END IF;
+
+  IF public.apply_transaction_rules(created.id) THEN
+    SELECT * INTO created FROM public.transactions WHERE id = created.id;
+  END IF;
+
+  PERFORM public.update_account_balance(created.account_id, public.transaction_balance_change(created));
+  PERFORM public.adjust_goal_amount(created.goal_id, public.transaction_goal_change(created));
+
+  RETURN created;
+END;
+$$;
+
+-- Applies the rules to each new occurrence
+CREATE OR REPLACE FUNCTION public.create_recurring_transactions()
+RETURNS INTEGER AS $$
+DECLARE
+  template RECORD;
+  occurrence_date DATE;
+  occurrence_id UUID;
+  balance_change NUMERIC;
+  goal_change NUMERIC;
+  created_count INTEGER := 0;
+BEGIN
+  FOR template IN
+    SELECT * FROM public.transactions
+    WHERE frequency <> 'none'
+      AND recurrence_status = 'active'
+      AND next_occurrence_date <= CURRENT_DATE
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence_date := template.next_occurrence_date;
+
+    WHILE occurrence_date <= CURRENT_DATE
+      AND (template.recurrence_end_date IS NULL OR occurrence_date <= template.recurrence_end_date)
+    LOOP
+      INSERT INTO public.transactions (
+        user_id, account_id, category_id, type, amount, currency, description, notes,
+        transaction_date, frequency, goal_id, goal_amount, goal_allocation_type, recurrence_parent_id, payee_id
+      ) VALUES (
+        template.user_id, template.account_id, template.category_id, template.type, template.amount,
+        template.currency, template.description, template.notes,
+        occurrence_date, 'none', template.goal_id, template.goal_amount, template.goal_allocation_type, template.id,
+        template.payee_id
+      )
+      RETURNING id INTO occurrence_id;
+
+      INSERT INTO public.transaction_splits (transaction_id, user_id, category_id, amount, notes)
+      SELECT occurrence_id, user_id, category_id, amount, notes
+      FROM public.transaction_splits
+      WHERE transaction_id = template.id;
+
+      INSERT INTO public.transaction_tags (transaction_id, tag_id, user_id)
+      SELECT occurrence_id, tag_id, user_id
+      FROM public.transaction_tags
+      WHERE transaction_id = template.id;
+
+      -- Rules added since the series was set up still apply to new occurrences
+      PERFORM public.apply_transaction_rules(occurrence_id);
+
+      balance_change := CASE
+        WHEN template.type IN ('income', 'transfer-receiver') THEN template.amount
+        ELSE -template.amount
+      END;
+      PERFORM public.update_account_balance(template.account_id, balance_change);
+
+      IF template.goal_id IS NOT NULL AND template.goal_amount IS NOT NULL THEN
+        goal_change := CASE WHEN template.type = 'income' THEN template.goal_amount ELSE -template.goal_amount END;
+        UPDATE public.goals
+        SET current_amount = GREATEST(0, current_amount + goal_change)
+        WHERE id = template.goal_id;
+      END IF;
+
+      created_count := created_count + 1;
+      occurrence_date := public.get_next_occurrence_date(template.transaction_date, template.frequency, occurrence_date);
+    END LOOP;
+
+    UPDATE public.transactions
+    SET next_occurrence_date = occurrence_date,
+        recurrence_status = CASE
+          WHEN template.recurrence_end_date IS NOT NULL AND occurrence_date > template.recurrence_end_date THEN 'ended'
+          ELSE recurrence_status
+        END
+    WHERE id = template.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,8 @@
+-- Attachments can be PDFs as well as images. HEIC photos are converted to JPEG on upload,
+-- so they are stored as image/jpeg.
+ALTER TABLE public.transaction_attachments
+  DROP CONSTRAINT IF EXISTS transaction_attachments_file_type_check;
+
+ALTER TABLE public.transaction_attachments
+  ADD CONSTRAINT transaction_attachments_file_type_check
+  CHECK (file_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf'));
@@ -0,0 +1,141 @@
+-- Pluggable file storage
+-- Attachments and profile photos are stored either on Cloudinary or in Supabase Storage, chosen
+-- by the app's VITE_STORAGE_PROVIDER setting. Each file records where it went, so switching
+-- providers keeps older files working. Files are only deleted server-side: removed rows queue
+-- their files in storage_deletions and the purge-trash edge function deletes them.
+
+-- The cloudinary_* columns keep their names: trash snapshots and existing code refer to them
+ALTER TABLE public.transaction_attachments
+  ADD COLUMN storage_provider TEXT NOT NULL DEFAULT 'cloudinary'
+  CHECK (storage_provider IN ('cloudinary', 'supabase'));
+
+COMMENT ON COLUMN public.transaction_attachments.cloudinary_url IS 'Public URL of the file';
+COMMENT ON COLUMN public.transaction_attachments.cloudinary_public_id IS 'Cloudinary public ID, or object path in the ezfinance storage bucket';
+
+ALTER TABLE public.profiles
+  ADD COLUMN profile_photo_storage_provider TEXT DEFAULT NULL
+  CHECK (profile_photo_storage_provider IN ('cloudinary', 'supabase'));
+
+UPDATE public.profiles
+SET profile_photo_storage_provider = 'cloudinary'
+WHERE profile_photo_cloudinary_public_id IS NOT NULL;
+
+COMMENT ON COLUMN public.profiles.profile_photo_url IS 'Public URL of the user profile photo';
+COMMENT ON COLUMN public.profiles.profile_photo_cloudinary_public_id IS 'Cloudinary public ID, or object path in the ezfinance storage bucket';
+
+-- Restoring copies snapshot attachments back as they are, so older snapshots need the new column
+UPDATE public.transaction_trash
+SET transactions = (
+  SELECT jsonb_agg(
+    leg || jsonb_build_object(
+      'transaction_attachments', COALESCE(
+        (
+          SELECT jsonb_agg(jsonb_build_object('storage_provider', 'cloudinary') || a ORDER BY a_position)
+          FROM jsonb_array_elements(COALESCE(leg->'transaction_attachments', '[]'::jsonb)) WITH ORDINALITY AS att(a, a_position)
+        ),
+        '[]'::jsonb
+      )
+    )
+    ORDER BY leg_position
+  )
+  FROM jsonb_array_elements(transactions) WITH ORDINALITY AS legs(leg, leg_position)
+)
+WHERE jsonb_array_length(transactions) > 0;
+
+-- Bucket for the Supabase Storage provider. Objects live under the owner's user id, e.g.
+-- <user id>/transactions/<uuid>.pdf. Like Cloudinary delivery URLs, file URLs are public but
+-- unguessable.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'ezfinance',
+  'ezfinance',
+  true,
+  6291456,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads only; deleting is left to the server so files can't disappear from under their rows
+CREATE POLICY "Users can upload their own files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'ezfinance' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Files whose rows are gone, waiting to be deleted from their provider
+CREATE TABLE public.storage_deletions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: files of deleted users still need deleting
+  user_id UUID NOT NULL,
+  storage_provider TEXT NOT NULL CHECK (storage_provider IN ('cloudinary', 'supabase')),
+  path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_storage_deletions_user_id ON public.storage_deletions(user_id);
+
+ALTER TABLE public.storage_deletions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only added by the triggers below, so a user can't queue someone else's file
+CREATE POLICY "Users can view their own storage deletions"
+  ON public.storage_deletions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own storage deletions"
+  ON public.storage_deletions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Queue the file of a removed attachment, unless its transaction went to the trash (purging the
+-- trash deletes it) or the row is back. Runs at commit, after delete_transaction has written the
+-- trash entry.
+CREATE OR REPLACE FUNCTION public.queue_attachment_file_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.transaction_attachments WHERE id = OLD.id)
+     OR EXISTS (
+       SELECT 1 FROM public.transaction_trash
+       WHERE user_id = OLD.user_id
+         AND transactions @> jsonb_build_array(
+           jsonb_build_object('transaction_attachments', jsonb_build_array(jsonb_build_object('id', OLD.id)))
+         )
+     ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.storage_deletions (user_id, storage_provider, path)
+  VALUES (OLD.user_id, OLD.storage_provider, OLD.cloudinary_public_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER queue_attachment_file_deletion
+  AFTER DELETE ON public.transaction_attachments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.queue_attachment_file_deletion();
+
+-- Queue a replaced or removed profile photo
+CREATE OR REPLACE FUNCTION public.queue_profile_photo_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF OLD.profile_photo_cloudinary_public_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.profile_photo_cloudinary_public_id IS NOT DISTINCT FROM OLD.profile_photo_cloudinary_public_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.storage_deletions (user_id, storage_provider, path)
+  VALUES (
+    OLD.user_id,
+    COALESCE(OLD.profile_photo_storage_provider, 'cloudinary'),
+    OLD.profile_photo_cloudinary_public_id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_profile_photo_deletion
+  AFTER UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.queue_profile_photo_deletion();
@@ -0,0 +1,4 @@
+-- How much attachment photos are compressed in the browser before upload
+ALTER TABLE public.profiles
+  ADD COLUMN attachment_image_quality TEXT NOT NULL DEFAULT 'medium'
+  CHECK (attachment_image_quality IN ('high', 'medium', 'low'));
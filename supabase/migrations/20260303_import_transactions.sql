@@ -0,0 +1,32 @@
+-- Import a batch of transactions in one request, for the bulk CSV import.
+-- p_items: [{ "kind": "transaction", "data": { same keys as create_transaction } }
+--         | { "kind": "transfer", "data": { same keys as create_transfer } }, ...]
+-- Unlike bulk_update_transactions, items are independent: a failing item is rolled back and
+-- reported, and the rest are still imported. Returns the failed items by their 0-based position.
+CREATE OR REPLACE FUNCTION public.import_transactions(p_items JSONB)
+RETURNS TABLE (item_index INTEGER, message TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  item JSONB;
+  item_position INTEGER;
+BEGIN
+  FOR item, item_position IN
+    SELECT value, (ordinality - 1)::integer
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY
+  LOOP
+    BEGIN
+      IF item->>'kind' = 'transfer' THEN
+        PERFORM public.create_transfer(item->'data');
+      ELSE
+        PERFORM public.create_transaction(item->'data');
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      item_index := item_position;
+      message := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
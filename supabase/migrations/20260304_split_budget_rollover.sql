@@ -0,0 +1,69 @@
+-- Budget rollover counts split transactions by their lines. Split parents are saved without a
+-- category, so their spending was left out and too much unused budget rolled over.
+CREATE OR REPLACE FUNCTION public.create_recurring_budgets()
+RETURNS void AS $$
+DECLARE
+  budget_record RECORD;
+  new_start_date DATE;
+  new_end_date DATE;
+  unused_amount NUMERIC;
+  rollover NUMERIC;
+BEGIN
+  FOR budget_record IN 
+    SELECT * FROM public.budgets 
+    WHERE is_recurring = true 
+    AND period IN ('weekly', 'monthly')
+    AND end_date < CURRENT_DATE
+  LOOP
+    -- Calculate new period dates
+    IF budget_record.period = 'weekly' THEN
+      new_start_date := budget_record.end_date + INTERVAL '1 day';
+      new_end_date := new_start_date + INTERVAL '6 days';
+    ELSE -- monthly
+      new_start_date := date_trunc('month', budget_record.end_date + INTERVAL '1 month')::date;
+      new_end_date := (new_start_date + INTERVAL '1 month - 1 day')::date;
+    END IF;
+    
+    -- Calculate rollover (capped at original amount); refunds give back what they refunded.
+    -- A split transaction counts each line under its own category, like getCategoryLines.
+    SELECT COALESCE(SUM(CASE WHEN t.type = 'expense' THEN line.amount ELSE -line.amount END), 0) INTO unused_amount
+    FROM public.transactions t
+    CROSS JOIN LATERAL (
+      SELECT s.category_id, s.amount
+      FROM public.transaction_splits s
+      WHERE s.transaction_id = t.id
+      UNION ALL
+      SELECT t.category_id, t.amount
+      WHERE NOT EXISTS (SELECT 1 FROM public.transaction_splits s WHERE s.transaction_id = t.id)
+    ) AS line
+    WHERE t.user_id = budget_record.user_id
+      AND line.category_id = budget_record.category_id
+      AND (t.type = 'expense' OR t.refund_of_id IS NOT NULL)
+      AND t.transaction_date BETWEEN budget_record.start_date AND budget_record.end_date;
+    
+    unused_amount := budget_record.amount + budget_record.rollover_amount - unused_amount;
+    rollover := LEAST(GREATEST(unused_amount, 0), budget_record.amount);
+    
+    -- Check if new budget already exists
+    IF NOT EXISTS (
+      SELECT 1 FROM public.budgets 
+      WHERE user_id = budget_record.user_id 
+      AND category_id = budget_record.category_id
+      AND start_date = new_start_date
+    ) THEN
+      -- Create new recurring budget
+      INSERT INTO public.budgets (
+        user_id, category_id, amount, period, start_date, end_date, 
+        is_recurring, rollover_amount
+      ) VALUES (
+        budget_record.user_id, budget_record.category_id, budget_record.amount,
+        budget_record.period, new_start_date, new_end_date,
+        true, rollover
+      );
+      
+      -- Mark old budget as non-recurring (it's now historical)
+      UPDATE public.budgets SET is_recurring = false WHERE id = budget_record.id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,104 @@
+-- Removing a transfer's fee moves the fee leg to the trash like any other deleted transaction,
+-- instead of deleting it outright
+CREATE OR REPLACE FUNCTION public.update_transfer(p_transfer_group_id UUID, p_changes JSONB)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  sender public.transactions;
+  receiver public.transactions;
+  fee_leg public.transactions;
+  from_account public.accounts;
+  to_account public.accounts;
+  shared_changes JSONB;
+  sent_amount NUMERIC;
+  received_amount NUMERIC;
+  fee_amount NUMERIC;
+BEGIN
+  SELECT * INTO sender FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'transfer-sender' FOR UPDATE;
+  SELECT * INTO receiver FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'transfer-receiver' FOR UPDATE;
+  SELECT * INTO fee_leg FROM public.transactions
+  WHERE transfer_group_id = p_transfer_group_id AND type = 'expense' FOR UPDATE;
+
+  IF sender.id IS NULL OR receiver.id IS NULL THEN
+    RAISE EXCEPTION 'Transfer not found';
+  END IF;
+
+  SELECT * INTO from_account FROM public.accounts
+  WHERE id = COALESCE((p_changes->>'from_account_id')::uuid, sender.account_id);
+  SELECT * INTO to_account FROM public.accounts
+  WHERE id = COALESCE((p_changes->>'to_account_id')::uuid, receiver.account_id);
+
+  IF from_account.id IS NULL OR to_account.id IS NULL THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+  IF from_account.id = to_account.id THEN
+    RAISE EXCEPTION 'Cannot transfer to the same account';
+  END IF;
+
+  sent_amount := COALESCE((p_changes->>'amount')::numeric, sender.amount);
+
+  -- Keep the stored rate unless the caller gives a new received amount or rate
+  received_amount := public.resolve_transfer_received_amount(
+    sent_amount,
+    (p_changes->>'received_amount')::numeric,
+    COALESCE(
+      (p_changes->>'exchange_rate')::numeric,
+      CASE WHEN from_account.currency <> to_account.currency THEN receiver.exchange_rate END
+    ),
+    from_account.currency,
+    to_account.currency
+  );
+
+  shared_changes := jsonb_strip_nulls(jsonb_build_object(
+    'transaction_date', p_changes->'transaction_date',
+    'description', p_changes->'description'
+  ));
+  IF p_changes ? 'notes' THEN
+    shared_changes := shared_changes || jsonb_build_object('notes', p_changes->'notes');
+  END IF;
+
+  PERFORM public.update_transaction(sender.id, shared_changes || jsonb_build_object(
+    'account_id', from_account.id,
+    'currency', from_account.currency,
+    'amount', sent_amount
+  ));
+
+  PERFORM public.update_transaction(receiver.id, shared_changes || jsonb_build_object(
+    'account_id', to_account.id,
+    'currency', to_account.currency,
+    'amount', received_amount
+  ));
+
+  UPDATE public.transactions
+  SET exchange_rate = CASE WHEN sent_amount <> 0 THEN received_amount / sent_amount END
+  WHERE id = receiver.id;
+
+  fee_amount := CASE WHEN p_changes ? 'fee' THEN COALESCE((p_changes->>'fee')::numeric, 0) ELSE COALESCE(fee_leg.amount, 0) END;
+
+  IF fee_amount > 0 AND fee_leg.id IS NOT NULL THEN
+    PERFORM public.update_transaction(fee_leg.id, jsonb_build_object(
+      'account_id', from_account.id,
+      'currency', from_account.currency,
+      'amount', fee_amount,
+      'transaction_date', COALESCE(p_changes->>'transaction_date', fee_leg.transaction_date::text)
+    ));
+  ELSIF fee_amount > 0 THEN
+    PERFORM public.create_transaction(jsonb_build_object(
+      'account_id', from_account.id,
+      'type', 'expense',
+      'amount', fee_amount,
+      'currency', from_account.currency,
+      'description', 'Transfer fee: ' || from_account.name || ' to ' || to_account.name,
+      'transaction_date', COALESCE(p_changes->>'transaction_date', sender.transaction_date::text),
+      'transfer_group_id', p_transfer_group_id
+    ));
+  ELSIF fee_leg.id IS NOT NULL THEN
+    -- Through the trash, so the fee can be restored and its attachments are cleaned up
+    PERFORM public.delete_transaction(fee_leg.id);
+  END IF;
+END;
+$$;